@@ -3,4 +3,25 @@ export enum DropzoneErrorCode {
 	FileTooLarge = "file-too-large",
 	FileTooSmall = "file-too-small",
 	TooManyFiles = "too-many-files",
+	ImageWidthTooSmall = "image-width-too-small",
+	ImageWidthTooLarge = "image-width-too-large",
+	ImageHeightTooSmall = "image-height-too-small",
+	ImageHeightTooLarge = "image-height-too-large",
+	ImageInvalidAspectRatio = "image-invalid-aspect-ratio",
+	MediaTooShort = "media-too-short",
+	MediaTooLong = "media-too-long",
+	FileContentMismatch = "file-content-mismatch",
+	FileDuplicate = "file-duplicate",
+	FileRequired = "file-required",
+	TooManyFilesOfType = "too-many-files-of-type",
+	TotalSizeTooLarge = "total-size-too-large",
+	ArchiveInvalid = "archive-invalid",
+	ArchiveTooLarge = "archive-too-large",
+	FileValidationFailed = "file-validation-failed",
+}
+
+// Yükleme iptal sinyalinin nedeni, istek fonksiyonları duraklatma ile iptali bu değerle ayırt eder.
+export enum UploadAbortReason {
+	Cancelled = "cancelled",
+	Paused = "paused",
 }
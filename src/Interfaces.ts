@@ -1,16 +1,589 @@
-import type { HTMLAttributes, ReactNode } from "react";
+import type { DetailedHTMLProps, HTMLAttributes, InputHTMLAttributes, ReactNode, Ref, RefObject } from "react";
 
 // Dosya yüklemeleriyle ilgili farklı hata türlerini tanımlar.
-export type IFileErrorTypes = "file-invalid-type" | "file-too-large" | "file-too-small" | "too-many-files";
+export type IFileErrorTypes =
+	| "file-invalid-type"
+	| "file-too-large"
+	| "file-too-small"
+	| "too-many-files"
+	| "image-width-too-small"
+	| "image-width-too-large"
+	| "image-height-too-small"
+	| "image-height-too-large"
+	| "image-invalid-aspect-ratio"
+	| "media-too-short"
+	| "media-too-long"
+	| "file-content-mismatch"
+	| "file-duplicate"
+	| "file-required"
+	| "too-many-files-of-type"
+	| "total-size-too-large"
+	| "archive-invalid"
+	| "archive-too-large"
+	| "file-validation-failed";
 
-// Dosya reddedildiğinde döndürülen tip, dosya ve ilgili hata mesajlarını içerir.
-export type IFileRejection = { file: File; error: IFileError[] };
+// Ekran okuyucular için canlı bölgede duyurulan değişikliklerin mesaj kodları.
+export type IAnnouncementTypes =
+	| "files-added"
+	| "files-removed"
+	| "files-rejected"
+	| "files-cleared"
+	| "file-moved"
+	| "files-reordered";
 
-// Dosya hatalarını tanımlayan tip, hata kodu ve hata mesajı içerir.
-export type IFileError = { code: IFileErrorTypes; message: string };
+// Dosya reddedildiğinde döndürülen tip, dosya, ilgili hata mesajları ve dosyanın bırakılan dosyalar arasındaki sırasını içerir.
+// Sunucu tarafında dosya yerine dosya tanımı taşır.
+export type IFileRejection<TFile = File> = { file: TFile; error: IFileError[]; index?: number };
 
-// Dropzone bileşeninin props'larını tanımlar. Standart HTML input özelliklerini genişletir ancak "onDrop" ve "children" özelliklerini özelleştirmeyi sağlar.
-export interface IDropzone extends Omit<HTMLAttributes<HTMLInputElement>, "onDrop" | "children"> {
+// Hatanın önemi, uyarılar bildirilir ancak dosyayı reddetmez.
+export type IFileErrorSeverity = "error" | "warning";
+
+// Hatanın makine tarafından okunabilir ayrıntıları, hangi alanların dolu olduğu hata koduna göre değişir.
+export interface IFileErrorDetails {
+	// Aşılan sınır (maxFiles, maxSize, minWidth gibi).
+	limit?: number;
+
+	// Dosyanın gerçek değeri (dosya sayısı, boyut, genişlik, süre veya MIME tipi).
+	actual?: number | string;
+
+	// limit ve actual değerlerinin birimi.
+	unit?: "bytes" | "files" | "pixels" | "seconds";
+
+	// Kabul edilen dosya formatları.
+	acceptedFormats?: string[];
+
+	// Dosyanın bildirilen türü (MIME tipi veya uzantı).
+	declared?: string;
+
+	// Dosya içeriğinden tespit edilen tür.
+	detected?: string;
+
+	// Hataya neden olan dosya türü kuralının anahtarı (örneğin "video/" veya ".pdf").
+	rule?: string;
+
+	// archive-too-large hatasında aşılan arşiv sınırı (girdi sayısı, açılmış boyut veya sıkıştırma oranı).
+	archiveLimit?: "entries" | "size" | "ratio";
+}
+
+// Bir dosya türüne özel boyut ve sayı sınırları, verilen sınırlar bu türdeki dosyalar için genel sınırların yerine geçer.
+export interface IFileTypeRule {
+	// Bu türdeki dosyaların maksimum boyutu (byte cinsinden).
+	maxSize?: number;
+
+	// Bu türdeki dosyaların minimum boyutu (byte cinsinden).
+	minSize?: number;
+
+	// Bu türde yüklenebilecek en fazla dosya sayısı.
+	maxFiles?: number;
+}
+
+// MIME kalıbı (örneğin "image/", "application/pdf") veya uzantı (örneğin ".pdf") ile anahtarlanan dosya türü kuralları.
+// Dosyaya eşleşen ilk kural uygulanır.
+export type IFileTypeRules = Record<string, IFileTypeRule>;
+
+// validator'ın uyguladığı kurallar. Yalnızca JSON'a çevrilebilen değerler içerir, böylece istemci ve sunucu aynı şemayı paylaşabilir.
+export interface IValidationSchema {
+	// Kabul edilen dosya formatları, MIME kalıbı (örneğin "image/") veya uzantı (örneğin ".pdf").
+	acceptedFormats?: string[];
+
+	// Dosyanın maksimum boyutu (byte cinsinden).
+	maxSize?: number;
+
+	// Dosyanın minimum boyutu (byte cinsinden).
+	minSize?: number;
+
+	// Maksimum dosya sayısı.
+	maxFiles?: number;
+
+	// Dosyaların toplam boyutu üst sınırı (byte cinsinden).
+	maxTotalSize?: number;
+
+	// Dosya türüne özel boyut ve sayı sınırları.
+	rules?: IFileTypeRules;
+}
+
+// validator'ın okuduğu dosya bilgileri, tarayıcıdaki File nesneleri ve sunucuda okunan dosya tanımları bu yapıya uyar.
+export interface IFileInfo {
+	name: string;
+	type: string;
+	size: number;
+}
+
+// Sunucu tarafında doğrulanan dosyanın içeriği: Buffer/Uint8Array, Blob, web akışı veya Node akışı.
+export type IFileSource = Uint8Array | Blob | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+
+// Sunucu tarafında doğrulanan dosyanın tanımı, boyut verilmezse içerikten okunur.
+export interface IFileDescriptor {
+	// Dosya adı.
+	name: string;
+
+	// MIME tipi, verilmezse Blob içeriğin tipi kullanılır.
+	type?: string;
+
+	// Dosya boyutu (byte cinsinden).
+	size?: number;
+
+	// Dosya içeriği.
+	data?: IFileSource;
+}
+
+// Dosya hatalarını tanımlayan tip, hata kodu, hata mesajı, önemi (varsayılan "error") ve ayrıntıları içerir. Özel doğrulayıcılar kendi hata kodlarını kullanabilir.
+export type IFileError = {
+	code: IFileErrorTypes | (string & {});
+	message: string;
+	severity?: IFileErrorSeverity;
+	details?: IFileErrorDetails;
+};
+
+// Mesaj şablonlarına iletilen parametreler, hatanın ayrıntılarına ek olarak dosya adını ve biçimlendirilmiş değerleri içerir.
+// Doğrulayıcılar kendi parametrelerini ekleyebilir.
+export interface IMessageParams extends IFileErrorDetails {
+	// Dosya adı.
+	name?: string;
+
+	// limit ve actual değerlerinin dile göre biçimlendirilmiş halleri, boyutlar için "5 MB" gibi.
+	formattedLimit?: string;
+	formattedActual?: string;
+
+	[key: string]: string | number | string[] | undefined;
+}
+
+// Metin şablonu ({param} yer tutucularıyla) veya parametrelerden mesaj üreten fonksiyon.
+export type IMessageTemplate = string | ((params: IMessageParams) => string);
+
+// Doğrulama mesajı tanımı, şablon doğrulama sırasında parametrelerle doldurulur.
+export type IFileErrorMessage = { code: IFileErrorTypes | (string & {}); message: IMessageTemplate; locale?: string };
+
+// Dil kataloğu, hata ve duyuru koduna göre mesaj şablonlarını içerir.
+export type ILocaleMessages = Partial<Record<IFileErrorTypes | IAnnouncementTypes | (string & {}), IMessageTemplate>>;
+
+// Özel doğrulayıcıya iletilen bağlam, doğrulanan tüm dosyaları, doğrulama mesajlarını ve iptal sinyalini içerir.
+export type IFileValidatorContext = { files: File[]; messages?: IFileErrorMessage[]; signal: AbortSignal };
+
+// Özel doğrulayıcının dönebileceği sonuç, hata yoksa null döner.
+export type IFileValidatorResult = IFileError | IFileError[] | null;
+
+// Senkron veya asenkron çalışabilen özel dosya doğrulayıcısı.
+export type IFileValidator = (file: File, context: IFileValidatorContext) => IFileValidatorResult | Promise<IFileValidatorResult>;
+
+// Bir dosya formatının imzası. magic içindeki her [offset, bytes] çifti dosyanın başında eşleşmelidir.
+export interface IFileSignature {
+	// Tespit edilen MIME tipi.
+	type: string;
+
+	// Formatın geçerli dosya uzantıları.
+	extensions: string[];
+
+	// Aynı imzayı paylaşan ve bu formatla uyumlu sayılan diğer MIME tipleri (veya önekleri).
+	compatibleTypes?: string[];
+
+	// Formatı tanımlayan byte dizileri ve başlangıç konumları.
+	magic: [offset: number, bytes: number[]][];
+}
+
+// Görsel boyutlarını ve medya süresini kısıtlayan seçenekler. Boyutlar piksel, süreler saniye cinsindendir.
+export interface IMediaConstraints {
+	// Görselin minimum genişliği.
+	minWidth?: number;
+
+	// Görselin maksimum genişliği.
+	maxWidth?: number;
+
+	// Görselin minimum yüksekliği.
+	minHeight?: number;
+
+	// Görselin maksimum yüksekliği.
+	maxHeight?: number;
+
+	// Görselin beklenen en-boy oranı (genişlik / yükseklik, örneğin 16 / 9).
+	aspectRatio?: number;
+
+	// En-boy oranı karşılaştırmasında kabul edilen sapma (varsayılan 0.01).
+	aspectRatioTolerance?: number;
+
+	// Video veya ses dosyasının minimum süresi.
+	minDuration?: number;
+
+	// Video veya ses dosyasının maksimum süresi.
+	maxDuration?: number;
+}
+
+// Görsel ve medya dosyalarını çözen fonksiyonlar, test ortamında veya özel çözücülerle değiştirilebilir.
+export interface IMediaDecoders {
+	// Görselin piksel boyutlarını döner.
+	image?: (file: File) => Promise<{ width: number; height: number }>;
+
+	// Video veya ses dosyasının süresini saniye cinsinden döner.
+	media?: (file: File) => Promise<{ duration: number }>;
+}
+
+// Yükleme kuyruğundaki bir dosyanın durumu.
+export type IUploadStatus = "queued" | "uploading" | "paused" | "success" | "error" | "cancelled";
+
+// Yükleme kuyruğundaki bir dosyanın durumu, ilerlemesi ve sonucu.
+export interface IUploadItem {
+	// Yüklenen dosya.
+	file: File;
+
+	// Yükleme durumu.
+	status: IUploadStatus;
+
+	// Yükleme ilerlemesi (0 ile 100 arasında).
+	progress: number;
+
+	// Yapılan deneme sayısı.
+	attempts: number;
+
+	// Son denemede oluşan hata.
+	error?: unknown;
+
+	// Başarılı yüklemede sunucunun döndürdüğü yanıt.
+	response?: unknown;
+}
+
+// Yükleme isteğine iletilen bağlam, ilerleme bildirimi, iptal sinyali ve deneme numarasını içerir.
+export type IUploadRequestContext = {
+	onProgress: (loaded: number, total: number) => void;
+	signal: AbortSignal;
+	attempt: number;
+};
+
+// Tek bir dosyayı yükleyen istek fonksiyonu, yanıtı çözen bir Promise döner.
+export type IUploadRequest = (file: File, context: IUploadRequestContext) => Promise<unknown>;
+
+// tus yükleme adreslerini saklayan depolama, localStorage ile aynı arayüze sahiptir.
+export interface ITusUrlStorage {
+	getItem: (key: string) => string | null | Promise<string | null>;
+	setItem: (key: string, value: string) => void | Promise<void>;
+	removeItem: (key: string) => void | Promise<void>;
+}
+
+// tus 1.0 protokolü ile parçalı ve devam ettirilebilir yükleme seçenekleri.
+export interface ITusOptions {
+	// Yüklemelerin oluşturulduğu adres, verilmezse yükleme seçeneklerindeki url kullanılır.
+	endpoint?: string;
+
+	// PATCH isteği başına gönderilen byte sayısı (varsayılan 5 MB).
+	chunkSize?: number;
+
+	// Upload-Metadata başlığı ile gönderilen ek bilgiler (varsayılan olarak dosya adı ve türü).
+	metadata?: (file: File) => Record<string, string>;
+
+	// Yükleme adresini dosyaya bağlayan anahtarı üretir, sayfa yenilendiğinde yüklemenin devam ettirilmesini sağlar.
+	fingerprint?: (file: File, endpoint: string) => string;
+
+	// Yükleme adreslerinin saklandığı depolama (varsayılan localStorage, yoksa bellek).
+	storage?: ITusUrlStorage;
+}
+
+// Taslakta saklanan dosya kaydı, dosya içeriği ve File nesnesini yeniden oluşturmak için gereken bilgileri içerir.
+export interface IDraftFile {
+	blob: Blob;
+	name: string;
+	type: string;
+	lastModified: number;
+	relativePath?: string;
+}
+
+// Kabul edilen dosyaların sayfa yenilemelerine karşı saklanan taslağı.
+export interface IDraft {
+	// Dosyalar, listedeki sırasıyla.
+	files: IDraftFile[];
+
+	// Taslağın kaydedildiği zaman (milisaniye cinsinden zaman damgası).
+	savedAt: number;
+}
+
+// Taslakların saklandığı depolama, varsayılan IndexedDB depolaması test veya farklı ortamlar için değiştirilebilir.
+export interface IDraftStorage {
+	getItem: (key: string) => IDraft | null | Promise<IDraft | null>;
+	setItem: (key: string, draft: IDraft) => void | Promise<void>;
+	removeItem: (key: string) => void | Promise<void>;
+}
+
+// Taslak saklama seçenekleri.
+export interface IPersistOptions {
+	// Taslakların saklandığı depolama (varsayılan IndexedDB).
+	storage?: IDraftStorage;
+
+	// Taslakta saklanabilecek dosyaların toplam boyutu üst sınırı, byte cinsinden (varsayılan 50 MB).
+	maxSize?: number;
+
+	// Taslağın geçerlilik süresi, milisaniye cinsinden (varsayılan 24 saat).
+	maxAge?: number;
+}
+
+// Yükleme motoru seçenekleri. url verilirse varsayılan XHR isteği, request verilirse özel istek fonksiyonu kullanılır.
+export interface IUploadOptions {
+	// Yükleme adresi.
+	url?: string | ((file: File) => string);
+
+	// HTTP metodu (varsayılan "POST").
+	method?: string;
+
+	// İstek başlıkları.
+	headers?: Record<string, string> | ((file: File) => Record<string, string>);
+
+	// Dosyanın FormData içindeki alan adı (varsayılan "file").
+	fieldName?: string;
+
+	// Çerezlerin isteğe eklenip eklenmeyeceğini belirler.
+	withCredentials?: boolean;
+
+	// Özel yükleme isteği (fetch, XHR veya başka bir istemci ile).
+	request?: IUploadRequest;
+
+	// Dosyaları tus 1.0 protokolü ile parçalı ve devam ettirilebilir şekilde yükler.
+	tus?: ITusOptions;
+
+	// Aynı anda yüklenebilecek dosya sayısı (varsayılan 3).
+	concurrency?: number;
+
+	// Başarısız yüklemeler için tekrar deneme sayısı (varsayılan 0).
+	retries?: number;
+
+	// İlk tekrar denemesinden önceki bekleme süresi, her denemede iki katına çıkar (milisaniye, varsayılan 1000).
+	retryDelay?: number;
+
+	// Kabul edilen dosyaların otomatik olarak yüklenip yüklenmeyeceğini belirler (varsayılan true).
+	autoUpload?: boolean;
+
+	// Bir dosya başarıyla yüklendiğinde tetiklenir.
+	onUploadSuccess?: (file: File, response: unknown) => void;
+
+	// Bir dosyanın tüm denemeleri başarısız olduğunda tetiklenir.
+	onUploadError?: (file: File, error: unknown) => void;
+}
+
+// Yükleme durumunu ve aksiyonlarını tanımlar.
+export interface IUploadState {
+	// Kuyruktaki dosyaların durumları.
+	items: IUploadItem[];
+
+	// Yüklenen veya sırada bekleyen dosya varsa true olur.
+	isUploading: boolean;
+
+	// Henüz kuyruğa eklenmemiş kabul edilmiş dosyaları yüklemeye başlar.
+	start: () => void;
+
+	// Dosyanın yüklemesini iptal eder.
+	cancel: (file: File) => void;
+
+	// Dosyanın yüklemesini duraklatır, tus ile yüklenen dosyalar kaldığı yerden devam eder.
+	pause: (file: File) => void;
+
+	// Duraklatılmış yüklemeyi devam ettirir.
+	resume: (file: File) => void;
+
+	// Başarısız veya iptal edilmiş yüklemeyi yeniden dener.
+	retry: (file: File) => void;
+
+	// Tüm yüklemeleri iptal eder.
+	cancelAll: () => void;
+}
+
+// Dropzone container (kapsayıcı) öğesine uygulanan HTML özellikleri.
+export type IDropzoneRootProps = HTMLAttributes<HTMLDivElement>;
+
+// Sıralanabilir liste öğesine uygulanan HTML özellikleri, öğenin konumu data-sortable-index ile işaretlenir.
+export type ISortableItemProps = HTMLAttributes<HTMLElement> & { "data-sortable-index"?: number };
+
+// Dropzone input öğesine uygulanan HTML özellikleri, webkitdirectory klasör seçimini etkinleştirir.
+export type IDropzoneInputProps = DetailedHTMLProps<InputHTMLAttributes<HTMLInputElement>, HTMLInputElement> & {
+	webkitdirectory?: string;
+};
+
+// Görsel olmayan dosyalar için MIME tipinden belirlenen ikon türü.
+export type IFileIconType =
+	| "image"
+	| "video"
+	| "audio"
+	| "pdf"
+	| "archive"
+	| "spreadsheet"
+	| "presentation"
+	| "document"
+	| "text"
+	| "file";
+
+// Kabul edilen bir dosyanın önizleme bilgileri.
+export interface IFilePreview {
+	// Dosyanın object URL'i, dosya listeden çıktığında serbest bırakılır.
+	url: string;
+
+	// Görseller için küçültülmüş data URL, hazır olana kadar veya görsel olmayan dosyalarda null.
+	thumbnail: string | null;
+
+	// Dosyanın MIME tipinden belirlenen ikon türü.
+	iconType: IFileIconType;
+}
+
+// Önizleme seçenekleri.
+export interface IPreviewOptions {
+	// Küçük resmin en uzun kenarı (piksel cinsinden, varsayılan 200).
+	thumbnailMaxEdge?: number;
+
+	// Varsayılan canvas tabanlı küçük resim oluşturucunun yerine kullanılan özel oluşturucu.
+	createThumbnail?: (file: File, maxEdge: number) => Promise<string | null> | string | null;
+}
+
+// Dosya listesindeki değişikliğin türü.
+export type IFilesChangeType = "added" | "removed" | "rejected" | "cleared" | "reordered";
+
+// onFilesChange ile bildirilen değişikliğin ayrıntıları.
+export interface IFilesChangeMeta {
+	// Değişikliğin türü: dosya eklendi, silindi, reddedildi, liste temizlendi veya sırası değişti.
+	type: IFilesChangeType;
+
+	// Değişiklikten etkilenen dosyalar (eklenen, silinen, reddedilen veya konumu değişen dosyalar).
+	files: File[];
+
+	// Değişiklik sırasında reddedilen dosyalar.
+	rejections: IFileRejection[];
+
+	// Kabul edilen dosyaların uyarıları (severity "warning" olan hatalar).
+	warnings: IFileRejection[];
+
+	// Dosya sayısı sınırı nedeniyle yeni dosyalar için listeden çıkarılan dosyalar (replace-oldest politikası ve tekli mod).
+	replaced?: File[];
+}
+
+// Dosya sayısı sınırı aşıldığında uygulanan politika: tüm dosyaları reddet, mevcut dosyaları koruyup sınıra kadar al veya en eski dosyaları çıkar.
+export type IMaxFilesPolicy = "reject-all" | "accept-first" | "replace-oldest";
+
+// Yapıştırılan dosyaların dinlendiği hedef: container, tüm belge veya ref ile verilen öğe.
+export type IPasteTarget = "container" | "document" | RefObject<HTMLElement | null>;
+
+// Tekrar eden dosyaları tanımlayan strateji: göreli yol, yol + boyut + değiştirilme tarihi, içerik özeti veya özel anahtar fonksiyonu.
+export type IDuplicateStrategy = "name" | "name+size+lastModified" | "sha256" | ((file: File) => string | Promise<string>);
+
+// Bırakılan klasörden toplanan, klasöre göre göreli yolunu ve dönüştürüldüyse orijinal dosyayı taşıyan dosya.
+export type IFileWithPath = File & { relativePath?: string; originalFile?: File };
+
+// Dosyayı doğrulamadan önce dönüştüren senkron veya asenkron fonksiyon, dosyayı değiştirmeyecekse aynı dosyayı döner.
+export type IFileTransformer = (file: File, context: { signal: AbortSignal }) => File | Promise<File>;
+
+// Yerleşik görsel dönüştürücünün çıktı formatları.
+export type IImageOutputFormat = "image/jpeg" | "image/webp" | "image/png";
+
+// Yerleşik görsel dönüştürücünün seçenekleri.
+export interface IImageTransformOptions {
+	// Çıktının en fazla genişliği, daha geniş görseller en-boy oranı korunarak küçültülür (piksel cinsinden).
+	maxWidth?: number;
+
+	// Çıktının en fazla yüksekliği, daha yüksek görseller en-boy oranı korunarak küçültülür (piksel cinsinden).
+	maxHeight?: number;
+
+	// JPEG ve WebP çıktıları için 0-1 arası kodlama kalitesi.
+	quality?: number;
+
+	// Çıktı formatı, verilmezse görselin kendi formatı korunur.
+	format?: IImageOutputFormat;
+
+	// EXIF yönü 1 olmayan JPEG'leri başka değişiklik gerekmese de yeniden kodlayarak yönü piksellere işler (varsayılan true).
+	fixOrientation?: boolean;
+
+	// Varsayılan createImageBitmap tabanlı çözücünün yerine kullanılan özel görsel çözücü, EXIF yönünü fixOrientation açıksa uygulamalıdır.
+	// Dönen kaynağın close metodu varsa (örneğin ImageBitmap) çizimden sonra çağrılır.
+	decode?: (
+		file: File,
+		options: { fixOrientation: boolean },
+	) => Promise<{ source: CanvasImageSource; width: number; height: number }>;
+}
+
+// Bırakılan veya seçilen klasörlerin okunma seçenekleri.
+export interface IDirectoryOptions {
+	// Okunacak en fazla klasör derinliği, daha derindeki dosyalar alınmaz.
+	maxDepth?: number;
+
+	// Okunacak en fazla girdi (dosya ve klasör) sayısı, sınıra ulaşıldığında okuma durur.
+	maxEntries?: number;
+
+	// Gizli ve sistem dosyalarını (.DS_Store, Thumbs.db gibi) yok sayar (varsayılan true).
+	ignoreHiddenFiles?: boolean;
+}
+
+// Bırakılan ZIP arşivlerinin açılma sınırları, sınırları aşan arşivler archive-too-large ile reddedilir.
+export interface IArchiveOptions {
+	// Arşivdeki en fazla dosya sayısı (varsayılan 1000).
+	maxEntries?: number;
+
+	// Arşivdeki dosyaların açılmış toplam boyutu üst sınırı (byte, varsayılan 512 MB).
+	maxUncompressedSize?: number;
+
+	// Açılmış toplam boyutun arşiv boyutuna en fazla oranı (varsayılan 100).
+	maxCompressionRatio?: number;
+}
+
+// Eklenti kancalarına iletilen bağlam.
+export interface IPluginContext {
+	// Kabul edilmiş dosyaların güncel listesi.
+	files: File[];
+
+	// Seçili dil ve validationMessages ile oluşturulan mesajlar.
+	messages: IFileErrorMessage[];
+}
+
+// Doğrulama kancalarına iletilen, liste temizlendiğinde veya yeni dosyalar eklendiğinde iptal edilen bağlam.
+export interface IPluginValidateContext extends IPluginContext {
+	signal: AbortSignal;
+}
+
+// afterValidate kancasına iletilen doğrulama sonucu.
+export interface IPluginValidation {
+	// Doğrulanan yeni dosyalar.
+	files: File[];
+
+	// Yerleşik ve özel doğrulayıcıların reddetmeleri.
+	rejections: IFileRejection[];
+}
+
+// Eklentilerin render prop değerlerini üretirken okuduğu state.
+export interface IPluginRenderState {
+	files: File[];
+	fileRejections: IFileRejection[];
+}
+
+// Bırakma akışının aşamalarına kancalanan eklenti, kancalar plugins dizisindeki sırayla çalışır ve Promise dönebilir.
+export interface IDropzonePlugin<TRenderProps extends object = object> {
+	// Eklentinin adı.
+	name: string;
+
+	// Dönüştürülen dosyalar tekrar kontrolü ve doğrulamadan önce bu kancadan geçer, dönen liste dosyaların yerini alır.
+	beforeValidate?: (files: File[], context: IPluginValidateContext) => File[] | undefined | Promise<File[] | undefined>;
+
+	// Doğrulama sonucunu alır, dönen liste reddetmelerin yerini alır (reddetme ekleyebilir veya kaldırabilir).
+	afterValidate?: (
+		validation: IPluginValidation,
+		context: IPluginValidateContext,
+	) => IFileRejection[] | undefined | Promise<IFileRejection[] | undefined>;
+
+	// Dosyalar listeye eklendikten sonra çağrılır.
+	onFilesAdded?: (files: File[], context: IPluginContext) => void | Promise<void>;
+
+	// Listeden çıkarılan (silinen veya dosya sayısı sınırı nedeniyle değiştirilen) her dosya için çağrılır.
+	onFileRemoved?: (file: File, context: IPluginContext) => void | Promise<void>;
+
+	// Liste temizlendiğinde veya form sıfırlandığında çağrılır.
+	onReset?: (context: IPluginContext) => void | Promise<void>;
+
+	// children render fonksiyonuna eklenecek değerleri döner.
+	renderProps?: (state: IPluginRenderState) => TRenderProps;
+}
+
+// Birleşim tipini kesişim tipine çevirir.
+type IUnionToIntersection<T> = (T extends unknown ? (value: T) => void : never) extends (value: infer I) => void ? I : never;
+
+// Eklentilerin renderProps ile eklediği değerlerin birleşimi.
+export type IPluginRenderProps<TPlugins extends IDropzonePlugin[]> = IUnionToIntersection<
+	ReturnType<NonNullable<TPlugins[number]["renderProps"]>>
+>;
+
+// useDropzone hook'unun seçeneklerini tanımlar.
+export interface IUseDropzoneOptions<TPlugins extends IDropzonePlugin[] = IDropzonePlugin[]>
+	extends IMediaConstraints,
+		IDirectoryOptions {
+	// İlk yüklenmiş dosyalar.
 	initialFiles?: File[];
 
 	// Dosyalar dropzone'a bırakıldığında tetiklenen isteğe bağlı callback fonksiyonu.
@@ -22,11 +595,20 @@ export interface IDropzone extends Omit<HTMLAttributes<HTMLInputElement>, "onDro
 	// Reddedilen dosyalar dropzone'a bırakıldığında tetiklenen isteğe bağlı callback fonksiyonu.
 	onDropRejected?: (fileRejections: IFileRejection[]) => void;
 
+	// Dosyalar işlenirken beklenmeyen bir hata oluştuğunda (örneğin bir eklenti kancası hata fırlattığında) tetiklenen isteğe bağlı callback fonksiyonu.
+	onError?: (error: unknown) => void;
+
 	// Kabul edilen dosya formatlarının listesi (örneğin, ["image/png", "image/jpeg"]).
 	acceptedFormats?: string[];
 
-	// Dosya doğrulama hatalarının listesi.
-	validationMessages?: IFileError[];
+	// Dosya eklemeyi, silmeyi, klavye ve sürükle-bırak etkileşimlerini devre dışı bırakır.
+	disabled?: boolean;
+
+	// Dil kataloğundaki mesajların yerine geçen doğrulama mesajları, şablon veya fonksiyon olabilir.
+	validationMessages?: IFileErrorMessage[];
+
+	// Doğrulama mesajlarının dili, registerLocale ile kaydedilen diller de kullanılabilir (varsayılan "tr").
+	locale?: string;
 
 	// Dosyanın maksimum boyutu.
 	maxSize?: number;
@@ -34,29 +616,334 @@ export interface IDropzone extends Omit<HTMLAttributes<HTMLInputElement>, "onDro
 	// Dosyanın minimum boyutu.
 	minSize?: number;
 
+	// MIME kalıbı veya uzantı ile anahtarlanan, kendi boyut ve sayı sınırlarını taşıyan dosya türü kuralları.
+	rules?: IFileTypeRules;
+
+	// Kabul edilmiş ve yeni eklenen dosyaların toplam boyutu üst sınırı (byte cinsinden).
+	maxTotalSize?: number;
+
 	// Birden fazla dosya kabul edilip edilmeyeceğini belirler.
 	multiple?: boolean;
 
+	// Dosya seçme penceresinde dosyalar yerine klasör seçilmesini sağlar.
+	directory?: boolean;
+
+	// Tekrar eden dosyaların nasıl tespit edileceği (varsayılan "name").
+	duplicateStrategy?: IDuplicateStrategy;
+
+	// Kontrollü modda dosya listesi, verildiğinde liste yalnızca onFilesChange ile güncellenir.
+	files?: File[];
+
+	// Dosya listesi değiştiğinde yeni liste ve değişikliğin ayrıntılarıyla tetiklenir.
+	onFilesChange?: (files: File[], meta: IFilesChangeMeta) => void;
+
+	// Kabul edilen dosyaların form gönderilirken FormData'ya eklendiği alan adı.
+	name?: string;
+
+	// Form gönderilirken en az bir dosya seçilmesini zorunlu kılar (file-required).
+	required?: boolean;
+
+	// Kabul edilen dosyalar için object URL, küçük resim ve ikon türü içeren önizlemeler oluşturur.
+	previews?: boolean | IPreviewOptions;
+
+	// Dosyaları doğrulamadan önce sırayla dönüştüren görsel dönüştürme seçenekleri veya özel dönüştürücüler.
+	transform?: IImageTransformOptions | IFileTransformer | (IImageTransformOptions | IFileTransformer)[];
+
 	// Maksimum dosya sayısı.
 	maxFiles?: number;
 
-	// Çocuk bileşeni, drag and drop işlemi için gerekli olan props ve dosya silme işlevini içerir.
-	children: ({
-		containerProps,
-		isDragActive,
-		inputProps,
-		handleFileDelete,
-	}: {
-		// Drag işlemi aktifse true olur.
-		isDragActive?: boolean;
-
-		// Dropzone'ın container (kapsayıcı) öğesinin HTML özellikleri.
-		containerProps: HTMLAttributes<HTMLDivElement>;
-
-		// Input öğesinin HTML özellikleri.
-		inputProps: React.DetailedHTMLProps<React.InputHTMLAttributes<HTMLInputElement>, HTMLInputElement>;
-
-		// Silme işlemi için dosya silme fonksiyonu.
-		handleFileDelete: (files: File[]) => void;
-	}) => ReactNode;
+	// Dosya sayısı sınırı aşıldığında uygulanan politika (varsayılan "reject-all").
+	maxFilesPolicy?: IMaxFilesPolicy;
+
+	// Yerleşik kontrollere ek olarak çalışan senkron veya asenkron özel doğrulayıcılar.
+	validators?: IFileValidator[];
+
+	// Görsel boyutu ve medya süresi kontrollerinde kullanılan çözücüler.
+	mediaDecoders?: IMediaDecoders;
+
+	// Dosyanın ilk byte'larını okuyarak gerçek formatını kabul edilen formatlarla karşılaştırır.
+	verifyContent?: boolean;
+
+	// Kabul edilen dosyaları yükleyen isteğe bağlı yükleme motoru seçenekleri.
+	upload?: IUploadOptions;
+
+	// Panodan yapıştırılan dosyaların (örneğin ekran görüntüleri) dinlendiği hedef, verilmezse yapıştırma dinlenmez.
+	pasteTarget?: IPasteTarget;
+
+	// Tüm sayfayı bırakma alanı yapar, sayfanın herhangi bir yerine bırakılan dosyalar eklenir ve tarayıcı dosyaya yönlenmez.
+	fullPage?: boolean;
+
+	// Bırakma akışına kancalanan eklentiler, kancalar dizideki sırayla çalışır.
+	plugins?: TPlugins;
+
+	// acceptedFormats, maxSize, minSize, maxFiles, maxTotalSize ve rules değerlerini tek nesnede veren kural şeması.
+	// Ayrı verilen prop'lar şemadaki değerlerin yerine geçer.
+	schema?: IValidationSchema;
+
+	// Kabul edilen dosyaların sayfa yenilemelerine karşı saklandığı taslağın anahtarı, verildiğinde taslak saklama etkinleşir.
+	persistKey?: string;
+
+	// Taslak saklama seçenekleri.
+	persist?: IPersistOptions;
+
+	// Bırakılan veya seçilen ZIP arşivlerini açar ve içindeki dosyaları ekler, true verilirse varsayılan sınırlar kullanılır.
+	expandArchives?: boolean | IArchiveOptions;
+
+	// DropzoneGroup içinde bölgenin birleşik state'teki kimliği, verilmezse name veya otomatik üretilen id kullanılır.
+	zoneId?: string;
+}
+
+// useDropzone hook'unun döndürdüğü state ve aksiyonları tanımlar.
+export interface IUseDropzoneReturn<TPlugins extends IDropzonePlugin[] = IDropzonePlugin[]> {
+	// Container öğesi için özellikleri döner, verilen olay işleyicileri dahili işleyicilerle birleştirilir.
+	getRootProps: (props?: IDropzoneRootProps) => IDropzoneRootProps;
+
+	// Input öğesi için özellikleri döner, verilen olay işleyicileri ve ref dahili olanlarla birleştirilir.
+	getInputProps: (props?: IDropzoneInputProps) => IDropzoneInputProps;
+
+	// Container'ı açıklayan öğe (örneğin kabul edilen formatlar) için id içeren özellikleri döner, container aria-describedby ile bu öğeye bağlanır.
+	getDescriptionProps: (props?: HTMLAttributes<HTMLElement>) => HTMLAttributes<HTMLElement>;
+
+	// Eklenen, reddedilen ve silinen dosyaları duyuran görünmez canlı bölgenin özelliklerini döner.
+	getLiveRegionProps: (props?: HTMLAttributes<HTMLDivElement>) => HTMLAttributes<HTMLDivElement>;
+
+	// Canlı bölgede duyurulan son mesaj.
+	announcement: string;
+
+	// Input öğesine referans.
+	inputRef: RefObject<HTMLInputElement | null>;
+
+	// Drag işlemi aktifse true olur.
+	isDragActive: boolean;
+
+	// Sürüklenen öğeler kabul edilecekse true olur.
+	isDragAccept: boolean;
+
+	// Sürüklenen öğeler format, dosya sayısı veya multiple seçeneğine uymuyorsa true olur.
+	isDragReject: boolean;
+
+	// Sürüklenen dosya sayısı, sürükleme yoksa 0.
+	draggedItems: number;
+
+	// fullPage modunda sayfanın üzerinde dosya sürüklenirken true olur, tam sayfa katmanı göstermek için kullanılır.
+	isOverlayVisible: boolean;
+
+	// Asenkron doğrulayıcılar çalışırken true olur.
+	isValidating: boolean;
+
+	// Kabul edilmiş dosyaların güncel listesi.
+	files: File[];
+
+	// Son işlemde reddedilen dosyalar ve hata mesajları.
+	fileRejections: IFileRejection[];
+
+	// Kabul edilen dosyaların uyarıları, uyarılar dosyayı reddetmez.
+	fileWarnings: IFileRejection[];
+
+	// required açıkken liste boşsa file-required hatası, aksi halde null.
+	requiredError: IFileError | null;
+
+	// Kabul edilen dosyaların önizlemeleri, previews seçeneği verilmezse boştur.
+	previews: Map<File, IFilePreview>;
+
+	// Dosya seçme penceresini açar.
+	open: () => void;
+
+	// Verilen dosyaları listeden siler.
+	removeFiles: (files: File[]) => void;
+
+	// Tüm dosyaları ve reddedilenleri temizler.
+	clear: () => void;
+
+	// Dosyayı verilen konumdan yeni konuma taşır.
+	moveFile: (from: number, to: number) => void;
+
+	// Dosyaları verilen anahtar sırasına göre sıralar, listede olmayan anahtarlar yok sayılır, anahtarı verilmeyen dosyalar sona eklenir.
+	reorder: (keys: string[]) => void;
+
+	// Dosyayı yeni dosyayla aynı konumda değiştirir, yeni dosya doğrulamadan geçemezse eski dosya korunur.
+	replaceFile: (oldFile: File, newFile: File) => void;
+
+	// Dosyanın duplicateStrategy ile üretilen anahtarını döner (reorder ve React key için).
+	getKey: (file: File) => string;
+
+	// Dosya listesi öğesi için işaretçi ile sürükleme ve Alt + Ok tuşlarıyla taşıma özelliklerini döner.
+	getSortableItemProps: (index: number, props?: ISortableItemProps) => ISortableItemProps;
+
+	// persistKey ile saklanan taslağı siler (örneğin form başarıyla gönderildikten sonra).
+	clearDraft: () => Promise<void>;
+
+	// DropzoneGroup içinde dosyayı başka bir bölgeye sürüklemek için dosya listesi öğesinin özelliklerini döner.
+	getFileDragProps: (file: File, props?: HTMLAttributes<HTMLElement>) => HTMLAttributes<HTMLElement>;
+
+	// Eklentilerin renderProps ile eklediği değerler.
+	pluginProps: IPluginRenderProps<TPlugins>;
+
+	// Yükleme durumu ve aksiyonları.
+	upload: IUploadState;
+}
+
+// children render fonksiyonuna iletilen özellikleri tanımlar.
+export interface IDropzoneRenderProps {
+	// Drag işlemi aktifse true olur.
+	isDragActive?: boolean;
+
+	// Sürüklenen öğeler kabul edilecekse true olur.
+	isDragAccept?: boolean;
+
+	// Sürüklenen öğeler reddedilecekse true olur.
+	isDragReject?: boolean;
+
+	// Sürüklenen dosya sayısı.
+	draggedItems?: number;
+
+	// fullPage modunda sayfanın üzerinde dosya sürüklenirken true olur.
+	isOverlayVisible?: boolean;
+
+	// Asenkron doğrulayıcılar çalışırken true olur.
+	isValidating?: boolean;
+
+	// Dropzone'ın container (kapsayıcı) öğesinin HTML özellikleri.
+	containerProps: IDropzoneRootProps;
+
+	// Input öğesinin HTML özellikleri.
+	inputProps: IDropzoneInputProps;
+
+	// Container'ı açıklayan öğenin özellikleri (aria-describedby ile bağlanan id).
+	descriptionProps: HTMLAttributes<HTMLElement>;
+
+	// Silme işlemi için dosya silme fonksiyonu.
+	handleFileDelete: (files: File[]) => void;
+
+	// Dosyayı verilen konumdan yeni konuma taşır.
+	moveFile: (from: number, to: number) => void;
+
+	// Dosyaları verilen anahtar sırasına göre sıralar.
+	reorder: (keys: string[]) => void;
+
+	// Dosyayı yeni dosyayla aynı konumda değiştirir.
+	replaceFile: (oldFile: File, newFile: File) => void;
+
+	// Dosyanın anahtarını döner.
+	getKey: (file: File) => string;
+
+	// Sıralanabilir dosya listesi öğesinin özelliklerini döner.
+	getSortableItemProps: (index: number, props?: ISortableItemProps) => ISortableItemProps;
+
+	// Saklanan taslağı siler.
+	clearDraft: () => Promise<void>;
+
+	// Dosyayı gruptaki başka bir bölgeye sürüklemek için dosya listesi öğesinin özelliklerini döner.
+	getFileDragProps: (file: File, props?: HTMLAttributes<HTMLElement>) => HTMLAttributes<HTMLElement>;
+
+	// Yükleme durumu ve aksiyonları.
+	upload: IUploadState;
+
+	// Kabul edilen dosyaların önizlemeleri.
+	previews: Map<File, IFilePreview>;
+}
+
+// Dropzone bileşeninin props'larını tanımlar. Standart HTML input özelliklerini genişletir ancak "onDrop" ve "children" özelliklerini özelleştirmeyi sağlar.
+export interface IDropzone<TPlugins extends IDropzonePlugin[] = IDropzonePlugin[]>
+	extends IUseDropzoneOptions<TPlugins>,
+		Omit<HTMLAttributes<HTMLInputElement>, "onDrop" | "onError" | "children"> {
+	// Çocuk bileşeni, drag and drop işlemi için gerekli olan props ve dosya silme işlevini içerir, eklentilerin değerleri de eklenir.
+	children: (renderProps: IDropzoneRenderProps & IPluginRenderProps<TPlugins>) => ReactNode;
+
+	// Input öğesine referans.
+	ref?: Ref<HTMLInputElement>;
+}
+
+// Form kütüphanelerinde alan hatası olarak kullanılan hata, react-hook-form'un FieldError yapısıyla uyumludur.
+export interface IDropzoneFieldError {
+	// İlk hatanın kodu (örneğin "file-too-large").
+	type: string;
+
+	// İlk hatanın mesajı.
+	message: string;
+
+	// Tüm hata kodları ve mesajları.
+	types: Record<string, string>;
+}
+
+// react-hook-form Controller sözleşmesine (value/onChange/onBlur/ref) uyan Dropzone alanı props'ları.
+export interface IDropzoneField extends Omit<IDropzone, "files" | "onChange" | "onBlur" | "ref"> {
+	// Alanın değeri, kabul edilen dosyalar.
+	value?: File[];
+
+	// Dosya listesi değiştiğinde yeni liste ile tetiklenir.
+	onChange: (files: File[]) => void;
+
+	// Odak container'dan çıktığında tetiklenir.
+	onBlur?: () => void;
+
+	// Reddedilen dosyaların alan hatası değiştiğinde tetiklenir, reddetme yoksa null ile çağrılır.
+	onFieldError?: (error: IDropzoneFieldError | null) => void;
+}
+
+// DropzoneGroup'un birleşik state'i.
+export interface IDropzoneGroupState {
+	// Tüm bölgelerin kabul edilmiş dosyaları, bölgelerin gruba katılma sırasıyla.
+	files: File[];
+
+	// Bölge kimliğinden o bölgenin kabul edilmiş dosyalarına eşleme.
+	zones: Record<string, File[]>;
+
+	// Tüm bölgelerdeki dosyaların toplam boyutu (byte).
+	totalSize: number;
+}
+
+// DropzoneGroup bileşeninin props'ları.
+export interface IDropzoneGroup {
+	// Tüm bölgelerde birlikte kabul edilebilecek en fazla dosya sayısı.
+	maxFiles?: number;
+
+	// Tüm bölgelerdeki dosyaların toplam boyutu üst sınırı (byte).
+	maxTotalSize?: number;
+
+	// Birleşik state değiştiğinde tetiklenir.
+	onChange?: (state: IDropzoneGroupState) => void;
+
+	// Gruba katılan Dropzone'ları içeren öğeler.
+	children?: ReactNode;
+}
+
+// Gruba katılan bölgenin diğer bölgelerin eriştiği aksiyonları.
+export interface IDropzoneGroupZone {
+	// Bölgenin güncel kabul edilmiş dosyalarını döner.
+	getFiles: () => File[];
+
+	// Dosyaları bölgeden siler (dosya başka bölgeye taşındığında).
+	removeFiles: (files: File[]) => void;
+}
+
+// DropzoneGroup context'inin değeri, bölgeler bu değer üzerinden gruba katılır.
+export interface IDropzoneGroupContext {
+	// Grup sınırları.
+	maxFiles?: number;
+	maxTotalSize?: number;
+
+	// Birleşik state.
+	state: IDropzoneGroupState;
+
+	// Bölgeyi gruba ekler, gruptan çıkaran fonksiyonu döner.
+	register: (zoneId: string, zone: IDropzoneGroupZone) => () => void;
+
+	// Bölgenin kabul edilmiş dosyalarını birleşik state'e işler.
+	setZoneFiles: (zoneId: string, files: File[]) => void;
+
+	// Diğer bölgelerin güncel kabul edilmiş dosyalarını döner, taşınmakta olan dosya hariç tutulur.
+	getOtherFiles: (zoneId: string) => File[];
+
+	// Başka bir bölgeden sürüklenen dosyayı döner, sürükleme yoksa veya dosya aynı bölgedense null döner.
+	getDraggedFile: (zoneId: string) => File | null;
+
+	// Bölgedeki dosyanın sürüklenmeye başladığını veya sürüklemenin bittiğini (null) bildirir.
+	setDraggedFile: (zoneId: string, file: File | null) => void;
+
+	// Sürüklenen dosyayı hedef bölgeye bırakır, dosya hedefte kabul edilene kadar taşınıyor olarak işaretlenir.
+	beginMove: (zoneId: string) => File | null;
+
+	// Hedef bölgede eklenen dosyalar arasında taşınan dosya varsa dosyayı kaynak bölgeden siler ve taşımayı bitirir.
+	completeMove: (zoneId: string, addedFiles: File[]) => void;
 }
@@ -1,15 +1,17 @@
 import { DropzoneErrorCode } from "@/Enums";
+import type { IDropzonePlugin } from "@/Interfaces";
 import { Dropzone } from "@/dropzone/Dropzone"; // Dosya yolunu projenize göre ayarlayın
 import { validator } from "@/validator/Validator";
 import { fireEvent, render, screen } from "@testing-library/react";
 import { act } from "react";
 import { vi } from "vitest";
 
-vi.mock("@/validator/Validator", () => ({
+vi.mock("@/validator/Validator", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/validator/Validator")>()),
 	validator: vi.fn(({ files, maxFiles }) => {
 		const errors = [];
 		if (maxFiles && files.length > maxFiles) {
-			errors.push({ code: DropzoneErrorCode.TooManyFiles, file: files[0] });
+			errors.push({ code: DropzoneErrorCode.TooManyFiles, file: files[0], error: [] });
 		}
 		return errors;
 	}),
@@ -44,6 +46,27 @@ describe("Dropzone Component", () => {
 		return { childrenMock };
 	};
 
+	// Eklentilerin renderProps ile eklediği değerler tipleriyle birlikte children'a iletilir
+	it("passes plugin render props to children", () => {
+		const counter: IDropzonePlugin<{ fileCount: number }> = {
+			name: "counter",
+			renderProps: ({ files }) => ({ fileCount: files.length }),
+		};
+
+		render(
+			<Dropzone plugins={[counter]} initialFiles={[createFile(4, "a.txt", "text/plain")]}>
+				{({ containerProps, inputProps, fileCount }) => (
+					<div {...containerProps}>
+						<input {...inputProps} />
+						<span data-testid="file-count">{fileCount.toFixed(0)}</span>
+					</div>
+				)}
+			</Dropzone>,
+		);
+
+		expect(screen.getByTestId("file-count")).toHaveTextContent("1");
+	});
+
 	// Bileşenin doğru render edildiğini kontrol eder
 	it("renders without crashing and calls children as a function", () => {
 		const { childrenMock } = setup({});
@@ -1,271 +1,225 @@
-import { DropzoneErrorCode } from "@/Enums";
-import type { IDropzone, IFileError, IFileRejection } from "@/Interfaces";
-import { validator } from "@/validator/Validator";
-import { type HTMLAttributes, type RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { IDropzone, IDropzonePlugin, IDropzoneRenderProps } from "@/Interfaces";
+import { useDropzone } from "@/dropzone/UseDropzone";
+import { type ForwardedRef, type ReactElement, forwardRef } from "react";
 
 /**
  * Dropzone bileşeni, dosya yükleme için çoklu veya tekli dosya yükleme özelliği sunan bir React bileşenidir.
  * Kullanıcıların sürükle ve bırak veya dosya seçme yoluyla dosya yüklemelerini sağlar.
+ * Tüm mantık useDropzone hook'unda bulunur, bileşen yalnızca render fonksiyonunu besler.
  *
  * @param {IDropzone} props - Dropzone bileşenine iletilen özellikler.
+ * @param {IValidationSchema} [props.schema] - Ayrı verilmeyen doğrulama kurallarının okunduğu kural şeması.
  * @param {(files: File[], rejections: IFileRejection[]) => void} props.onDrop - Geçerli ve geçersiz dosyaların döndürüldüğü callback.
  * @param {(rejections: IFileRejection[]) => void} [props.onDropRejected] - Geçersiz dosyalar için çalışan callback.
  * @param {(files: File[]) => void} [props.onDropAccepted] - Geçerli dosyalar için çalışan callback.
+ * @param {(error: unknown) => void} [props.onError] - Dosyalar işlenirken oluşan beklenmeyen hatalar için çalışan callback.
  * @param {boolean} [props.multiple=true] - Çoklu dosya yükleme seçeneği.
  * @param {File[]} [props.initialFiles] - İlk yüklenmiş dosyalar.
  * @param {string[]} [props.acceptedFormats] - Kabul edilen dosya formatları.
  * @param {number} [props.maxFiles] - Maksimum yüklenebilecek dosya sayısı.
+ * @param {IMaxFilesPolicy} [props.maxFilesPolicy="reject-all"] - Dosya sayısı sınırı aşıldığında uygulanan politika.
  * @param {number} [props.maxSize] - Dosya boyutu üst sınırı (byte cinsinden).
  * @param {number} [props.minSize] - Dosya boyutu alt sınırı (byte cinsinden).
- * @param {IFileError[]} [props.validationMessages] - Doğrulama mesajları.
- * @param {React.MouseEventHandler<HTMLInputElement>} [props.onClick] - Input elementine tıklanıldığında çalışan callback.
+ * @param {IFileTypeRules} [props.rules] - MIME kalıbı veya uzantı ile anahtarlanan dosya türü kuralları.
+ * @param {number} [props.maxTotalSize] - Dosyaların toplam boyutu üst sınırı (byte cinsinden).
+ * @param {IFileErrorMessage[]} [props.validationMessages] - Dil kataloğundaki mesajların yerine geçen doğrulama mesajları.
+ * @param {string} [props.locale="tr"] - Doğrulama mesajlarının dili.
+ * @param {boolean} [props.disabled] - Dosya eklemeyi, silmeyi, klavye ve sürükle-bırak etkileşimlerini devre dışı bırakır.
+ * @param {IFileValidator[]} [props.validators] - Yerleşik kontrollere ek olarak çalışan özel doğrulayıcılar.
+ * @param {number} [props.minWidth] - Görsel genişliği alt sınırı (piksel cinsinden).
+ * @param {number} [props.maxWidth] - Görsel genişliği üst sınırı (piksel cinsinden).
+ * @param {number} [props.minHeight] - Görsel yüksekliği alt sınırı (piksel cinsinden).
+ * @param {number} [props.maxHeight] - Görsel yüksekliği üst sınırı (piksel cinsinden).
+ * @param {number} [props.aspectRatio] - Görselin beklenen en-boy oranı.
+ * @param {number} [props.aspectRatioTolerance=0.01] - En-boy oranı için kabul edilen sapma.
+ * @param {number} [props.minDuration] - Medya süresi alt sınırı (saniye cinsinden).
+ * @param {number} [props.maxDuration] - Medya süresi üst sınırı (saniye cinsinden).
+ * @param {IMediaDecoders} [props.mediaDecoders] - Görsel ve medya çözücüleri.
+ * @param {boolean} [props.verifyContent] - Dosya içeriğini imza tablosuyla doğrular.
+ * @param {IUploadOptions} [props.upload] - Kabul edilen dosyaları yükleyen yükleme motoru seçenekleri.
+ * @param {boolean} [props.directory] - Dosya seçme penceresinde klasör seçimini etkinleştirir.
+ * @param {number} [props.maxDepth] - Bırakılan klasörlerde okunacak en fazla derinlik.
+ * @param {number} [props.maxEntries] - Bırakılan klasörlerde okunacak en fazla girdi sayısı.
+ * @param {boolean} [props.ignoreHiddenFiles=true] - Gizli ve sistem dosyalarını yok sayar.
+ * @param {IDuplicateStrategy} [props.duplicateStrategy="name"] - Tekrar eden dosyaların tespit edilme stratejisi.
+ * @param {File[]} [props.files] - Kontrollü modda dosya listesi.
+ * @param {(files: File[], meta: IFilesChangeMeta) => void} [props.onFilesChange] - Dosya listesi değiştiğinde tetiklenen callback.
+ * @param {string} [props.name] - Kabul edilen dosyaların FormData'ya eklendiği alan adı.
+ * @param {boolean} [props.required] - Form gönderilirken en az bir dosya seçilmesini zorunlu kılar.
+ * @param {boolean | IPreviewOptions} [props.previews] - Kabul edilen dosyalar için önizleme oluşturur.
+ * @param {IImageTransformOptions | IFileTransformer | (IImageTransformOptions | IFileTransformer)[]} [props.transform] - Dosyaları doğrulamadan önce dönüştürür.
+ * @param {string} [props.persistKey] - Kabul edilen dosyaların saklandığı taslağın anahtarı.
+ * @param {IPersistOptions} [props.persist] - Taslak saklama seçenekleri.
+ * @param {boolean | IArchiveOptions} [props.expandArchives] - Bırakılan ZIP arşivlerini açar ve içindeki dosyaları ekler.
+ * @param {IPasteTarget} [props.pasteTarget] - Yapıştırılan dosyaların dinlendiği hedef.
+ * @param {boolean} [props.fullPage] - Tüm sayfayı bırakma alanı yapar.
+ * @param {IDropzonePlugin[]} [props.plugins] - Bırakma akışına kancalanan eklentiler, renderProps ile children'a değer ekleyebilir.
+ * @param {string} [props.zoneId] - DropzoneGroup içinde bölgenin kimliği, varsayılan olarak name.
  * @param {Function} props.children - Render fonksiyonu.
+ * @param {ForwardedRef<HTMLInputElement>} ref - Input öğesine iletilen referans.
  * @returns {JSX.Element | null} Dropzone bileşeni.
  */
-export const Dropzone = ({
-	onDrop,
-	onDropRejected,
-	onDropAccepted,
-	multiple = true,
-	initialFiles,
-	acceptedFormats,
-	maxFiles,
-	maxSize,
-	minSize,
-	validationMessages,
-	onClick,
-	children,
-	...props
-}: IDropzone) => {
-	// İç hata mesajları state'i
-	const [internalValidationMessages, setInternalValidationMessages] = useState<IFileError[] | undefined>(validationMessages);
-	const [internalRejections, setInternalRejections] = useState<IFileRejection[]>([]);
-	const [isDragActive, setIsDragActive] = useState<boolean>(false);
-
-	// Yüklenmiş dosyalar state'i
-	const [files, setFiles] = useState<File[]>([]);
-
-	// input elementine referans
-	const inputRef = useRef<HTMLInputElement>(null);
-
-	// Varsayılan doğrulama mesajları
-	const defaultValidationMessages = useMemo(
-		() => [
-			{
-				code: DropzoneErrorCode.FileInvalidType,
-				message: `Geçersiz dosya türü. Sadece şu türler destekleniyor: ${acceptedFormats ? acceptedFormats.join(", ") : "*"}.`,
-			},
-			{ code: DropzoneErrorCode.FileTooLarge, message: "Dosya boyutu çok büyük." },
-			{ code: DropzoneErrorCode.FileTooSmall, message: "Dosya boyutu çok küçük." },
-			{
-				code: DropzoneErrorCode.TooManyFiles,
-				message: `Maksimum dosya sayısını aştınız. En fazla ${maxFiles} dosya yükleyebilirsiniz.`,
-			},
-		],
-		[acceptedFormats, maxFiles],
-	);
-
-	/**
-	 * Dosya bırakma veya dosya seçme işlemini yönetir.
-	 * @param {React.DragEvent<HTMLDivElement> | React.ChangeEvent<HTMLInputElement>} event - Olay nesnesi.
-	 */
-	const handleDrop = useCallback(
-		(event: React.DragEvent<HTMLDivElement> | React.ChangeEvent<HTMLInputElement>) => {
-			event.preventDefault();
-			const newFiles = "dataTransfer" in event ? Array.from(event.dataTransfer.files) : Array.from(event.target.files || []);
-			if (!newFiles.length) return;
-
-			// Benzersiz dosyaları filtreleme (dosya ismi ile karşılaştırmak)
-			const filesSet = new Set(files.map((file) => file.name));
-			const uniquedFiles = newFiles.filter((file) => !filesSet.has(file.name));
-
-			// multiple seçeneği kontrolü
-			if (multiple) {
-				setFiles((prev) => [...prev, ...uniquedFiles]);
-				return;
-			}
-			setFiles(uniquedFiles);
-		},
-		[files, multiple],
-	);
-
-	/**
-	 * Drag over olayını yönetir.
-	 * @param {React.DragEvent<HTMLDivElement>} event - Olay nesnesi.
-	 */
-	const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
-		event.preventDefault();
-	}, []);
-
-	/**
-	 * Drag işlemi başladığında veya bittiğinde tetiklenir.
-	 * @param {React.DragEvent<HTMLInputElement>} _e - Olay nesnesi.
-	 * @param {"enter" | "leave"} type - Drag durumu.
-	 */
-	const handleDrag = useCallback((type: "enter" | "leave") => {
-		setIsDragActive(type === "enter");
-	}, []);
-
-	/**
-	 * Bir dosyayı listeden siler.
-	 * @param {File[]} deletedFiles - Silinecek dosya listesi.
-	 */
-	const handleFileDelete = (deletedFiles: File[], notUpdateState?: boolean) => {
-		if (!inputRef.current) return;
-
-		// Silinecek dosyaların isimlerini bir Set'e ekliyoruz
-		const deletedFilesNames = new Set(deletedFiles.map((file) => file.name));
-
-		// Yeni dosya listesi oluşturuyoruz
-		const remainingFiles = files.filter((file) => !deletedFilesNames.has(file.name));
-
-		// State güncellemesi işlemi
-		if (!notUpdateState) {
-			setFiles((prev) => {
-				// Silinmeyen dosyaları filtrele
-				return prev.filter((file) => !deletedFilesNames.has(file.name));
-			});
-		}
-
-		addFileToInput(remainingFiles);
-
-		// "change" olayını yalnızca dosyalar silindikten sonra tetikleyin, tekrar tetiklememek için kontrol yapıyoruz
-		if (!notUpdateState) {
-			inputRef.current.dispatchEvent(new Event("change", { bubbles: true }));
-		}
-	};
-
-	// Tıklama olayından sonra dosya seçilmez ise tarayıcının seçili dosyaları input'dan silmesini engeller ve event dönderir.
-	const handleClick = (e: React.MouseEvent<HTMLInputElement>) => {
-		const checkMissingFiles = () => {
-			if (!inputRef.current?.files || inputRef.current.files.length > 0) return;
-
-			// Rejected dosyaları filtrele
-			const rejectionFileNames = new Set(internalRejections.map((rej) => rej.file.name));
-			const missingFiles = files.filter((file) => !rejectionFileNames.has(file.name));
-
-			addFileToInput(missingFiles);
-		};
-
-		// onfocus olayını bileşen içi kontrol ile kapsülle
-		const handleFocus = () => {
-			setTimeout(() => {
-				checkMissingFiles();
-				document.body.onfocus = null; // Olay dinleyicisini kaldır
-			}, 100);
-		};
-
-		document.body.onfocus = handleFocus;
-		onClick?.(e);
-	};
-
-	// Dosya formatlar ve inputa yükler
-	const addFileToInput = useCallback((files: File[]) => {
-		if (!inputRef.current) return;
-		const dataTransfer = new DataTransfer();
-		for (const file of files) {
-			dataTransfer.items.add(file);
-		}
-
-		inputRef.current.files = dataTransfer.files;
-	}, []);
-
-	// Container özellikleri
-	const containerProps: HTMLAttributes<HTMLDivElement> = {
-		className: "dropzone-container",
-		style: { position: "relative" },
-		onDragOver: handleDragOver,
-	};
-
-	// Input özellikleri
-	const inputProps: React.DetailedHTMLProps<React.InputHTMLAttributes<HTMLInputElement>, HTMLInputElement> & {
-		ref: RefObject<HTMLInputElement | null>;
-	} = {
-		className: "dropzone-input",
-		style: {
-			position: "absolute",
-			top: 0,
-			left: 0,
-			right: 0,
-			bottom: 0,
-			width: "100%",
-			height: "100%",
-			opacity: 0,
-			cursor: "pointer",
-		},
-		tabIndex: -1,
-		ref: inputRef,
-		accept: acceptedFormats ? acceptedFormats.join(", ") : undefined,
-		type: "file",
-		role: "textbox",
+const DropzoneComponent = <TPlugins extends IDropzonePlugin[] = []>(
+	{
+		schema,
+		onDrop,
+		onDropRejected,
+		onDropAccepted,
+		onError,
 		multiple,
-		onDragEnter: () => handleDrag("enter"),
-		onDragLeave: () => handleDrag("leave"),
-		onDrop: handleDrop,
-		onChange: handleDrop,
-		onClick: handleClick,
-		...props,
-	};
-
-	// Initial files setup
-	useEffect(() => {
-		if (initialFiles && initialFiles.length > 0 && inputRef.current) {
-			addFileToInput(initialFiles);
-			inputRef.current.dispatchEvent(new Event("change", { bubbles: true }));
-		}
-	}, [initialFiles]);
-
-	// Validation messages'lerin ayarlanması
-	useEffect(() => {
-		const formattedValidationMessages = validationMessages
-			? defaultValidationMessages.map((message) => validationMessages.find((msg) => msg.code === message.code) || message)
-			: defaultValidationMessages;
-
-		setInternalValidationMessages(formattedValidationMessages);
-	}, [validationMessages, defaultValidationMessages]);
-
-	// Dosya validasyon ve callback'ler
-	useEffect(() => {
-		if (!inputRef.current?.files) return;
-
-		const rejections = validator({
-			files,
-			maxFiles,
-			maxSize,
-			minSize,
-			messages: internalValidationMessages,
-			acceptedFormats,
-		});
-
-		// Geçerli dosyaları dışarıya iletme (geçersiz dosyaları hariç tutarak)
-		const validFiles = files.filter((file) => !rejections.some((rejection) => rejection.file.name === file.name));
-
-		// Geçersiz dosyaları silme
-		if (rejections.length > 0) {
-			setInternalRejections(rejections);
-			handleFileDelete(
-				rejections.map((rejection) => rejection.file),
-				true, // Not updating state yet
-			);
-		}
-		const inputFiles = Array.from(inputRef.current.files);
-
-		if (validFiles.length > 0 && validFiles.length !== inputFiles.length) {
-			const inputFileNames = new Set(inputFiles.map((file) => file.name));
-			const prevAddedFiles = validFiles.filter((file) => !inputFileNames.has(file.name));
-			if (prevAddedFiles.length > 0) {
-				const mergedValidFiles = [...prevAddedFiles, ...inputFiles];
-				addFileToInput(mergedValidFiles);
-			}
-		}
-
-		onDrop?.(validFiles, rejections);
-		onDropRejected?.(rejections);
-		onDropAccepted?.(validFiles);
-	}, [files, internalValidationMessages]);
+		initialFiles,
+		acceptedFormats,
+		maxFiles,
+		maxFilesPolicy,
+		maxSize,
+		minSize,
+		rules,
+		maxTotalSize,
+		validationMessages,
+		locale,
+		disabled,
+		validators,
+		minWidth,
+		maxWidth,
+		minHeight,
+		maxHeight,
+		aspectRatio,
+		aspectRatioTolerance,
+		minDuration,
+		maxDuration,
+		mediaDecoders,
+		verifyContent,
+		upload: uploadOptions,
+		directory,
+		maxDepth,
+		maxEntries,
+		ignoreHiddenFiles,
+		duplicateStrategy,
+		files,
+		onFilesChange,
+		name,
+		required,
+		previews: previewOptions,
+		transform,
+		persistKey,
+		persist,
+		expandArchives,
+		pasteTarget,
+		fullPage,
+		plugins,
+		zoneId,
+		children,
+		...props
+	}: Omit<IDropzone<TPlugins>, "ref">,
+	ref: ForwardedRef<HTMLInputElement>,
+) => {
+	const {
+		getRootProps,
+		getInputProps,
+		getDescriptionProps,
+		getLiveRegionProps,
+		isDragActive,
+		isDragAccept,
+		isDragReject,
+		draggedItems,
+		isOverlayVisible,
+		isValidating,
+		removeFiles,
+		moveFile,
+		reorder,
+		replaceFile,
+		getKey,
+		getSortableItemProps,
+		getFileDragProps,
+		clearDraft,
+		pluginProps,
+		upload,
+		previews,
+	} = useDropzone({
+		schema,
+		onDrop,
+		onDropRejected,
+		onDropAccepted,
+		onError,
+		multiple,
+		initialFiles,
+		acceptedFormats,
+		maxFiles,
+		maxFilesPolicy,
+		maxSize,
+		minSize,
+		rules,
+		maxTotalSize,
+		validationMessages,
+		locale,
+		disabled,
+		validators,
+		minWidth,
+		maxWidth,
+		minHeight,
+		maxHeight,
+		aspectRatio,
+		aspectRatioTolerance,
+		minDuration,
+		maxDuration,
+		mediaDecoders,
+		verifyContent,
+		upload: uploadOptions,
+		directory,
+		maxDepth,
+		maxEntries,
+		ignoreHiddenFiles,
+		duplicateStrategy,
+		files,
+		onFilesChange,
+		name,
+		required,
+		previews: previewOptions,
+		transform,
+		persistKey,
+		persist,
+		expandArchives,
+		pasteTarget,
+		fullPage,
+		plugins,
+		zoneId,
+	});
 
 	// Eğer children bir fonksiyon değilse render etmiyoruz
 	if (typeof children !== "function") return null;
 
-	return <div data-testid="dropzone">{children({ containerProps, inputProps, handleFileDelete, isDragActive })}</div>;
+	// Eklentilerin değerleri yerleşik değerlerin üzerine yazamaz
+	const renderProps: IDropzoneRenderProps = {
+		containerProps: getRootProps(),
+		inputProps: getInputProps({ ...props, ref }),
+		descriptionProps: getDescriptionProps(),
+		handleFileDelete: removeFiles,
+		moveFile,
+		reorder,
+		replaceFile,
+		getKey,
+		getSortableItemProps,
+		getFileDragProps,
+		clearDraft,
+		isDragActive,
+		isDragAccept,
+		isDragReject,
+		draggedItems,
+		isOverlayVisible,
+		isValidating,
+		upload,
+		previews,
+	};
+
+	return (
+		<div data-testid="dropzone">
+			{children(Object.assign({}, pluginProps, renderProps))}
+			<div {...getLiveRegionProps()} />
+		</div>
+	);
 };
+
+// ref, React 17 ve 18'de prop olarak iletilmediği için forwardRef ile input öğesine bağlanır, eklenti türleri cast ile korunur
+export const Dropzone = forwardRef(DropzoneComponent) as <TPlugins extends IDropzonePlugin[] = []>(
+	props: IDropzone<TPlugins>,
+) => ReactElement | null;
@@ -0,0 +1,105 @@
+import type { IDropzoneFieldError } from "@/Interfaces";
+import { DropzoneField } from "@/dropzone/DropzoneField";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { createRef, useState } from "react";
+import { vi } from "vitest";
+
+// Belirtilen boyut ve adda sahte bir dosya oluşturur
+const createFile = (size: number, name: string) => new File([new Array(size).fill("a").join("")], name, { type: "text/plain" });
+
+describe("DropzoneField", () => {
+	/**
+	 * Controller'ın field nesnesini taklit eden test bileşeni
+	 */
+	const setup = () => {
+		const field = { onBlur: vi.fn(), ref: vi.fn(), onFieldError: vi.fn<(error: IDropzoneFieldError | null) => void>() };
+		const values: File[][] = [];
+
+		const Field = () => {
+			const [value, setValue] = useState<File[]>([]);
+			values.push(value);
+			return (
+				<DropzoneField name="documents" maxSize={5} value={value} onChange={setValue} {...field}>
+					{({ containerProps, inputProps }) => (
+						<div {...containerProps} data-testid="root">
+							<input {...inputProps} data-testid="input" />
+							<button type="button">Kaldır</button>
+						</div>
+					)}
+				</DropzoneField>
+			);
+		};
+
+		render(<Field />);
+		return { field, values, input: screen.getByTestId("input"), root: screen.getByTestId("root") };
+	};
+
+	/**
+	 * Değer onChange ile güncellenir, ref ve onBlur odaklanabilen container'a bağlanır.
+	 */
+	it("should follow the controller contract", () => {
+		const { field, values, input, root } = setup();
+
+		const file = createFile(4, "file.txt");
+		fireEvent.change(input, { target: { files: [file] } });
+
+		expect(values.at(-1)).toEqual([file]);
+		expect(field.ref).toHaveBeenCalledWith(root);
+		expect(field.onFieldError).toHaveBeenLastCalledWith(null);
+
+		// Odak container'ın içindeki butona geçtiğinde alan dokunulmuş sayılmaz
+		fireEvent.blur(root, { relatedTarget: screen.getByText("Kaldır") });
+		expect(field.onBlur).not.toHaveBeenCalled();
+
+		fireEvent.blur(root, { relatedTarget: document.body });
+		expect(field.onBlur).toHaveBeenCalledTimes(1);
+	});
+
+	/**
+	 * Reddedilen dosyalar alan hatasına dönüştürülür.
+	 */
+	it("should map rejections to field errors", () => {
+		const { field, input } = setup();
+
+		fireEvent.change(input, { target: { files: [createFile(10, "large.txt")] } });
+
+		expect(field.onFieldError).toHaveBeenLastCalledWith({
+			type: "file-too-large",
+			message: "Dosya boyutu çok büyük.",
+			types: { "file-too-large": "Dosya boyutu çok büyük." },
+		});
+	});
+
+	/**
+	 * Değer verilmediğinde render'lar arasında aynı boş liste kullanılır ve ref forwardRef ile container'a bağlanır.
+	 */
+	it("should keep an empty value stable across renders", () => {
+		const seen: File[][] = [];
+		const plugin = {
+			name: "spy",
+			renderProps: ({ files }: { files: File[] }) => {
+				seen.push(files);
+				return {};
+			},
+		};
+		const ref = createRef<HTMLElement>();
+		const onChange = vi.fn();
+
+		const Field = () => (
+			<DropzoneField ref={ref} onChange={onChange} plugins={[plugin]}>
+				{({ containerProps, inputProps }) => (
+					<div {...containerProps} data-testid="root">
+						<input {...inputProps} />
+					</div>
+				)}
+			</DropzoneField>
+		);
+		const { rerender } = render(<Field />);
+		rerender(<Field />);
+
+		expect(seen.length).toBeGreaterThan(1);
+		expect(new Set(seen).size).toBe(1);
+		expect(ref.current).toBe(screen.getByTestId("root"));
+		expect(onChange).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,78 @@
+import type { IDropzoneField, IDropzoneFieldError, IDropzoneRootProps, IFileRejection } from "@/Interfaces";
+import { Dropzone } from "@/dropzone/Dropzone";
+import { composeHandlers } from "@/utils/ComposeHandlers";
+import { type FocusEvent, forwardRef } from "react";
+
+// Değer verilmediğinde kullanılan boş liste, her render'da yeni dizi oluşup kontrollü liste değişmiş sayılmasın diye sabittir
+const EMPTY_FILES: File[] = [];
+
+/**
+ * Reddedilen dosyaların hatalarını form kütüphanelerinin alan hatası yapısına dönüştürür.
+ * İlk hata type ve message olarak, tüm hatalar kodlarıyla types içinde döner.
+ *
+ * @param {IFileRejection[]} rejections - Reddedilen dosyalar.
+ * @returns {IDropzoneFieldError | null} Alan hatası veya reddetme yoksa null.
+ */
+export const getFieldError = (rejections: IFileRejection[]): IDropzoneFieldError | null => {
+	const errors = rejections.flatMap((rejection) => rejection.error);
+	if (!errors.length) return null;
+
+	return {
+		type: errors[0].code,
+		message: errors[0].message,
+		types: Object.fromEntries(errors.map((error) => [error.code, error.message])),
+	};
+};
+
+/**
+ * react-hook-form'un Controller sözleşmesine (value/onChange/onBlur/ref) uyan Dropzone adaptörü.
+ * Dosya listesi value ile kontrol edilir, reddedilen dosyalar onFieldError ile alan hatasına dönüştürülür.
+ * Input gizli ve odaklanamaz olduğu için onBlur ve ref odaklanabilen container'a bağlanır,
+ * onBlur odak container'ın içindeki öğeler arasında gezerken değil container'dan çıktığında tetiklenir.
+ *
+ * @example
+ * <Controller
+ *   name="documents"
+ *   control={control}
+ *   render={({ field }) => (
+ *     <DropzoneField {...field} onFieldError={(error) => (error ? setError(field.name, error) : clearErrors(field.name))}>
+ *       {({ containerProps, inputProps }) => <div {...containerProps}><input {...inputProps} /></div>}
+ *     </DropzoneField>
+ *   )}
+ * />
+ *
+ * @param {IDropzoneField} props - Dropzone props'ları ve alan sözleşmesi.
+ * @param {ForwardedRef<HTMLElement>} ref - Controller'ın container öğesine bağladığı referans, hata durumunda container'a odaklanılır.
+ * @returns {JSX.Element | null} Kontrollü Dropzone bileşeni.
+ */
+export const DropzoneField = forwardRef<HTMLElement, IDropzoneField>(
+	({ value, onChange, onBlur, onFieldError, onFilesChange, children, ...props }, ref) => {
+		// Odak container'ın dışına çıktığında alan dokunulmuş sayılır
+		const handleBlur = (event: FocusEvent<HTMLElement>) => {
+			if (!event.currentTarget.contains(event.relatedTarget as Node | null)) onBlur?.();
+		};
+
+		return (
+			<Dropzone
+				{...props}
+				files={value ?? EMPTY_FILES}
+				onFilesChange={(files, meta) => {
+					onChange(files);
+					onFieldError?.(getFieldError(meta.rejections));
+					onFilesChange?.(files, meta);
+				}}
+			>
+				{(renderProps) =>
+					children({
+						...renderProps,
+						containerProps: {
+							...renderProps.containerProps,
+							ref,
+							onBlur: composeHandlers(handleBlur, renderProps.containerProps.onBlur),
+						} as IDropzoneRootProps,
+					})
+				}
+			</Dropzone>
+		);
+	},
+);
@@ -0,0 +1,963 @@
+import type { IDraft, IDropzonePlugin, IUseDropzoneOptions } from "@/Interfaces";
+import { useDropzone } from "@/dropzone/UseDropzone";
+import { createMemoryDraftStorage } from "@/persist/DraftStorage";
+import { getOriginalFile } from "@/transform/TransformFiles";
+import { getRelativePath } from "@/utils/CollectFiles";
+import { act, cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { StrictMode } from "react";
+import { vi } from "vitest";
+
+// Belirtilen boyut, ad ve türde sahte bir dosya oluşturur
+const createFile = (size: number, name: string, type: string) => new File([new Array(size).fill("a").join("")], name, { type });
+
+describe("useDropzone", () => {
+	// Hook'u kendi bileşenine bağlayan test bileşeni
+	const setup = (options: IUseDropzoneOptions = {}, rootProps = {}, inputProps = {}) => {
+		const result: { current: ReturnType<typeof useDropzone> | null } = { current: null };
+
+		const TestComponent = () => {
+			result.current = useDropzone(options);
+			return (
+				<section {...result.current.getRootProps({ "data-testid": "root", ...rootProps } as object)}>
+					<input {...result.current.getInputProps({ "data-testid": "input", ...inputProps } as object)} />
+				</section>
+			);
+		};
+
+		render(<TestComponent />);
+
+		return { result: result as { current: ReturnType<typeof useDropzone> }, input: screen.getByTestId("input") };
+	};
+
+	// Hook herhangi bir sarmalayıcı öğe eklemeden render edilir
+	it("renders without a wrapper element", () => {
+		setup();
+
+		expect(screen.getByTestId("root").parentElement?.tagName).toBe("DIV");
+		expect(screen.queryByTestId("dropzone")).not.toBeInTheDocument();
+	});
+
+	// Kullanıcı işleyicileri dahili işleyicilerle birleştirilir
+	it("merges user handlers with internal handlers", () => {
+		const onChange = vi.fn();
+		const onDragOver = vi.fn();
+		const onDrop = vi.fn();
+		const { result, input } = setup({ onDrop }, { onDragOver }, { onChange });
+
+		const file = createFile(4, "example.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [file] } });
+		fireEvent.dragOver(screen.getByTestId("root"));
+
+		expect(onChange).toHaveBeenCalled();
+		expect(onDragOver).toHaveBeenCalled();
+		expect(onDrop).toHaveBeenCalledWith([file], []);
+		expect(result.current.files).toEqual([file]);
+	});
+
+	// Dosyalar container'a bırakılır, container'a tıklamak dosya seçme penceresini açar ancak içteki butonlar açmaz
+	it("handles drops and clicks on the root element", () => {
+		const onRemove = vi.fn();
+		const ClickComponent = () => {
+			const { getRootProps, getInputProps, files } = useDropzone();
+			return (
+				<section {...getRootProps({ "data-testid": "root" } as object)}>
+					<input {...getInputProps({ "data-testid": "input" } as object)} />
+					<span data-testid="hint">{files.length} dosya</span>
+					<button type="button" onClick={onRemove}>
+						Kaldır
+					</button>
+				</section>
+			);
+		};
+		render(<ClickComponent />);
+		const input = screen.getByTestId("input") as HTMLInputElement;
+		const inputClick = vi.spyOn(input, "click");
+
+		expect(input.style.opacity).toBe("");
+		expect(input.style.width).toBe("1px");
+
+		fireEvent.drop(screen.getByTestId("root"), { dataTransfer: { files: [createFile(4, "a.txt", "text/plain")] } });
+		expect(screen.getByTestId("hint")).toHaveTextContent("1 dosya");
+
+		fireEvent.click(screen.getByRole("button", { name: "Kaldır" }));
+		expect(onRemove).toHaveBeenCalled();
+		expect(inputClick).not.toHaveBeenCalled();
+
+		fireEvent.click(screen.getByTestId("hint"));
+		expect(inputClick).toHaveBeenCalledTimes(1);
+	});
+
+	// Doğrulamadan geçemeyen dosyalar reddedilenler listesinde tutulur
+	it("exposes rejections and keeps only accepted files", () => {
+		const { result, input } = setup({ maxSize: 5 });
+
+		const small = createFile(4, "small.txt", "text/plain");
+		const large = createFile(10, "large.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [small, large] } });
+
+		expect(result.current.files).toEqual([small]);
+		expect(result.current.fileRejections).toHaveLength(1);
+		expect(result.current.fileRejections[0].file).toBe(large);
+		expect(result.current.fileRejections[0].error[0].code).toBe("file-too-large");
+	});
+
+	// Toplam boyut kabul edilmiş dosyalar ile yeni eklenen dosyalar üzerinden hesaplanır
+	it("limits the total size of accepted and new files", () => {
+		const { result, input } = setup({ maxTotalSize: 10, rules: { "text/": { maxFiles: 3 } } });
+
+		const first = createFile(6, "a.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [first] } });
+		const small = createFile(4, "b.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [createFile(5, "c.txt", "text/plain"), small] } });
+
+		expect(result.current.files).toEqual([first, small]);
+		expect(result.current.fileRejections.map(({ file, error }) => [file.name, error[0].code])).toEqual([
+			["c.txt", "total-size-too-large"],
+		]);
+	});
+
+	// Kural şeması doğrulamaya uygulanır, ayrı verilen prop'lar şemadaki değerin yerine geçer
+	it("applies the rule schema and lets explicit props override it", () => {
+		const { result, input } = setup({ schema: { acceptedFormats: ["text/"], maxSize: 4 }, maxSize: 6 });
+
+		const valid = createFile(6, "a.txt", "text/plain");
+		fireEvent.change(input, {
+			target: { files: [valid, createFile(7, "b.txt", "text/plain"), createFile(1, "c.png", "image/png")] },
+		});
+
+		expect(result.current.files).toEqual([valid]);
+		expect(result.current.fileRejections.map(({ file, error }) => [file.name, error[0].code])).toEqual([
+			["b.txt", "file-too-large"],
+			["c.png", "file-invalid-type"],
+		]);
+	});
+
+	// Dosya sayısı sınırı aşıldığında kabul edilmiş dosyalar korunur veya en eskiler çıkarılır
+	it("applies the max files policy", () => {
+		const [a, b, c] = ["a.txt", "b.txt", "c.txt"].map((name) => createFile(4, name, "text/plain"));
+		const onFilesChange = vi.fn();
+
+		const acceptFirst = setup({ maxFiles: 2, maxFilesPolicy: "accept-first" });
+		fireEvent.change(acceptFirst.input, { target: { files: [a] } });
+		fireEvent.change(acceptFirst.input, { target: { files: [b, c] } });
+		expect(acceptFirst.result.current.files).toEqual([a, b]);
+		expect(acceptFirst.result.current.fileRejections.map(({ file, error, index }) => [file, error[0].code, index])).toEqual([
+			[c, "too-many-files", 1],
+		]);
+
+		cleanup();
+		const replaceOldest = setup({ maxFiles: 2, maxFilesPolicy: "replace-oldest", onFilesChange });
+		fireEvent.change(replaceOldest.input, { target: { files: [a, b] } });
+		fireEvent.change(replaceOldest.input, { target: { files: [c] } });
+		expect(replaceOldest.result.current.files).toEqual([b, c]);
+		expect(replaceOldest.result.current.fileRejections).toEqual([]);
+		expect(onFilesChange).toHaveBeenLastCalledWith([b, c], {
+			type: "added",
+			files: [c],
+			rejections: [],
+			warnings: [],
+			replaced: [a],
+		});
+	});
+
+	// Tekli modda geçerli dosya mevcut dosyanın yerini alır, geçersiz dosya mevcut dosyayı silmez
+	it("replaces the file on drop in single file mode", () => {
+		const { result, input } = setup({ multiple: false, maxSize: 5 });
+		const first = createFile(4, "a.txt", "text/plain");
+		const second = createFile(3, "b.txt", "text/plain");
+
+		fireEvent.change(input, { target: { files: [first] } });
+		fireEvent.change(input, { target: { files: [createFile(10, "large.txt", "text/plain")] } });
+		expect(result.current.files).toEqual([first]);
+		expect(result.current.fileRejections[0].error[0].code).toBe("file-too-large");
+
+		fireEvent.change(input, { target: { files: [second] } });
+		expect(result.current.files).toEqual([second]);
+		expect(result.current.fileRejections).toEqual([]);
+	});
+
+	// Dosyalar taşınabilir, anahtar sırasına göre sıralanabilir ve yerinde değiştirilebilir, input yeni sırayı yansıtır
+	it("reorders and replaces files", () => {
+		const onFilesChange = vi.fn();
+		const { result, input } = setup({ maxSize: 5, onFilesChange });
+		const [a, b, c] = ["a.txt", "b.txt", "c.txt"].map((name) => createFile(4, name, "text/plain"));
+		fireEvent.change(input, { target: { files: [a, b, c] } });
+
+		act(() => result.current.moveFile(2, 0));
+		expect(result.current.files).toEqual([c, a, b]);
+		expect(Array.from((input as HTMLInputElement).files ?? [])).toEqual([c, a, b]);
+		expect(result.current.announcement).toBe("c.txt dosyası 1. sıraya taşındı, toplam 3 dosya.");
+		expect(onFilesChange).toHaveBeenLastCalledWith([c, a, b], { type: "reordered", files: [c], rejections: [], warnings: [] });
+
+		act(() => result.current.reorder([result.current.getKey(b), "unknown"]));
+		expect(result.current.files).toEqual([b, c, a]);
+
+		const large = createFile(10, "large.txt", "text/plain");
+		act(() => result.current.replaceFile(c, large));
+		expect(result.current.files).toEqual([b, c, a]);
+		expect(result.current.fileRejections[0].file).toBe(large);
+
+		const cover = createFile(3, "cover.txt", "text/plain");
+		act(() => result.current.replaceFile(c, cover));
+		expect(result.current.files).toEqual([b, cover, a]);
+		expect(onFilesChange).toHaveBeenLastCalledWith([b, cover, a], {
+			type: "added",
+			files: [cover],
+			rejections: [],
+			warnings: [],
+			replaced: [c],
+		});
+	});
+
+	// Kabul edilen dosyalar taslak olarak saklanır ve yeniden yüklemede geri yüklenir
+	it("persists accepted files as a draft", async () => {
+		const storage = createMemoryDraftStorage();
+		const options: IUseDropzoneOptions = { persistKey: "form", persist: { storage }, maxSize: 5 };
+
+		const first = setup(options);
+		await waitFor(() => expect(storage.getItem("form")).toBeNull());
+		fireEvent.change(first.input, { target: { files: [createFile(4, "a.txt", "text/plain")] } });
+		await waitFor(() => expect((storage.getItem("form") as IDraft).files.map((file) => file.name)).toEqual(["a.txt"]));
+
+		cleanup();
+		const second = setup(options);
+		await waitFor(() => expect(second.result.current.files.map((file) => file.name)).toEqual(["a.txt"]));
+
+		await act(() => second.result.current.clearDraft());
+		expect(storage.getItem("form")).toBeNull();
+	});
+
+	// Geri yüklenen dosyalar asenkron doğrulamadayken taslak silinmez
+	it("keeps the draft while restored files are validated", async () => {
+		const storage = createMemoryDraftStorage();
+		const removeItem = vi.spyOn(storage, "removeItem");
+		const first = setup({ persistKey: "form", persist: { storage } });
+		fireEvent.change(first.input, { target: { files: [createFile(4, "a.txt", "text/plain")] } });
+		await waitFor(() => expect(storage.getItem("form")).not.toBeNull());
+		cleanup();
+
+		let release: (value: null) => void = () => undefined;
+		const pending = new Promise<null>((resolve) => {
+			release = resolve;
+		});
+		const second = setup({ persistKey: "form", persist: { storage }, validators: [() => pending] });
+		await waitFor(() => expect(second.result.current.isValidating).toBe(true));
+
+		expect(removeItem).not.toHaveBeenCalled();
+		expect(storage.getItem("form")).not.toBeNull();
+
+		release(null);
+		await waitFor(() => expect(second.result.current.files.map((file) => file.name)).toEqual(["a.txt"]));
+		expect(removeItem).not.toHaveBeenCalled();
+		expect((storage.getItem("form") as IDraft).files.map((file) => file.name)).toEqual(["a.txt"]);
+	});
+
+	// Türe özel sayı sınırı dolduğunda yalnızca yeni dosya reddedilir, kabul edilmiş dosyalar listede kalır
+	it("rejects only the new file when a per-type limit is full", () => {
+		const { result, input } = setup({ rules: { "video/": { maxFiles: 2 } } });
+
+		const first = createFile(4, "a.mp4", "video/mp4");
+		const second = createFile(4, "b.mp4", "video/mp4");
+		const third = createFile(4, "c.mp4", "video/mp4");
+		fireEvent.change(input, { target: { files: [first, second] } });
+		fireEvent.change(input, { target: { files: [third] } });
+
+		expect(result.current.files).toEqual([first, second]);
+		expect(result.current.fileRejections.map(({ file, error }) => [file, error[0].code])).toEqual([
+			[third, "too-many-files-of-type"],
+		]);
+	});
+
+	// removeFiles ve clear aksiyonları listeyi günceller
+	it("removes and clears files", () => {
+		const { result, input } = setup();
+
+		const file1 = createFile(4, "file1.txt", "text/plain");
+		const file2 = createFile(4, "file2.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [file1, file2] } });
+
+		act(() => result.current.removeFiles([file1]));
+		expect(result.current.files).toEqual([file2]);
+		expect((input as HTMLInputElement).files).toHaveLength(1);
+
+		act(() => result.current.clear());
+		expect(result.current.files).toEqual([]);
+		expect((input as HTMLInputElement).files).toHaveLength(0);
+	});
+
+	// open aksiyonu dosya seçme penceresini açmak için input'a tıklar
+	it("opens the file picker", () => {
+		const onClick = vi.fn();
+		const { result } = setup({}, {}, { onClick });
+
+		act(() => result.current.open());
+
+		expect(onClick).toHaveBeenCalled();
+	});
+
+	// Asenkron doğrulayıcı sonuçları yerleşik reddetmelerle birleştirilir ve doğrulama durumu yansıtılır
+	it("merges async validator results and exposes the validating state", async () => {
+		const uploadedError = { code: "already-uploaded", message: "Dosya daha önce yüklendi" };
+		const { result, input } = setup({
+			validators: [async (file) => (file.name === "uploaded.txt" ? uploadedError : null)],
+		});
+
+		const fresh = createFile(4, "fresh.txt", "text/plain");
+		const uploaded = createFile(4, "uploaded.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [fresh, uploaded] } });
+
+		expect(result.current.isValidating).toBe(true);
+		await waitFor(() => expect(result.current.isValidating).toBe(false));
+
+		expect(result.current.files).toEqual([fresh]);
+		expect(result.current.fileRejections).toEqual([{ file: uploaded, error: [uploadedError], index: 1 }]);
+	});
+
+	// Başarısız olan doğrulayıcılar dosyayı reddeder, asenkron kancaların hataları onError ile bildirilir
+	it("turns validator failures into rejections and reports hook errors", async () => {
+		const onError = vi.fn();
+		const failure = new Error("network");
+		const { result, input } = setup({
+			onError,
+			validators: [async (file) => (file.name === "offline.txt" ? Promise.reject(failure) : null)],
+		});
+
+		const online = createFile(4, "online.txt", "text/plain");
+		const offline = createFile(4, "offline.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [online, offline] } });
+		await waitFor(() => expect(result.current.isValidating).toBe(false));
+
+		expect(result.current.files).toEqual([online]);
+		expect(result.current.fileRejections).toEqual([
+			{
+				file: offline,
+				error: [{ code: "file-validation-failed", message: "offline.txt dosyası doğrulanamadı. Lütfen tekrar deneyin." }],
+				index: 1,
+			},
+		]);
+		expect(onError).not.toHaveBeenCalled();
+
+		cleanup();
+		const plugin: IDropzonePlugin = { name: "failing", afterValidate: async () => Promise.reject(failure) };
+		const failing = setup({ onError, plugins: [plugin] });
+		fireEvent.change(failing.input, { target: { files: [online] } });
+		await waitFor(() => expect(onError).toHaveBeenCalledWith(failure));
+
+		expect(failing.result.current.isValidating).toBe(false);
+		expect(failing.result.current.files).toEqual([]);
+	});
+
+	// Başarısız dönüştürücüler bildirilir ve dosya önceki haliyle eklenir, beforeValidate kancası başarısız olursa dosya eklenmez
+	it("reports failures while preparing dropped files", async () => {
+		const onError = vi.fn();
+		const failure = new Error("decode failed");
+		const rejection = new Error("resize failed");
+		const file = createFile(4, "photo.png", "image/png");
+
+		const transformer = setup({
+			onError,
+			transform: [
+				() => {
+					throw failure;
+				},
+				() => Promise.reject(rejection),
+			],
+		});
+		fireEvent.change(transformer.input, { target: { files: [file] } });
+		expect(transformer.result.current.isValidating).toBe(true);
+		await waitFor(() => expect(transformer.result.current.files).toEqual([file]));
+		expect(onError.mock.calls).toEqual([[failure], [rejection]]);
+		expect(transformer.result.current.isValidating).toBe(false);
+
+		cleanup();
+		const plugin: IDropzonePlugin = { name: "failing", beforeValidate: async () => Promise.reject(failure) };
+		const hook = setup({ onError, plugins: [plugin] });
+		fireEvent.change(hook.input, { target: { files: [file] } });
+		await waitFor(() => expect(onError).toHaveBeenCalledTimes(3));
+		expect(hook.result.current.isValidating).toBe(false);
+		expect(hook.result.current.files).toEqual([]);
+	});
+
+	// Senkron hata fırlatan beforeValidate ve afterValidate kancaları olay işleyicisinden kaçmaz, onError ile bildirilir
+	it("reports plugin hooks that throw synchronously", async () => {
+		const onError = vi.fn();
+		const failure = new Error("hook failed");
+		const file = createFile(4, "a.txt", "text/plain");
+		const throwing = () => {
+			throw failure;
+		};
+
+		const before = setup({ onError, plugins: [{ name: "before", beforeValidate: throwing }] });
+		expect(() => fireEvent.change(before.input, { target: { files: [file] } })).not.toThrow();
+		await waitFor(() => expect(onError).toHaveBeenCalledWith(failure));
+		expect(before.result.current.files).toEqual([]);
+		expect(before.result.current.isValidating).toBe(false);
+
+		cleanup();
+		const after = setup({ onError, plugins: [{ name: "after", afterValidate: throwing }] });
+		expect(() => fireEvent.change(after.input, { target: { files: [file] } })).not.toThrow();
+		await waitFor(() => expect(onError).toHaveBeenCalledTimes(2));
+		expect(after.result.current.files).toEqual([]);
+		await waitFor(() => expect(after.result.current.isValidating).toBe(false));
+	});
+
+	// Uyarı önemindeki hatalar dosyayı reddetmez, kabul edilen dosyayla birlikte bildirilir
+	it("reports warnings without rejecting files", async () => {
+		const lowResolution = { code: "low-resolution", message: "Düşük çözünürlük", severity: "warning" as const };
+		const { result, input } = setup({
+			maxSize: 5,
+			validators: [async (file) => (file.name.startsWith("small") ? lowResolution : null)],
+		});
+
+		const small = createFile(4, "small.png", "image/png");
+		const large = createFile(10, "small-large.png", "image/png");
+		fireEvent.change(input, { target: { files: [large, small] } });
+		await waitFor(() => expect(result.current.files).toEqual([small]));
+
+		expect(result.current.fileWarnings).toEqual([{ file: small, error: [lowResolution], index: 1 }]);
+		expect(result.current.fileRejections).toEqual([
+			{
+				file: large,
+				error: [
+					{ code: "file-too-large", message: "Dosya boyutu çok büyük.", details: { limit: 5, actual: 10, unit: "bytes" } },
+					lowResolution,
+				],
+				index: 0,
+			},
+		]);
+
+		fireEvent.change(input, { target: { files: [createFile(4, "other.png", "image/png")] } });
+		await waitFor(() => expect(result.current.files).toHaveLength(2));
+		expect(result.current.fileWarnings.map((warning) => warning.file)).toEqual([small]);
+
+		act(() => result.current.removeFiles([small]));
+		expect(result.current.fileWarnings).toEqual([]);
+	});
+
+	// Dosya listesi değiştiğinde bayat doğrulama sonuçları iptal edilir
+	it("cancels stale async validation when the file list changes", async () => {
+		const signals: AbortSignal[] = [];
+		const resolvers: (() => void)[] = [];
+		const { result, input } = setup({
+			validators: [
+				(_file, { signal }) => {
+					signals.push(signal);
+					return new Promise((resolve) => resolvers.push(() => resolve(null)));
+				},
+			],
+		});
+
+		const file1 = createFile(4, "file1.txt", "text/plain");
+		const file2 = createFile(4, "file2.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [file1] } });
+		fireEvent.change(input, { target: { files: [file2] } });
+
+		expect(signals[0].aborted).toBe(true);
+		await act(async () => {
+			for (const resolve of resolvers) resolve();
+		});
+
+		expect(result.current.isValidating).toBe(false);
+		expect(result.current.files).toEqual([file1, file2]);
+
+		fireEvent.change(input, { target: { files: [createFile(4, "file3.txt", "text/plain")] } });
+		act(() => result.current.clear());
+		await act(async () => resolvers.at(-1)?.());
+
+		expect(signals.at(-1)?.aborted).toBe(true);
+		expect(result.current.files).toEqual([]);
+	});
+
+	// Kabul edilen dosyalar yüklenir, silinen dosyaların yüklemesi kuyruktan kaldırılır
+	it("uploads accepted files and exposes the upload state", async () => {
+		const request = vi.fn(async (_file: File, { onProgress }: { onProgress: (loaded: number, total: number) => void }) => {
+			onProgress(5, 10);
+			return "ok";
+		});
+		const { result, input } = setup({ maxSize: 5, upload: { request } });
+
+		const accepted = createFile(4, "accepted.txt", "text/plain");
+		const rejected = createFile(10, "rejected.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [accepted, rejected] } });
+
+		await waitFor(() =>
+			expect(result.current.upload.items).toMatchObject([{ file: accepted, status: "success", response: "ok" }]),
+		);
+		expect(request).toHaveBeenCalledTimes(1);
+		expect(result.current.upload.isUploading).toBe(false);
+
+		act(() => result.current.removeFiles([accepted]));
+		expect(result.current.upload.items).toEqual([]);
+	});
+
+	// Yükleme ayarları değiştiğinde kuyruk korunur, StrictMode'da kontrollü dosyalar iptal edilmeden yüklenir
+	it("keeps the upload queue across option changes and StrictMode remounts", async () => {
+		const request = vi.fn(async () => "ok");
+		const file = createFile(4, "a.txt", "text/plain");
+		const files = [file];
+		const result: { current: ReturnType<typeof useDropzone> | null } = { current: null };
+
+		const UploadComponent = ({ retries }: { retries: number }) => {
+			result.current = useDropzone({ files, upload: { request, retries } });
+			return null;
+		};
+		const { rerender } = render(
+			<StrictMode>
+				<UploadComponent retries={0} />
+			</StrictMode>,
+		);
+
+		await waitFor(() => expect(result.current?.upload.items).toMatchObject([{ file, status: "success" }]));
+		const calls = request.mock.calls.length;
+
+		rerender(
+			<StrictMode>
+				<UploadComponent retries={2} />
+			</StrictMode>,
+		);
+		await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+
+		expect(result.current?.upload.items).toMatchObject([{ file, status: "success" }]);
+		expect(request).toHaveBeenCalledTimes(calls);
+	});
+
+	// Bırakılan klasörler okunur, dosyalar göreli yollarıyla doğrulamadan geçirilir
+	it("collects files from dropped folders", async () => {
+		const { result, input } = setup({ maxSize: 5, directory: true });
+		const entry = (file: File) => ({
+			name: file.name,
+			isFile: true,
+			isDirectory: false,
+			file: (resolve: (file: File) => void) => resolve(file),
+		});
+		const small = createFile(4, "index.txt", "text/plain");
+		const large = createFile(10, "index.txt", "text/plain");
+		const folder = (name: string, children: object[]) => ({
+			name,
+			isFile: false,
+			isDirectory: true,
+			createReader: () => {
+				const batches = [children, []];
+				return { readEntries: (resolve: (entries: object[]) => void) => resolve(batches.shift() ?? []) };
+			},
+		});
+		const items = [{ kind: "file", webkitGetAsEntry: () => folder("docs", [entry(small), folder("old", [entry(large)])]) }];
+
+		expect(input).toHaveAttribute("webkitdirectory");
+		fireEvent.drop(input, { dataTransfer: { items, files: [] } });
+
+		await waitFor(() => expect(result.current.files).toEqual([small]));
+		expect(getRelativePath(small)).toBe("docs/index.txt");
+		expect(result.current.fileRejections.map((rejection) => getRelativePath(rejection.file))).toEqual(["docs/old/index.txt"]);
+	});
+
+	// Tekrar eden dosyalar file-duplicate koduyla reddedilir, silme işlemi dosya anahtarıyla yapılır
+	it("rejects duplicates and removes files by their key", () => {
+		const { result, input } = setup({ duplicateStrategy: "name+size+lastModified" });
+
+		const report = new File(["a"], "report.pdf", { lastModified: 1 });
+		const otherReport = new File(["bb"], "report.pdf", { lastModified: 2 });
+		fireEvent.change(input, { target: { files: [report, otherReport] } });
+		fireEvent.change(input, { target: { files: [new File(["a"], "report.pdf", { lastModified: 1 })] } });
+
+		expect(result.current.files).toEqual([report, otherReport]);
+		expect(result.current.fileRejections[0].error).toEqual([
+			{ code: "file-duplicate", message: "report.pdf dosyası zaten eklendi." },
+		]);
+
+		act(() => result.current.removeFiles([otherReport]));
+		expect(result.current.files).toEqual([report]);
+	});
+
+	// İçerik özeti stratejisinde anahtarlar hesaplandıktan sonra dosyalar işlenir
+	it("detects duplicates by content hash", async () => {
+		const { result, input } = setup({ duplicateStrategy: "sha256" });
+
+		const original = createFile(4, "photo.jpg", "image/jpeg");
+		fireEvent.change(input, { target: { files: [original] } });
+		await waitFor(() => expect(result.current.files).toEqual([original]));
+
+		const renamed = createFile(4, "photo (1).jpg", "image/jpeg");
+		fireEvent.change(input, { target: { files: [renamed, createFile(5, "other.jpg", "image/jpeg")] } });
+
+		await waitFor(() => expect(result.current.files).toHaveLength(2));
+		expect(result.current.fileRejections.map((rejection) => rejection.file)).toEqual([renamed]);
+		expect(result.current.isValidating).toBe(false);
+	});
+
+	// Anahtar hesaplanamadığında dosyalar ad, boyut ve tarih anahtarıyla işlenir ve hata bildirilir
+	it("falls back to name, size and date when a key cannot be computed", async () => {
+		const onError = vi.fn();
+		const failure = new Error("hash failed");
+		const { result, input } = setup({ onError, duplicateStrategy: () => Promise.reject(failure) });
+
+		const file = createFile(4, "photo.jpg", "image/jpeg");
+		fireEvent.change(input, { target: { files: [file] } });
+		await waitFor(() => expect(result.current.files).toEqual([file]));
+
+		expect(result.current.isValidating).toBe(false);
+		expect(result.current.getKey(file)).toBe(`photo.jpg:4:${file.lastModified}`);
+		expect(onError).toHaveBeenCalledWith(failure);
+
+		act(() => result.current.removeFiles([file]));
+		await waitFor(() => expect(result.current.files).toEqual([]));
+
+		cleanup();
+		const throwing = setup({
+			onError,
+			duplicateStrategy: () => {
+				throw failure;
+			},
+		});
+		expect(() => fireEvent.change(throwing.input, { target: { files: [file] } })).not.toThrow();
+		expect(throwing.result.current.files).toEqual([file]);
+		expect(throwing.result.current.getKey(file)).toBe(`photo.jpg:4:${file.lastModified}`);
+		expect(onError).toHaveBeenCalledTimes(2);
+	});
+
+	// Dosyalar doğrulamadan önce dönüştürülür, boyut sınırı dönüştürülmüş dosyaya uygulanır ve orijinal dosya saklanır
+	it("validates transformed files and keeps the original", async () => {
+		const compress = vi.fn(async (file: File) =>
+			file.type.startsWith("image/") ? new File(["a"], file.name.replace(/\.\w+$/, ".webp"), { type: "image/webp" }) : file,
+		);
+		const { result, input } = setup({ transform: compress, maxSize: 5 });
+
+		const photo = createFile(10, "photo.png", "image/png");
+		fireEvent.change(input, { target: { files: [photo, createFile(10, "notes.txt", "text/plain")] } });
+
+		await waitFor(() => expect(result.current.files).toHaveLength(1));
+		const [transformed] = result.current.files;
+		expect(transformed).toMatchObject({ name: "photo.webp", type: "image/webp", relativePath: "photo.webp" });
+		expect(getOriginalFile(transformed)).toBe(photo);
+		expect(result.current.fileRejections.map((rejection) => rejection.file.name)).toEqual(["notes.txt"]);
+		expect(result.current.isValidating).toBe(false);
+	});
+
+	// Mesajlar seçilen dilde, sınır ve dosya bilgileriyle oluşturulur
+	it("localizes validation messages with structured params", () => {
+		const { result, input } = setup({
+			locale: "en",
+			maxSize: 5 * 1024 * 1024,
+			maxFiles: 1,
+			validationMessages: [{ code: "too-many-files", message: ({ actual, limit }) => `${actual}/${limit}` }],
+		});
+
+		fireEvent.change(input, { target: { files: [createFile(1, "a.txt", "text/plain"), createFile(1, "b.txt", "text/plain")] } });
+
+		expect(result.current.fileRejections[0].error).toEqual([
+			{ code: "too-many-files", message: "2/1", details: { limit: 1, actual: 2, unit: "files" } },
+		]);
+
+		fireEvent.change(input, { target: { files: [createFile(6 * 1024 * 1024, "video.mp4", "video/mp4")] } });
+
+		expect(result.current.fileRejections[0].error).toEqual([
+			{
+				code: "file-too-large",
+				message: "video.mp4 is too large. The maximum file size is 5 MB.",
+				details: { limit: 5 * 1024 * 1024, actual: 6 * 1024 * 1024, unit: "bytes" },
+			},
+		]);
+	});
+
+	// Container klavyeyle kullanılabilir bir butondur, değişiklikler canlı bölgede duyurulur
+	it("supports keyboard and screen reader users", () => {
+		const AccessibleComponent = ({ disabled }: { disabled?: boolean }) => {
+			const { getRootProps, getInputProps, getDescriptionProps, getLiveRegionProps, removeFiles, files } = useDropzone({
+				disabled,
+				maxSize: 5,
+			});
+			return (
+				<section {...getRootProps({ "aria-label": "Dosya yükle" })}>
+					<input {...getInputProps({ "data-testid": "input" } as object)} />
+					<p {...getDescriptionProps()}>En fazla 5 byte</p>
+					<button type="button" onClick={() => removeFiles(files)}>
+						Sil
+					</button>
+					<div {...getLiveRegionProps()} />
+				</section>
+			);
+		};
+
+		const { rerender } = render(<AccessibleComponent />);
+		const root = screen.getByRole("button", { name: "Dosya yükle" });
+		const input = screen.getByTestId("input") as HTMLInputElement;
+		const click = vi.spyOn(input, "click").mockImplementation(() => undefined);
+
+		expect(root.tabIndex).toBe(0);
+		expect(root).toHaveAccessibleDescription("En fazla 5 byte");
+		expect(input.tabIndex).toBe(-1);
+		expect(input).toHaveAttribute("aria-hidden", "true");
+		fireEvent.keyDown(root, { key: "Enter" });
+		fireEvent.keyDown(root, { key: " " });
+		fireEvent.keyDown(screen.getByText("Sil"), { key: "Enter" });
+		expect(click).toHaveBeenCalledTimes(2);
+
+		fireEvent.change(input, { target: { files: [createFile(4, "a.txt", "text/plain"), createFile(10, "b.txt", "text/plain")] } });
+		expect(screen.getByRole("status")).toHaveTextContent(
+			"1 dosya eklendi: a.txt. 1 dosya reddedildi. b.txt: Dosya boyutu çok büyük.",
+		);
+
+		fireEvent.click(screen.getByText("Sil"));
+		expect(screen.getByRole("status")).toHaveTextContent("1 dosya kaldırıldı: a.txt.");
+
+		rerender(<AccessibleComponent disabled />);
+		expect(root).toHaveAttribute("aria-disabled", "true");
+		expect(root.tabIndex).toBe(-1);
+		expect(input.disabled).toBe(true);
+
+		fireEvent.keyDown(root, { key: "Enter" });
+		fireEvent.drop(input, { dataTransfer: { files: [createFile(4, "c.txt", "text/plain")] } });
+		expect(click).toHaveBeenCalledTimes(2);
+		expect(screen.getByRole("status")).toHaveTextContent("1 dosya kaldırıldı: a.txt.");
+	});
+
+	// Sürükleme alt öğeler arasında geçerken korunur, sürüklenen öğeler formata ve dosya sayısına göre değerlendirilir
+	it("tracks nested drags and evaluates the dragged items", () => {
+		const dropEffects: string[] = [];
+		const { result, input } = setup(
+			{ acceptedFormats: ["image/"], maxFiles: 2 },
+			{ onDragOver: (event: DragEvent) => dropEffects.push(event.dataTransfer?.dropEffect ?? "") },
+		);
+		const root = screen.getByTestId("root");
+		const drag = (...types: string[]) => ({
+			dataTransfer: { items: [...types.map((type) => ({ kind: "file", type })), { kind: "string", type: "text/plain" }] },
+		});
+
+		fireEvent.dragEnter(root, drag("image/png", "image/jpeg"));
+		fireEvent.dragEnter(input, drag("image/png", "image/jpeg"));
+		fireEvent.dragLeave(root);
+		fireEvent.dragOver(input, drag("image/png", "image/jpeg"));
+
+		expect(result.current.isDragActive).toBe(true);
+		expect(result.current.isDragAccept).toBe(true);
+		expect(result.current.isDragReject).toBe(false);
+		expect(result.current.draggedItems).toBe(2);
+
+		fireEvent.dragOver(input, drag("image/png", "application/pdf"));
+		expect(result.current.isDragReject).toBe(true);
+		fireEvent.dragOver(input, drag("image/png", "image/png", "image/png"));
+		expect(result.current.isDragReject).toBe(true);
+		expect(result.current.draggedItems).toBe(3);
+		expect(dropEffects).toEqual(["copy", "none", "none"]);
+
+		fireEvent.dragLeave(input);
+		expect(result.current.isDragActive).toBe(false);
+		expect(result.current.isDragReject).toBe(false);
+		expect(result.current.draggedItems).toBe(0);
+	});
+
+	// Yapıştırılan dosyalar doğrulamadan ve tekrar kontrolünden geçer, genel adlı görseller benzersiz ad alır
+	it("adds pasted files through the validation path", () => {
+		const { result } = setup({ pasteTarget: "container", acceptedFormats: ["image/"] });
+		const root = screen.getByTestId("root");
+		const paste = (...files: File[]) => fireEvent.paste(root, { clipboardData: { files, items: [] } });
+
+		paste(createFile(4, "image.png", "image/png"));
+		paste(createFile(4, "image.png", "image/png"), createFile(4, "notes.txt", "text/plain"));
+		expect(result.current.files).toHaveLength(2);
+		expect(result.current.files[0].name).toMatch(/^pasted-image-\d+-\d+\.png$/);
+		expect(result.current.files[1].name).not.toBe(result.current.files[0].name);
+		expect(result.current.fileRejections[0].error[0].code).toBe("file-invalid-type");
+
+		// Dosya içermeyen yapıştırma engellenmez
+		expect(fireEvent.paste(root, { clipboardData: { files: [], items: [] } })).toBe(true);
+
+		cleanup();
+		const documentPaste = setup({ pasteTarget: "document" });
+		fireEvent.paste(document.body, { clipboardData: { files: [createFile(4, "a.txt", "text/plain")], items: [] } });
+		expect(documentPaste.result.current.files.map((file) => file.name)).toEqual(["a.txt"]);
+	});
+
+	// Tam sayfa modunda sürükleme pencere üzerinde takip edilir, container dışına bırakılan dosyalar da eklenir
+	it("accepts files dropped anywhere on the page in full page mode", () => {
+		const { result, input } = setup({ fullPage: true });
+		const drag = { dataTransfer: { types: ["Files"], items: [{ kind: "file", type: "text/plain" }] } };
+
+		fireEvent.dragEnter(document.body, { dataTransfer: { types: ["text/plain"], items: [] } });
+		expect(result.current.isOverlayVisible).toBe(false);
+
+		fireEvent.dragEnter(document.body, drag);
+		fireEvent.dragEnter(input, drag);
+		fireEvent.dragLeave(input, drag);
+		expect(result.current.isOverlayVisible).toBe(true);
+		expect(result.current.isDragActive).toBe(false);
+
+		// Bırakma engellenir, böylece tarayıcı dosyayı açmak için sayfadan ayrılmaz
+		expect(fireEvent.dragOver(document.body, drag)).toBe(false);
+		expect(result.current.draggedItems).toBe(1);
+		const outside = createFile(4, "outside.txt", "text/plain");
+		expect(fireEvent.drop(document.body, { dataTransfer: { types: ["Files"], items: [], files: [outside] } })).toBe(false);
+		expect(result.current.isOverlayVisible).toBe(false);
+		expect(result.current.files).toEqual([outside]);
+
+		// Container'a bırakılan dosyalar bir kez eklenir
+		const inside = createFile(4, "inside.txt", "text/plain");
+		fireEvent.drop(input, { dataTransfer: { types: ["Files"], items: [], files: [inside] } });
+		expect(result.current.files).toEqual([outside, inside]);
+
+		cleanup();
+		setup();
+		expect(fireEvent.drop(document.body, { dataTransfer: { types: ["Files"], items: [], files: [outside] } })).toBe(true);
+	});
+
+	// Eklenti kancaları bırakma akışının aşamalarında dizideki sırayla çalışır
+	it("runs plugin hooks around the drop pipeline", async () => {
+		const log: string[] = [];
+		const audit: IDropzonePlugin<{ auditCount: number }> = {
+			name: "audit",
+			beforeValidate: (files) => files.map((file) => new File([file], file.name.toLowerCase(), { type: file.type })),
+			onFilesAdded: (files) => {
+				log.push(`added ${files.map((file) => file.name).join(",")}`);
+			},
+			onFileRemoved: (file) => {
+				log.push(`removed ${file.name}`);
+			},
+			onReset: () => {
+				log.push("reset");
+			},
+			renderProps: ({ files }) => ({ auditCount: files.length }),
+		};
+		const scan: IDropzonePlugin = {
+			name: "scan",
+			afterValidate: async ({ files, rejections }) => [
+				...rejections,
+				...files
+					.filter((file) => file.name.includes("virus"))
+					.map((file) => ({ file, error: [{ code: "virus-found", message: "Virüs bulundu." }] })),
+			],
+		};
+		const { result, input } = setup({ plugins: [audit, scan] });
+
+		fireEvent.change(input, {
+			target: { files: [createFile(4, "A.TXT", "text/plain"), createFile(4, "virus.txt", "text/plain")] },
+		});
+		expect(result.current.isValidating).toBe(true);
+		await waitFor(() => expect(result.current.files.map((file) => file.name)).toEqual(["a.txt"]));
+		expect(result.current.fileRejections.map(({ error }) => error[0].code)).toEqual(["virus-found"]);
+		expect(result.current.pluginProps).toEqual({ auditCount: 1 });
+
+		act(() => result.current.removeFiles(result.current.files));
+		act(() => result.current.clear());
+		await waitFor(() => expect(log).toEqual(["added a.txt", "removed a.txt", "reset"]));
+	});
+
+	// Hata fırlatan bildirim kancası sonraki eklentileri durdurmaz, hata onError ile bildirilir
+	it("isolates failing plugin notification hooks", async () => {
+		const onError = vi.fn();
+		const failure = new Error("plugin failed");
+		const log: string[] = [];
+		const broken: IDropzonePlugin = {
+			name: "broken",
+			onFilesAdded: () => {
+				throw failure;
+			},
+			onReset: async () => Promise.reject(failure),
+		};
+		const logger: IDropzonePlugin = {
+			name: "logger",
+			onFilesAdded: (files) => {
+				log.push(`added ${files.length}`);
+			},
+			onReset: () => {
+				log.push("reset");
+			},
+		};
+		const { result, input } = setup({ onError, plugins: [broken, logger] });
+
+		fireEvent.change(input, { target: { files: [createFile(4, "a.txt", "text/plain")] } });
+		act(() => result.current.clear());
+
+		await waitFor(() => expect(log).toEqual(["added 1", "reset"]));
+		expect(onError).toHaveBeenCalledTimes(2);
+		expect(onError).toHaveBeenCalledWith(failure);
+	});
+
+	// Kontrollü modda liste files prop'undan okunur, değişiklikler onFilesChange ile bildirilir
+	it("supports a controlled file list", () => {
+		const onFilesChange = vi.fn();
+		const result: { current: ReturnType<typeof useDropzone> | null } = { current: null };
+
+		const ControlledComponent = ({ files }: { files: File[] }) => {
+			result.current = useDropzone({ files, onFilesChange, maxSize: 5 });
+			return <input {...result.current.getInputProps({ "data-testid": "input" } as object)} />;
+		};
+
+		const stored = createFile(4, "stored.txt", "text/plain");
+		const { rerender } = render(<ControlledComponent files={[stored]} />);
+		const input = screen.getByTestId("input") as HTMLInputElement;
+		expect(input.files).toEqual([stored]);
+
+		const added = createFile(4, "added.txt", "text/plain");
+		const large = createFile(10, "large.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [added, large] } });
+
+		expect(onFilesChange).toHaveBeenLastCalledWith([stored, added], {
+			type: "added",
+			files: [added],
+			rejections: [expect.objectContaining({ file: large, index: 1 })],
+			warnings: [],
+		});
+		// Üst bileşen değişikliği uygulamadığı için liste ve input değişmez
+		expect(result.current?.files).toEqual([stored]);
+		expect(input.files).toEqual([stored]);
+
+		fireEvent.change(input, { target: { files: [large] } });
+		expect(onFilesChange).toHaveBeenLastCalledWith([stored], {
+			type: "rejected",
+			files: [large],
+			rejections: expect.any(Array),
+			warnings: [],
+		});
+
+		rerender(<ControlledComponent files={[stored, added]} />);
+		expect(input.files).toEqual([stored, added]);
+
+		act(() => result.current?.removeFiles([stored]));
+		expect(onFilesChange).toHaveBeenLastCalledWith([added], { type: "removed", files: [stored], rejections: [], warnings: [] });
+
+		act(() => result.current?.clear());
+		expect(onFilesChange).toHaveBeenLastCalledWith([], {
+			type: "cleared",
+			files: [stored, added],
+			rejections: [],
+			warnings: [],
+		});
+
+		rerender(<ControlledComponent files={[]} />);
+		expect(input.files).toEqual([]);
+	});
+
+	// Form içinde alan adı, zorunluluk ve form sıfırlama desteklenir
+	it("integrates with native forms", () => {
+		const result: { current: ReturnType<typeof useDropzone> | null } = { current: null };
+		const FormComponent = () => {
+			result.current = useDropzone({ name: "documents", required: true });
+			return (
+				<form data-testid="form">
+					<input {...result.current.getInputProps({ "data-testid": "input" } as object)} />
+				</form>
+			);
+		};
+
+		render(<FormComponent />);
+		const input = screen.getByTestId("input") as HTMLInputElement;
+		const form = screen.getByTestId("form") as HTMLFormElement;
+
+		expect(input).toHaveAttribute("name", "documents");
+		expect(input.validity.customError).toBe(true);
+		expect(input.validationMessage).toBe("Lütfen en az bir dosya seçin.");
+		expect(form.checkValidity()).toBe(false);
+		expect(result.current?.requiredError?.code).toBe("file-required");
+
+		const file = createFile(4, "file.txt", "text/plain");
+		fireEvent.change(input, { target: { files: [file] } });
+
+		expect(form.checkValidity()).toBe(true);
+		expect(result.current?.requiredError).toBeNull();
+
+		act(() => form.reset());
+
+		expect(result.current?.files).toEqual([]);
+		expect(input.validity.customError).toBe(true);
+	});
+});
@@ -0,0 +1,1352 @@
+import type {
+	IAnnouncementTypes,
+	IDropzoneInputProps,
+	IDropzonePlugin,
+	IDropzoneRootProps,
+	IFileRejection,
+	IFilesChangeMeta,
+	IFilesChangeType,
+	IMessageParams,
+	IPluginRenderProps,
+	IUseDropzoneOptions,
+	IUseDropzoneReturn,
+} from "@/Interfaces";
+import { DropzoneGroupContext } from "@/group/DropzoneGroup";
+import { createMessages, renderMessage } from "@/locale/Locale";
+import { usePersistedFiles } from "@/persist/UsePersistedFiles";
+import { getPluginRenderProps, notifyPlugins, runAfterValidate, runBeforeValidate } from "@/plugins/Plugins";
+import { usePreviews } from "@/preview/UsePreviews";
+import { useSortable } from "@/sortable/UseSortable";
+import { toTransformers, transformFiles } from "@/transform/TransformFiles";
+import { useUpload } from "@/upload/UseUpload";
+import { getClipboardFiles } from "@/utils/ClipboardFiles";
+import { collectFiles, filterFiles, getDropSources, getRelativePath, hasDirectory } from "@/utils/CollectFiles";
+import { composeHandlers } from "@/utils/ComposeHandlers";
+import { extractArchives, isArchive } from "@/utils/ExtractArchives";
+import { getFileKey } from "@/utils/FileKey";
+import { createContentValidator } from "@/validator/ContentValidator";
+import { createMediaValidator } from "@/validator/MediaValidator";
+import {
+	applyMaxFilesPolicy,
+	mergeRejections,
+	runValidators,
+	splitWarnings,
+	validateFile,
+	validateGroupLimits,
+	validator,
+} from "@/validator/Validator";
+import {
+	type CSSProperties,
+	type HTMLAttributes,
+	type Ref,
+	useCallback,
+	useContext,
+	useEffect,
+	useId,
+	useMemo,
+	useRef,
+	useState,
+} from "react";
+
+// Öğeyi görsel olarak gizleyip ekran okuyuculara açık bırakan stil
+const VISUALLY_HIDDEN: CSSProperties = {
+	position: "absolute",
+	width: 1,
+	height: 1,
+	padding: 0,
+	margin: -1,
+	overflow: "hidden",
+	clip: "rect(0, 0, 0, 0)",
+	whiteSpace: "nowrap",
+	border: 0,
+};
+
+// Container'a tıklandığında dosya seçme penceresini açmayan, kendi davranışı olan öğeler
+const INTERACTIVE_ELEMENTS =
+	"a[href], button, input, select, textarea, label, summary, [role='button'], [tabindex], [draggable='true']";
+
+// Dosya listesi değişikliğinin canlı bölgede duyurulan mesaj kodu, reddetmeler ayrıca duyurulur
+const ANNOUNCEMENTS: Partial<Record<IFilesChangeType, IAnnouncementTypes>> = {
+	added: "files-added",
+	removed: "files-removed",
+	cleared: "files-cleared",
+	reordered: "files-reordered",
+};
+
+/**
+ * Dahili ref ile kullanıcı tarafından verilen ref'i birleştirir.
+ *
+ * @param {RefObject<T | null>} innerRef - Dahili ref.
+ * @param {Ref<T>} [outerRef] - Kullanıcı tarafından verilen ref.
+ * @returns {Ref<T>} Her iki ref'i de güncelleyen ref.
+ */
+const mergeRefs = <T>(innerRef: { current: T | null }, outerRef?: Ref<T>): Ref<T> => {
+	if (!outerRef) return innerRef;
+	return (node: T | null) => {
+		innerRef.current = node;
+		if (typeof outerRef === "function") {
+			outerRef(node);
+			return;
+		}
+		outerRef.current = node;
+	};
+};
+
+/**
+ * Dropzone'un tüm sürükle-bırak, doğrulama ve input senkronizasyonu mantığını içeren headless hook.
+ * Herhangi bir sarmalayıcı öğe render etmez, prop getter'lar aracılığıyla kendi bileşenlerinize bağlanır.
+ *
+ * @param {IUseDropzoneOptions} options - Hook seçenekleri.
+ * @param {IValidationSchema} [options.schema] - Ayrı verilmeyen doğrulama kurallarının okunduğu kural şeması.
+ * @param {(files: File[], rejections: IFileRejection[]) => void} [options.onDrop] - Geçerli ve geçersiz dosyaların döndürüldüğü callback.
+ * @param {(rejections: IFileRejection[]) => void} [options.onDropRejected] - Geçersiz dosyalar için çalışan callback.
+ * @param {(files: File[]) => void} [options.onDropAccepted] - Geçerli dosyalar için çalışan callback.
+ * @param {(error: unknown) => void} [options.onError] - Dosyalar işlenirken oluşan beklenmeyen hatalar için çalışan callback.
+ * @param {boolean} [options.multiple=true] - Çoklu dosya yükleme seçeneği.
+ * @param {File[]} [options.initialFiles] - İlk yüklenmiş dosyalar.
+ * @param {string[]} [options.acceptedFormats] - Kabul edilen dosya formatları.
+ * @param {number} [options.maxFiles] - Maksimum yüklenebilecek dosya sayısı.
+ * @param {IMaxFilesPolicy} [options.maxFilesPolicy="reject-all"] - Dosya sayısı sınırı aşıldığında uygulanan politika.
+ * @param {number} [options.maxSize] - Dosya boyutu üst sınırı (byte cinsinden).
+ * @param {number} [options.minSize] - Dosya boyutu alt sınırı (byte cinsinden).
+ * @param {IFileTypeRules} [options.rules] - MIME kalıbı veya uzantı ile anahtarlanan dosya türü kuralları.
+ * @param {number} [options.maxTotalSize] - Dosyaların toplam boyutu üst sınırı (byte cinsinden).
+ * @param {IFileErrorMessage[]} [options.validationMessages] - Dil kataloğundaki mesajların yerine geçen doğrulama mesajları.
+ * @param {string} [options.locale="tr"] - Doğrulama mesajlarının dili.
+ * @param {boolean} [options.disabled] - Dosya eklemeyi, silmeyi, klavye ve sürükle-bırak etkileşimlerini devre dışı bırakır.
+ * @param {IFileValidator[]} [options.validators] - Yerleşik kontrollere ek olarak çalışan özel doğrulayıcılar.
+ * @param {number} [options.minWidth] - Görsel genişliği alt sınırı (piksel cinsinden).
+ * @param {number} [options.maxWidth] - Görsel genişliği üst sınırı (piksel cinsinden).
+ * @param {number} [options.minHeight] - Görsel yüksekliği alt sınırı (piksel cinsinden).
+ * @param {number} [options.maxHeight] - Görsel yüksekliği üst sınırı (piksel cinsinden).
+ * @param {number} [options.aspectRatio] - Görselin beklenen en-boy oranı.
+ * @param {number} [options.aspectRatioTolerance=0.01] - En-boy oranı için kabul edilen sapma.
+ * @param {number} [options.minDuration] - Medya süresi alt sınırı (saniye cinsinden).
+ * @param {number} [options.maxDuration] - Medya süresi üst sınırı (saniye cinsinden).
+ * @param {IMediaDecoders} [options.mediaDecoders] - Görsel ve medya çözücüleri.
+ * @param {boolean} [options.verifyContent] - Dosya içeriğini imza tablosuyla doğrular.
+ * @param {IUploadOptions} [options.upload] - Kabul edilen dosyaları yükleyen yükleme motoru seçenekleri.
+ * @param {boolean} [options.directory] - Dosya seçme penceresinde klasör seçimini etkinleştirir.
+ * @param {number} [options.maxDepth] - Bırakılan klasörlerde okunacak en fazla derinlik.
+ * @param {number} [options.maxEntries] - Bırakılan klasörlerde okunacak en fazla girdi sayısı.
+ * @param {boolean} [options.ignoreHiddenFiles=true] - Gizli ve sistem dosyalarını yok sayar.
+ * @param {IDuplicateStrategy} [options.duplicateStrategy="name"] - Tekrar eden dosyaların tespit edilme stratejisi.
+ * @param {File[]} [options.files] - Kontrollü modda dosya listesi.
+ * @param {(files: File[], meta: IFilesChangeMeta) => void} [options.onFilesChange] - Dosya listesi değiştiğinde tetiklenen callback.
+ * @param {string} [options.name] - Kabul edilen dosyaların FormData'ya eklendiği alan adı.
+ * @param {boolean} [options.required] - Form gönderilirken en az bir dosya seçilmesini zorunlu kılar.
+ * @param {boolean | IPreviewOptions} [options.previews] - Kabul edilen dosyalar için önizleme oluşturur.
+ * @param {IImageTransformOptions | IFileTransformer | (IImageTransformOptions | IFileTransformer)[]} [options.transform] - Dosyaları doğrulamadan önce dönüştürür.
+ * @param {string} [options.persistKey] - Kabul edilen dosyaların saklandığı taslağın anahtarı.
+ * @param {IPersistOptions} [options.persist] - Taslak saklama seçenekleri.
+ * @param {boolean | IArchiveOptions} [options.expandArchives] - Bırakılan ZIP arşivlerini açar ve içindeki dosyaları ekler.
+ * @param {IPasteTarget} [options.pasteTarget] - Yapıştırılan dosyaların dinlendiği hedef.
+ * @param {boolean} [options.fullPage] - Tüm sayfayı bırakma alanı yapar.
+ * @param {IDropzonePlugin[]} [options.plugins] - Bırakma akışına kancalanan eklentiler.
+ * @param {string} [options.zoneId] - DropzoneGroup içinde bölgenin kimliği.
+ * @returns {IUseDropzoneReturn} Prop getter'lar, state ve aksiyonlar.
+ */
+export const useDropzone = <TPlugins extends IDropzonePlugin[] = []>({
+	schema,
+	onDrop,
+	onDropRejected,
+	onDropAccepted,
+	onError,
+	multiple = true,
+	initialFiles,
+	acceptedFormats = schema?.acceptedFormats,
+	maxFiles = schema?.maxFiles,
+	maxFilesPolicy = "reject-all",
+	maxSize = schema?.maxSize,
+	minSize = schema?.minSize,
+	rules = schema?.rules,
+	maxTotalSize = schema?.maxTotalSize,
+	validationMessages,
+	locale = "tr",
+	disabled,
+	validators,
+	minWidth,
+	maxWidth,
+	minHeight,
+	maxHeight,
+	aspectRatio,
+	aspectRatioTolerance,
+	minDuration,
+	maxDuration,
+	mediaDecoders,
+	verifyContent,
+	upload: uploadOptions,
+	directory,
+	maxDepth,
+	maxEntries,
+	ignoreHiddenFiles,
+	duplicateStrategy = "name",
+	files: controlledFiles,
+	onFilesChange,
+	name,
+	required,
+	previews: previewOptions,
+	transform,
+	persistKey,
+	persist: persistOptions,
+	expandArchives,
+	pasteTarget,
+	fullPage,
+	plugins,
+	zoneId: zoneIdOption,
+}: IUseDropzoneOptions<TPlugins> = {}): IUseDropzoneReturn<TPlugins> => {
+	const [fileRejections, setFileRejections] = useState<IFileRejection[]>([]);
+	const [fileWarnings, setFileWarnings] = useState<IFileRejection[]>([]);
+	const [isDragActive, setIsDragActive] = useState<boolean>(false);
+	const [isDragReject, setIsDragReject] = useState<boolean>(false);
+	const [draggedItems, setDraggedItems] = useState(0);
+	const [isOverlayVisible, setIsOverlayVisible] = useState(false);
+	const [isValidating, setIsValidating] = useState<boolean>(false);
+	const [announcement, setAnnouncement] = useState("");
+
+	// Container'ı açıklayan öğenin id'si
+	const descriptionId = useId();
+
+	// Bölge DropzoneGroup içindeyse gruba bu kimlikle katılır
+	const generatedZoneId = useId();
+	const zoneId = zoneIdOption ?? name ?? generatedZoneId;
+	const group = useContext(DropzoneGroupContext);
+	const isGrouped = group !== null;
+
+	// Grup değeri birleşik state her değiştiğinde yenilenir, aksiyonların yeniden oluşmaması için son değer ref'te tutulur
+	const groupRef = useRef(group);
+	groupRef.current = group;
+
+	// Kabul edilmiş dosyalar, kontrollü modda files prop'undan okunur
+	const [uncontrolledFiles, setUncontrolledFiles] = useState<File[]>([]);
+	const isControlled = controlledFiles !== undefined;
+	const files = controlledFiles ?? uncontrolledFiles;
+
+	// Eski render'lardan kalan aksiyonların (örneğin render prop'taki handleFileDelete) güncel listeyle çalışması için son liste
+	const filesRef = useRef(files);
+	filesRef.current = files;
+
+	// Kancalar her zaman son render'daki eklentilerle çalışır, satır içi verilen dizi aksiyonları yeniden oluşturmaz
+	const pluginsRef = useRef<IDropzonePlugin[]>([]);
+	pluginsRef.current = plugins ?? [];
+
+	// Asenkron akışlardaki hatalar son render'daki onError ile bildirilir
+	const onErrorRef = useRef(onError);
+	onErrorRef.current = onError;
+	const reportError = useCallback((error: unknown) => onErrorRef.current?.(error), []);
+
+	// Kontrollü modda üst bileşen değişikliği uygulamasa bile input'un listeyle yeniden eşitlenmesini sağlayan sayaç
+	const [inputRevision, setInputRevision] = useState(0);
+
+	// Container'a giren ve çıkan sürükleme olaylarının farkı, alt öğeler arasında geçerken sürükleme durumu korunur
+	const dragDepthRef = useRef(0);
+
+	// fullPage modunda sayfaya giren ve çıkan sürükleme olaylarının farkı
+	const pageDragDepthRef = useRef(0);
+
+	// input elementine referans
+	const inputRef = useRef<HTMLInputElement>(null);
+
+	// Devam eden asenkron doğrulamanın iptal kontrolcüsü ve doğrulanmayı bekleyen dosya listesi
+	const validationControllerRef = useRef<AbortController | null>(null);
+	const pendingFilesRef = useRef<File[] | null>(null);
+
+	// Dosya anahtarlarının önbelleği. Özel anahtar fonksiyonu her render'da yeniden oluşturulabileceği için
+	// önbellek yalnızca strateji türü değiştiğinde sıfırlanır.
+	const strategyType = typeof duplicateStrategy === "function" ? "custom" : duplicateStrategy;
+	const fileKeys = useMemo(() => new WeakMap<File, string>(), [strategyType]);
+
+	// Devam eden dönüştürmelerin iptal kontrolcüsü, liste temizlendiğinde dönüştürülen dosyalar listeye eklenmez
+	const transformControllerRef = useRef(new AbortController());
+
+	// Asenkron anahtarlar hesaplandıktan sonra dosyaları güncel state ile işlemek için son processFiles
+	const processFilesRef = useRef<(newFiles: File[], replacedFile?: File, rejections?: IFileRejection[]) => void>(() => undefined);
+
+	// Dosya başka bir bölgeye taşındığında grubun çağırdığı son removeFiles
+	const removeFilesRef = useRef<(deletedFiles: File[]) => void>(() => undefined);
+
+	// Dil kataloğundan oluşturulan ve kullanıcı mesajlarıyla birleştirilen doğrulama mesajları
+	const messages = useMemo(() => createMessages(locale, validationMessages), [locale, validationMessages]);
+
+	// Tekli modda bırakılan geçerli dosya mevcut dosyanın yerini alır, geçersiz dosya mevcut dosyayı silmez
+	const fileLimit = multiple ? maxFiles : 1;
+	const filesPolicy = multiple ? maxFilesPolicy : "replace-oldest";
+
+	// "reject-all" politikasında sınır validator'da kontrol edilir ve sınır aşıldığında tüm dosyalar reddedilir
+	const validatorMaxFiles = filesPolicy === "reject-all" ? fileLimit : undefined;
+
+	// Yerleşik asenkron doğrulayıcılar ve kullanıcı doğrulayıcıları
+	const fileValidators = useMemo(() => {
+		const mediaValidator = createMediaValidator({
+			minWidth,
+			maxWidth,
+			minHeight,
+			maxHeight,
+			aspectRatio,
+			aspectRatioTolerance,
+			minDuration,
+			maxDuration,
+			decoders: mediaDecoders,
+		});
+
+		return [
+			...(verifyContent ? [createContentValidator({ acceptedFormats })] : []),
+			...(mediaValidator ? [mediaValidator] : []),
+			...(validators ?? []),
+		];
+	}, [
+		minWidth,
+		maxWidth,
+		minHeight,
+		maxHeight,
+		aspectRatio,
+		aspectRatioTolerance,
+		minDuration,
+		maxDuration,
+		mediaDecoders,
+		verifyContent,
+		acceptedFormats,
+		validators,
+	]);
+
+	// Doğrulamadan önce sırayla çalıştırılan dosya dönüştürücüleri
+	const transformers = useMemo(() => toTransformers(transform), [transform]);
+
+	// Arşiv açma sınırları, true verildiğinde varsayılan sınırlar kullanılır
+	const archiveOptions = useMemo(() => (expandArchives === true ? {} : expandArchives || null), [expandArchives]);
+
+	// Anahtarı hesaplanmış dosyanın anahtarını döner
+	const getKey = useCallback((file: File) => fileKeys.get(file) ?? getRelativePath(file), [fileKeys]);
+
+	/**
+	 * Anahtarı henüz hesaplanmamış dosyaların anahtarlarını hesaplayıp önbelleğe ekler.
+	 * Anahtar hesaplanamazsa (senkron hata veya reddedilen Promise) hata onError ile bildirilir ve dosya ad, boyut ve tarih anahtarıyla eşleştirilir.
+	 * @param {File[]} keyFiles - Anahtarı gereken dosyalar.
+	 * @returns {Promise<void> | null} - Asenkron anahtar varsa tümü hesaplandığında çözülen Promise, yoksa null.
+	 */
+	const resolveKeys = useCallback(
+		(keyFiles: File[]) => {
+			const missingFiles = keyFiles.filter((file) => !fileKeys.has(file));
+			const keys = missingFiles.map((file) => {
+				const fallback = (error: unknown) => {
+					reportError(error);
+					return getFileKey(file, "name+size+lastModified") as string;
+				};
+				try {
+					const key = getFileKey(file, duplicateStrategy);
+					return key instanceof Promise ? key.catch(fallback) : key;
+				} catch (error) {
+					return fallback(error);
+				}
+			});
+			const store = (resolved: string[]) => {
+				for (const [index, key] of resolved.entries()) fileKeys.set(missingFiles[index], key);
+			};
+
+			if (!keys.some((key) => key instanceof Promise)) {
+				store(keys as string[]);
+				return null;
+			}
+			return Promise.all(keys).then(store);
+		},
+		[fileKeys, duplicateStrategy, reportError],
+	);
+
+	// Dosyaları formatlar ve inputa yükler
+	const addFileToInput = useCallback((files: File[]) => {
+		if (!inputRef.current) return;
+		const dataTransfer = new DataTransfer();
+		for (const file of files) {
+			dataTransfer.items.add(file);
+		}
+
+		inputRef.current.files = dataTransfer.files;
+	}, []);
+
+	/**
+	 * Dosya listesi değişikliğini eklenen, silinen ve reddedilen dosyaların adlarıyla canlı bölgede duyurur.
+	 * Reddetmeler doğrulama mesajlarıyla birlikte duyurulur, tek bir dosya taşındığında yeni konumu duyurulur.
+	 * @param {IFilesChangeMeta} meta - Değişikliğin türü ve etkilenen dosyalar.
+	 * @param {File[]} nextFiles - Yeni dosya listesi.
+	 */
+	const announce = useCallback(
+		(meta: IFilesChangeMeta, nextFiles: File[]) => {
+			const render = (code: IAnnouncementTypes, params: IMessageParams) => {
+				const template = messages.find((message) => message.code === code);
+				return template ? renderMessage(template.message, params, template.locale) : "";
+			};
+
+			const code = ANNOUNCEMENTS[meta.type];
+			const [movedFile] = meta.files;
+			const changed =
+				meta.type === "reordered" && meta.files.length === 1
+					? render("file-moved", {
+							name: movedFile.name,
+							position: nextFiles.indexOf(movedFile) + 1,
+							count: nextFiles.length,
+						})
+					: code && meta.files.length > 0
+						? render(code, { count: meta.files.length, files: meta.files.map((file) => file.name).join(", ") })
+						: "";
+			const replaced =
+				meta.type !== "removed" && meta.replaced?.length
+					? render("files-removed", {
+							count: meta.replaced.length,
+							files: meta.replaced.map((file) => file.name).join(", "),
+						})
+					: "";
+			const rejected =
+				meta.rejections.length > 0
+					? render("files-rejected", {
+							count: meta.rejections.length,
+							errors: meta.rejections
+								.map(({ file, error }) => `${file.name}: ${error.map((item) => item.message).join(" ")}`)
+								.join(" "),
+						})
+					: "";
+
+			setAnnouncement([changed, replaced, rejected].filter(Boolean).join(" "));
+		},
+		[messages],
+	);
+
+	/**
+	 * Dosya listesini günceller, kontrollü modda yalnızca onFilesChange ile bildirir.
+	 * @param {File[]} nextFiles - Yeni dosya listesi.
+	 * @param {IFilesChangeMeta} meta - Değişikliğin türü ve etkilenen dosyalar.
+	 */
+	const updateFiles = useCallback(
+		(nextFiles: File[], meta: IFilesChangeMeta) => {
+			if (isControlled) setInputRevision((revision) => revision + 1);
+			else setUncontrolledFiles(nextFiles);
+
+			announce(meta, nextFiles);
+			onFilesChange?.(nextFiles, meta);
+		},
+		[isControlled, onFilesChange, announce],
+	);
+
+	/**
+	 * Doğrulama sonucunu state'e işler ve callback'leri tetikler.
+	 * Daha önce kabul edilmiş ve listede kalan dosyaların uyarıları korunur.
+	 * @param {File[]} acceptedFiles - Kabul edilen dosyalar.
+	 * @param {IFileRejection[]} rejections - Reddedilen dosyalar.
+	 * @param {IFileRejection[]} [warnings] - Kabul edilen dosyaların yeni uyarıları.
+	 * @param {File[]} [replaced] - Dosya sayısı sınırı nedeniyle listeden çıkarılan dosyalar.
+	 */
+	const commitFiles = useCallback(
+		(acceptedFiles: File[], rejections: IFileRejection[], warnings: IFileRejection[] = [], replaced: File[] = []) => {
+			const previousFiles = new Set(filesRef.current);
+			const addedFiles = acceptedFiles.filter((file) => !previousFiles.has(file));
+			const acceptedSet = new Set(acceptedFiles);
+			const removedFiles = filesRef.current.filter((file) => !acceptedSet.has(file));
+			const replacedMeta = replaced.length > 0 ? { replaced } : {};
+			updateFiles(
+				acceptedFiles,
+				addedFiles.length > 0
+					? { type: "added", files: addedFiles, rejections, warnings, ...replacedMeta }
+					: rejections.length > 0 || replaced.length === 0
+						? { type: "rejected", files: rejections.map((rejection) => rejection.file), rejections, warnings }
+						: { type: "removed", files: replaced, rejections, warnings, ...replacedMeta },
+			);
+			setFileRejections(rejections);
+
+			const warnedFiles = new Set(warnings.map((warning) => warning.file));
+			setFileWarnings((prev) => [
+				...prev.filter((warning) => acceptedSet.has(warning.file) && !warnedFiles.has(warning.file)),
+				...warnings,
+			]);
+
+			onDrop?.(acceptedFiles, rejections);
+			onDropRejected?.(rejections);
+			onDropAccepted?.(acceptedFiles);
+			groupRef.current?.completeMove(zoneId, addedFiles);
+
+			const context = { files: acceptedFiles, messages };
+			notifyPlugins(
+				pluginsRef.current,
+				async (plugin) => {
+					for (const file of removedFiles) await plugin.onFileRemoved?.(file, context);
+					if (addedFiles.length > 0) await plugin.onFilesAdded?.(addedFiles, context);
+				},
+				reportError,
+			);
+		},
+		[updateFiles, onDrop, onDropRejected, onDropAccepted, messages, zoneId, reportError],
+	);
+
+	// Devam eden asenkron doğrulamayı iptal eder, bayat sonuçlar state'e işlenmez
+	const cancelValidation = useCallback(() => {
+		validationControllerRef.current?.abort();
+		validationControllerRef.current = null;
+		pendingFilesRef.current = null;
+		setIsValidating(false);
+	}, []);
+
+	/**
+	 * Aday dosya listesini yerleşik ve özel doğrulayıcılarla doğrular, sonucu işler.
+	 * Özel doğrulayıcılar yalnızca henüz kabul edilmemiş dosyalar için çalışır, ardından eklentilerin afterValidate kancaları çalışır.
+	 * @param {File[]} candidates - Doğrulanacak dosya listesi.
+	 * @param {IFileRejection[]} [extraRejections] - Listeye alınmadan reddedilen dosyalar (örneğin tekrar eden dosyalar).
+	 * @param {File[]} [batch] - Bırakılan dosyalar, reddetmelere dosyanın bu listedeki sırası eklenir.
+	 * @param {Map<File, File>} [replacements] - Yeni dosyadan değiştirdiği dosyaya eşleme, yeni dosya reddedilirse eski dosya korunur.
+	 */
+	const validate = useCallback(
+		(
+			candidates: File[],
+			extraRejections: IFileRejection[] = [],
+			batch: File[] = [],
+			replacements: Map<File, File> = new Map(),
+		) => {
+			cancelValidation();
+			const controller = new AbortController();
+			validationControllerRef.current = controller;
+
+			const rejections = validator({
+				files: candidates,
+				maxFiles: validatorMaxFiles,
+				maxSize,
+				minSize,
+				rules,
+				maxTotalSize,
+				messages,
+				acceptedFormats,
+			});
+
+			const acceptedFiles = new Set(files);
+			const newFiles = candidates.filter((file) => !acceptedFiles.has(file));
+
+			/**
+			 * Özel doğrulayıcıların sonucunu yerleşik reddetmelerle birleştirir ve eklentilerin afterValidate kancalarından geçirir.
+			 * @param {IFileRejection[]} customRejections - Özel doğrulayıcıların reddetmeleri ve uyarıları.
+			 * @returns Reddetmeler ve uyarılar, asenkron kanca varsa Promise.
+			 */
+			const review = (customRejections: IFileRejection[]) => {
+				// Uyarılar yalnızca özel doğrulayıcılardan gelir, yalnızca uyarı alan dosyalar kabul edilir
+				const { rejections: mergedRejections, warnings } =
+					customRejections.length > 0
+						? splitWarnings(mergeRejections(rejections, customRejections))
+						: { rejections, warnings: [] };
+
+				const reviewed = runAfterValidate(
+					pluginsRef.current,
+					{ files: newFiles, rejections: mergedRejections },
+					{ files, messages, signal: controller.signal },
+				);
+				return reviewed instanceof Promise
+					? reviewed.then((validatedRejections) => ({ validatedRejections, warnings }))
+					: { validatedRejections: reviewed, warnings };
+			};
+
+			const finalize = ({
+				validatedRejections,
+				warnings,
+			}: {
+				validatedRejections: IFileRejection[];
+				warnings: IFileRejection[];
+			}) => {
+				// Reddetmelere ve uyarılara dosyanın bırakılan dosyalar arasındaki sırası eklenir
+				const withIndex = (rejection: IFileRejection) => {
+					const index = batch.indexOf(rejection.file);
+					return index === -1 ? rejection : { ...rejection, index };
+				};
+				// Grup içindeki bölgelerde grubun sınırlarını aşan yeni dosyalar reddedilir
+				const validatedFiles = new Set(validatedRejections.map((rejection) => rejection.file));
+				const groupRejections = validateGroupLimits({
+					files: candidates.filter((file) => !validatedFiles.has(file)),
+					acceptedFiles: files,
+					otherFiles: groupRef.current?.getOtherFiles(zoneId) ?? [],
+					maxFiles: groupRef.current?.maxFiles,
+					maxTotalSize: groupRef.current?.maxTotalSize,
+					messages,
+				});
+
+				// Geçerli dosyalara dosya sayısı politikası uygulanır, yalnızca sınırı aşan yeni dosyalar reddedilir
+				// Reddedilen yeni dosyanın değiştirdiği dosya listedeki yerinde kalır
+				const rejectedFiles = new Set([...validatedFiles, ...groupRejections.map((rejection) => rejection.file)]);
+				const validFiles = candidates.flatMap((file) => {
+					if (!rejectedFiles.has(file)) return [file];
+					const original = replacements.get(file);
+					return original ? [original] : [];
+				});
+				const {
+					files: acceptedFiles,
+					rejections: overflowRejections,
+					replaced: overflowFiles,
+				} = applyMaxFilesPolicy({
+					files: validFiles,
+					acceptedFiles: files,
+					maxFiles: fileLimit,
+					policy: filesPolicy,
+					messages,
+				});
+				const finalRejections = [...validatedRejections, ...groupRejections, ...overflowRejections, ...extraRejections].map(
+					withIndex,
+				);
+
+				// Geçerli dosyaları dışarıya iletme (geçersiz ve sınırı aşan dosyaları hariç tutarak)
+				const keptFiles = new Set(acceptedFiles);
+				const replaced = [
+					...Array.from(replacements)
+						.filter(([file]) => keptFiles.has(file))
+						.map(([, original]) => original),
+					...overflowFiles,
+				];
+				commitFiles(
+					acceptedFiles,
+					finalRejections,
+					warnings.filter((warning) => keptFiles.has(warning.file)).map(withIndex),
+					replaced,
+				);
+			};
+
+			const customRejections = fileValidators.length
+				? runValidators({ files: newFiles, validators: fileValidators, messages, signal: controller.signal })
+				: [];
+			const validation = customRejections instanceof Promise ? customRejections.then(review) : review(customRejections);
+			if (!(validation instanceof Promise)) return finalize(validation);
+
+			pendingFilesRef.current = candidates;
+			setIsValidating(true);
+			validation.then(
+				(result) => {
+					if (controller.signal.aborted) return;
+					cancelValidation();
+					finalize(result);
+				},
+				(error) => {
+					if (controller.signal.aborted) return;
+					cancelValidation();
+					reportError(error);
+				},
+			);
+		},
+		[
+			files,
+			fileLimit,
+			filesPolicy,
+			validatorMaxFiles,
+			maxSize,
+			minSize,
+			rules,
+			maxTotalSize,
+			messages,
+			acceptedFormats,
+			fileValidators,
+			commitFiles,
+			cancelValidation,
+			zoneId,
+			reportError,
+		],
+	);
+
+	/**
+	 * Yeni dosyaları mevcut listeyle (veya doğrulanmayı bekleyen listeyle) birleştirir ve doğrular.
+	 * Tekrar eden dosyalar duplicateStrategy anahtarıyla tespit edilir ve file-duplicate koduyla reddedilir.
+	 * Grup içindeki bölgelerde diğer bölgelerdeki dosyalar da tekrar eden dosya kontrolüne katılır.
+	 * Değiştirilecek dosya verildiğinde yeni dosyalardan ilki onun konumuna yerleştirilir.
+	 * @param {File[]} newFiles - Eklenen dosyalar.
+	 * @param {File} [replacedFile] - Yeni dosyayla değiştirilecek dosya.
+	 * @param {IFileRejection[]} [archiveRejections] - Açılamayan arşivlerin reddetmeleri.
+	 */
+	const processFiles = useCallback(
+		(newFiles: File[], replacedFile?: File, archiveRejections: IFileRejection[] = []) => {
+			if (!newFiles.length && !archiveRejections.length) return;
+			const currentFiles = pendingFilesRef.current ?? files;
+			const otherFiles = groupRef.current?.getOtherFiles(zoneId) ?? [];
+
+			// İçerik özeti gibi asenkron anahtarlar hesaplandıktan sonra dosyalar güncel state ile tekrar işlenir
+			const pendingKeys = resolveKeys([...otherFiles, ...currentFiles, ...newFiles, ...(replacedFile ? [replacedFile] : [])]);
+			if (pendingKeys) {
+				setIsValidating(true);
+				pendingKeys.then(() => {
+					setIsValidating(Boolean(pendingFilesRef.current));
+					processFilesRef.current(newFiles, replacedFile, archiveRejections);
+				});
+				return;
+			}
+
+			// Değiştirilecek dosya tekrar eden dosya kontrolüne katılmaz
+			const replacedIndex = replacedFile ? currentFiles.findIndex((file) => getKey(file) === getKey(replacedFile)) : -1;
+			if (replacedFile && replacedIndex === -1) return;
+
+			// Benzersiz dosyaları filtreleme (dosya anahtarı ile karşılaştırmak), tekrar edenler reddedilir
+			const keysSet = new Set([...otherFiles, ...currentFiles.filter((_, index) => index !== replacedIndex)].map(getKey));
+			const uniquedFiles: File[] = [];
+			const duplicateRejections: IFileRejection[] = [...archiveRejections];
+			for (const file of newFiles) {
+				const key = getKey(file);
+				if (!keysSet.has(key)) {
+					keysSet.add(key);
+					uniquedFiles.push(file);
+					continue;
+				}
+				const duplicateError = validateFile({
+					validationCode: "file-duplicate",
+					condition: false,
+					messages,
+					params: { name: file.name },
+				});
+				if (duplicateError) duplicateRejections.push({ file, error: [duplicateError] });
+			}
+
+			if (!uniquedFiles.length && !duplicateRejections.length) return;
+
+			if (replacedFile) {
+				const [replacement] = uniquedFiles;
+				if (!replacement) return validate(currentFiles, duplicateRejections, newFiles);
+				return validate(
+					currentFiles.map((file, index) => (index === replacedIndex ? replacement : file)),
+					duplicateRejections,
+					newFiles,
+					new Map([[replacement, currentFiles[replacedIndex]]]),
+				);
+			}
+
+			// multiple seçeneği kontrolü, tekli modda yalnızca ilk dosya alınır ve geçerliyse mevcut dosyanın yerini alır
+			validate([...currentFiles, ...(multiple ? uniquedFiles : uniquedFiles.slice(0, 1))], duplicateRejections, newFiles);
+		},
+		[files, multiple, messages, validate, resolveKeys, getKey, zoneId],
+	);
+	processFilesRef.current = processFiles;
+
+	/**
+	 * Bırakılan veya seçilen dosyaları dönüştürücülerden ve eklentilerin beforeValidate kancalarından geçirdikten sonra işler.
+	 * expandArchives açıksa ZIP arşivleri önce açılır ve arşivlerin yerine içlerindeki dosyalar işlenir.
+	 * Boyut ve diğer doğrulamalar dönüştürülmüş dosyalar üzerinde çalışır.
+	 * Başarısız olan dönüştürücünün hatası onError ile bildirilir ve dosya o adımdan önceki haliyle doğrulanır.
+	 * Arşiv açma veya beforeValidate kancası başarısız olursa hata onError ile bildirilir ve dosyalar eklenmez.
+	 * @param {File[]} newFiles - Eklenen dosyalar.
+	 * @param {File} [replacedFile] - Yeni dosyayla değiştirilecek dosya.
+	 */
+	const addFiles = useCallback(
+		(newFiles: File[], replacedFile?: File) => {
+			if (!newFiles.length) return;
+
+			const { signal } = transformControllerRef.current;
+			const prepare = (transformedFiles: File[]) =>
+				runBeforeValidate(pluginsRef.current, transformedFiles, { files: filesRef.current, messages, signal });
+			const transformAndPrepare = (expandedFiles: File[]) =>
+				transformers.length
+					? transformFiles(expandedFiles, transformers, signal, reportError).then(prepare)
+					: prepare(expandedFiles);
+
+			const expansion = archiveOptions
+				? extractArchives(newFiles, { ...archiveOptions, ignoreHiddenFiles, messages })
+				: { files: newFiles, rejections: [] };
+			const preparation =
+				expansion instanceof Promise
+					? expansion.then(({ files: expandedFiles, rejections }) => ({
+							preparedFiles: transformAndPrepare(expandedFiles),
+							rejections,
+						}))
+					: { preparedFiles: transformAndPrepare(expansion.files), rejections: expansion.rejections };
+			if (!(preparation instanceof Promise) && !(preparation.preparedFiles instanceof Promise)) {
+				return processFiles(preparation.preparedFiles, replacedFile, preparation.rejections);
+			}
+
+			// Arşiv açma, dönüştürme veya asenkron kancalar bitene kadar doğrulama sürüyor sayılır
+			setIsValidating(true);
+			Promise.resolve(preparation)
+				.then(async ({ preparedFiles, rejections }) => {
+					const prepared = await preparedFiles;
+					if (signal.aborted) return;
+					setIsValidating(Boolean(pendingFilesRef.current));
+					processFilesRef.current(prepared, replacedFile, rejections);
+				})
+				.catch((error) => {
+					// Arşiv açma veya beforeValidate kancası başarısız olursa dosyalar eklenmez ve hata bildirilir
+					if (signal.aborted) return;
+					setIsValidating(Boolean(pendingFilesRef.current));
+					reportError(error);
+				});
+		},
+		[transformers, messages, processFiles, archiveOptions, ignoreHiddenFiles, reportError],
+	);
+
+	// Sürükleme durumunu sıfırlar
+	const resetDrag = useCallback(() => {
+		dragDepthRef.current = 0;
+		setIsDragActive(false);
+		setIsDragReject(false);
+		setDraggedItems(0);
+	}, []);
+
+	/**
+	 * Dosya bırakma veya dosya seçme işlemini yönetir.
+	 * Bırakılan öğeler arasında klasör varsa klasörler özyinelemeli olarak okunur ve dosyalar göreli yollarıyla eklenir.
+	 * fullPage modunda sayfaya bırakılan dosyalar için yerel DragEvent ile de çağrılır.
+	 * Gruptaki başka bir bölgeden sürüklenen dosya dönüştürülmeden yalnızca bu bölgenin kurallarıyla yeniden doğrulanır.
+	 * @param {React.DragEvent<HTMLElement> | React.ChangeEvent<HTMLInputElement> | DragEvent} event - Olay nesnesi.
+	 */
+	const handleDrop = useCallback(
+		(event: React.DragEvent<HTMLElement> | React.ChangeEvent<HTMLInputElement> | DragEvent) => {
+			event.preventDefault();
+			resetDrag();
+			if (disabled) return;
+
+			const movedFile = groupRef.current?.beginMove(zoneId);
+			if (movedFile) return processFiles([movedFile]);
+
+			const directoryOptions = { maxDepth, maxEntries, ignoreHiddenFiles };
+			if ("dataTransfer" in event && event.dataTransfer) {
+				// Kaynaklar olay sırasında okunmalıdır, olay bittikten sonra DataTransfer içeriği temizlenir
+				const sources = getDropSources(event.dataTransfer);
+				if (hasDirectory(sources)) {
+					// Okunamayan girdiler atlanır ve bildirilir, okunabilen dosyalar yine eklenir
+					collectFiles(sources, directoryOptions, reportError).then(addFiles).catch(reportError);
+					return;
+				}
+			}
+
+			const selectedFiles = "dataTransfer" in event ? event.dataTransfer?.files : event.target.files;
+			addFiles(filterFiles(Array.from(selectedFiles || []), directoryOptions));
+		},
+		[addFiles, processFiles, resetDrag, disabled, zoneId, maxDepth, maxEntries, ignoreHiddenFiles, reportError],
+	);
+
+	/**
+	 * Panodan yapıştırılan dosyaları bırakılan dosyalarla aynı yoldan (dönüştürme, tekrar kontrolü, doğrulama) ekler.
+	 * Dosya içermeyen yapıştırmalar (örneğin metin) engellenmez.
+	 * @param {ClipboardEvent | React.ClipboardEvent<HTMLElement>} event - Olay nesnesi.
+	 */
+	const handlePaste = useCallback(
+		(event: ClipboardEvent | React.ClipboardEvent<HTMLElement>) => {
+			if (disabled) return;
+
+			const pastedFiles = getClipboardFiles(event.clipboardData);
+			if (!pastedFiles.length) return;
+
+			event.preventDefault();
+			addFiles(multiple ? pastedFiles : pastedFiles.slice(0, 1));
+		},
+		[addFiles, disabled, multiple],
+	);
+
+	/**
+	 * Sürüklenen öğeleri kabul edilen formatlar, dosya sayısı sınırı ve multiple seçeneğine göre değerlendirir.
+	 * Tarayıcılar sürükleme sırasında yalnızca öğelerin türünü sunar, dosya adı ve boyutu bırakılana kadar bilinemez.
+	 * Bu yüzden türü bilinmeyen öğeler ve uzantı ile belirtilen formatlar bırakma anındaki doğrulamaya bırakılır.
+	 * Gruptaki başka bir bölgeden sürüklenen dosya türüyle değerlendirilir, grup dolduğunda yeni dosyalar reddedilir.
+	 * @param {DataTransfer | null} dataTransfer - Sürükleme olayının verisi.
+	 * @returns {boolean} - Sürüklenen öğeler reddedilecekse true.
+	 */
+	const evaluateDrag = useCallback(
+		(dataTransfer: DataTransfer | null) => {
+			const group = groupRef.current;
+			const draggedFile = group?.getDraggedFile(zoneId);
+			const types = draggedFile
+				? [draggedFile.type]
+				: Array.from(dataTransfer?.items ?? [])
+						.filter((item) => item.kind === "file")
+						.map((item) => item.type);
+			const isAcceptedType = (type: string) =>
+				!acceptedFormats ||
+				!type ||
+				(Boolean(expandArchives) && isArchive({ name: "", type })) ||
+				acceptedFormats.some((format) => format.startsWith(".") || type.startsWith(format));
+
+			// Tekli modda ve replace-oldest politikasında bırakılan dosyalar mevcut dosyaların yerini alır,
+			// accept-first politikasında listede yer kaldıkça dosyalar alınır
+			const exceedsCount = !multiple
+				? types.length > 1
+				: maxFiles !== undefined &&
+					(maxFilesPolicy === "reject-all"
+						? filesRef.current.length + types.length > maxFiles
+						: maxFilesPolicy === "accept-first" && filesRef.current.length >= maxFiles);
+			const isGroupFull =
+				!draggedFile &&
+				group?.maxFiles !== undefined &&
+				group.getOtherFiles(zoneId).length + filesRef.current.length >= group.maxFiles;
+			const isReject = Boolean(disabled) || exceedsCount || isGroupFull || !types.every(isAcceptedType);
+
+			setDraggedItems(types.length);
+			setIsDragReject(isReject);
+			return isReject;
+		},
+		[acceptedFormats, expandArchives, multiple, maxFiles, maxFilesPolicy, disabled, zoneId],
+	);
+
+	/**
+	 * Sürükleme container'a girdiğinde tetiklenir, alt öğelere girişler yalnızca derinliği artırır.
+	 * @param {React.DragEvent<HTMLElement>} event - Olay nesnesi.
+	 */
+	const handleDragEnter = useCallback(
+		(event: React.DragEvent<HTMLElement>) => {
+			event.preventDefault();
+			dragDepthRef.current += 1;
+			if (dragDepthRef.current > 1) return;
+
+			evaluateDrag(event.dataTransfer);
+			setIsDragActive(!disabled);
+		},
+		[evaluateDrag, disabled],
+	);
+
+	/**
+	 * Sürükleme container'dan veya alt öğelerinden çıktığında tetiklenir, derinlik sıfırlandığında sürükleme biter.
+	 */
+	const handleDragLeave = useCallback(() => {
+		dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+		if (dragDepthRef.current === 0) resetDrag();
+	}, [resetDrag]);
+
+	/**
+	 * Drag over olayını yönetir, sürüklenen öğelerin kabul edilip edilmeyeceğini dropEffect ile tarayıcıya bildirir.
+	 * Gruptaki başka bir bölgeden sürüklenen dosya taşınır (move), diğer öğeler kopyalanır (copy).
+	 * @param {React.DragEvent<HTMLElement>} event - Olay nesnesi.
+	 */
+	const handleDragOver = useCallback(
+		(event: React.DragEvent<HTMLElement>) => {
+			event.preventDefault();
+			const isReject = evaluateDrag(event.dataTransfer);
+			const effect = groupRef.current?.getDraggedFile(zoneId) ? "move" : "copy";
+			if (event.dataTransfer) event.dataTransfer.dropEffect = isReject ? "none" : effect;
+		},
+		[evaluateDrag, zoneId],
+	);
+
+	/**
+	 * Dosyaları listeden siler, dosyalar duplicateStrategy anahtarıyla eşleştirilir.
+	 * @param {File[]} deletedFiles - Silinecek dosya listesi.
+	 */
+	const removeFiles = useCallback(
+		(deletedFiles: File[]) => {
+			if (disabled) return;
+
+			// Listeye eklenmemiş dosya nesneleri için anahtar asenkron hesaplanıyorsa silme işlemi anahtardan sonra yapılır
+			const pendingKeys = resolveKeys(deletedFiles);
+			if (pendingKeys) {
+				pendingKeys.then(() => removeFiles(deletedFiles));
+				return;
+			}
+
+			// Silinecek dosyaların anahtarlarını bir Set'e ekliyoruz
+			const deletedKeys = new Set(deletedFiles.map(getKey));
+
+			// Doğrulama devam ediyorsa bekleyen liste silinen dosyalar olmadan yeniden doğrulanır
+			const pendingFiles = pendingFilesRef.current;
+			if (pendingFiles) validate(pendingFiles.filter((file) => !deletedKeys.has(getKey(file))));
+
+			const currentFiles = filesRef.current;
+			const removedFiles = currentFiles.filter((file) => deletedKeys.has(getKey(file)));
+			if (removedFiles.length > 0) {
+				const nextFiles = currentFiles.filter((file) => !deletedKeys.has(getKey(file)));
+				updateFiles(nextFiles, { type: "removed", files: removedFiles, rejections: [], warnings: [] });
+				notifyPlugins(
+					pluginsRef.current,
+					async (plugin) => {
+						for (const file of removedFiles) await plugin.onFileRemoved?.(file, { files: nextFiles, messages });
+					},
+					reportError,
+				);
+			}
+			setFileRejections((prev) => prev.filter((rejection) => !deletedKeys.has(getKey(rejection.file))));
+			setFileWarnings((prev) => prev.filter((warning) => !deletedKeys.has(getKey(warning.file))));
+		},
+		[disabled, validate, updateFiles, resolveKeys, getKey, messages, reportError],
+	);
+	removeFilesRef.current = removeFiles;
+
+	/**
+	 * Dosyayı verilen konumdan yeni konuma taşır, yeni konum listenin sınırlarına çekilir.
+	 * @param {number} from - Dosyanın konumu.
+	 * @param {number} to - Dosyanın yeni konumu.
+	 */
+	const moveFile = useCallback(
+		(from: number, to: number) => {
+			const currentFiles = filesRef.current;
+			const target = Math.min(Math.max(to, 0), currentFiles.length - 1);
+			if (disabled || from < 0 || from >= currentFiles.length || from === target) return;
+
+			const nextFiles = [...currentFiles];
+			const [movedFile] = nextFiles.splice(from, 1);
+			nextFiles.splice(target, 0, movedFile);
+			updateFiles(nextFiles, { type: "reordered", files: [movedFile], rejections: [], warnings: [] });
+		},
+		[disabled, updateFiles],
+	);
+
+	/**
+	 * Dosyaları verilen anahtar sırasına göre sıralar.
+	 * Listede olmayan anahtarlar yok sayılır, anahtarı verilmeyen dosyalar mevcut sıralarıyla sona eklenir.
+	 * @param {string[]} keys - Dosya anahtarları.
+	 */
+	const reorder = useCallback(
+		(keys: string[]) => {
+			if (disabled) return;
+
+			const currentFiles = filesRef.current;
+			const order = new Map(keys.map((key, index) => [key, index]));
+			const nextFiles = [...currentFiles].sort(
+				(a, b) => (order.get(getKey(a)) ?? Number.POSITIVE_INFINITY) - (order.get(getKey(b)) ?? Number.POSITIVE_INFINITY),
+			);
+
+			const movedFiles = nextFiles.filter((file, index) => currentFiles[index] !== file);
+			if (movedFiles.length === 0) return;
+			updateFiles(nextFiles, { type: "reordered", files: movedFiles, rejections: [], warnings: [] });
+		},
+		[disabled, getKey, updateFiles],
+	);
+
+	/**
+	 * Dosyayı yeni dosyayla aynı konumda değiştirir.
+	 * Yeni dosya eklenen dosyalar gibi dönüştürülür, tekrar eden dosya kontrolünden ve doğrulamadan geçer.
+	 * Yeni dosya reddedilirse eski dosya listede kalır.
+	 * @param {File} oldFile - Değiştirilecek dosya.
+	 * @param {File} newFile - Yeni dosya.
+	 */
+	const replaceFile = useCallback(
+		(oldFile: File, newFile: File) => {
+			if (!disabled) addFiles([newFile], oldFile);
+		},
+		[disabled, addFiles],
+	);
+
+	/**
+	 * Dosya listesi öğesini gruptaki başka bir bölgeye sürüklenebilir yapan özellikleri döner, grup dışında öğe sürüklenemez.
+	 * @param {File} file - Öğenin dosyası.
+	 * @param {HTMLAttributes<HTMLElement>} [props] - Öğeye uygulanacak ek özellikler.
+	 * @returns {HTMLAttributes<HTMLElement>} Öğeye uygulanacak özellikler.
+	 */
+	const getFileDragProps = useCallback(
+		(file: File, { onDragStart, onDragEnd, ...props }: HTMLAttributes<HTMLElement> = {}): HTMLAttributes<HTMLElement> => ({
+			...props,
+			draggable: isGrouped && !disabled,
+			onDragStart: composeHandlers((event: React.DragEvent<HTMLElement>) => {
+				if (!groupRef.current || disabled) return;
+
+				groupRef.current.setDraggedFile(zoneId, file);
+				// Firefox sürüklemeyi yalnızca veri eklendiğinde başlatır
+				event.dataTransfer.effectAllowed = "move";
+				event.dataTransfer.setData("text/plain", file.name);
+			}, onDragStart),
+			onDragEnd: composeHandlers(() => groupRef.current?.setDraggedFile(zoneId, null), onDragEnd),
+		}),
+		[isGrouped, disabled, zoneId],
+	);
+
+	// Dosya listesi öğeleri için işaretçi ve klavye ile sıralama
+	const { getItemProps: getSortableItemProps } = useSortable({ count: files.length, onMove: moveFile, disabled });
+
+	// Tüm dosyaları ve reddedilenleri temizler
+	const clear = useCallback(() => {
+		cancelValidation();
+		transformControllerRef.current.abort();
+		transformControllerRef.current = new AbortController();
+		updateFiles([], { type: "cleared", files: filesRef.current, rejections: [], warnings: [] });
+		setFileRejections([]);
+		setFileWarnings([]);
+		notifyPlugins(pluginsRef.current, (plugin) => plugin.onReset?.({ files: [], messages }), reportError);
+	}, [updateFiles, cancelValidation, messages, reportError]);
+
+	// Dosya seçme penceresini açar
+	const open = useCallback(() => {
+		if (!disabled) inputRef.current?.click();
+	}, [disabled]);
+
+	/**
+	 * Container odaktayken Enter veya Space ile dosya seçme penceresini açar.
+	 * Container içindeki öğelerden (örneğin silme butonları) gelen tuş olayları yok sayılır.
+	 * @param {React.KeyboardEvent<HTMLElement>} event - Olay nesnesi.
+	 */
+	const handleKeyDown = useCallback(
+		(event: React.KeyboardEvent<HTMLElement>) => {
+			if (event.target !== event.currentTarget || (event.key !== "Enter" && event.key !== " ")) return;
+			event.preventDefault();
+			open();
+		},
+		[open],
+	);
+
+	/**
+	 * Container'a tıklandığında dosya seçme penceresini açar.
+	 * Container içindeki etkileşimli öğelerden (örneğin silme butonları veya open ile tıklanan input) gelen tıklamalar yok sayılır.
+	 * @param {React.MouseEvent<HTMLElement>} event - Olay nesnesi.
+	 */
+	const handleRootClick = useCallback(
+		(event: React.MouseEvent<HTMLElement>) => {
+			const interactive = (event.target as Element).closest?.(INTERACTIVE_ELEMENTS);
+			if (interactive && interactive !== event.currentTarget) return;
+			open();
+		},
+		[open],
+	);
+
+	// Tıklama olayından sonra dosya seçilmez ise tarayıcının seçili dosyaları input'dan silmesini engeller.
+	const handleClick = useCallback(() => {
+		// onfocus olayını bileşen içi kontrol ile kapsülle
+		const handleFocus = () => {
+			setTimeout(() => {
+				if (inputRef.current?.files && inputRef.current.files.length === 0) addFileToInput(files);
+				document.body.onfocus = null; // Olay dinleyicisini kaldır
+			}, 100);
+		};
+
+		document.body.onfocus = handleFocus;
+	}, [files, addFileToInput]);
+
+	// Container özelliklerini döner, dosyalar container'a bırakılır ve container'a tıklandığında dosya seçme penceresi açılır
+	const getRootProps = useCallback(
+		({
+			onDragEnter,
+			onDragLeave,
+			onDragOver,
+			onDrop,
+			onClick,
+			onKeyDown,
+			onPaste,
+			style,
+			"aria-describedby": ariaDescribedBy,
+			...props
+		}: IDropzoneRootProps = {}): IDropzoneRootProps => ({
+			className: "dropzone-container",
+			role: "button",
+			tabIndex: disabled ? -1 : 0,
+			"aria-disabled": disabled || undefined,
+			"aria-describedby": ariaDescribedBy ? `${ariaDescribedBy} ${descriptionId}` : descriptionId,
+			...props,
+			style: { position: "relative", cursor: disabled ? undefined : "pointer", ...style },
+			onDragEnter: composeHandlers(handleDragEnter, onDragEnter),
+			onDragLeave: composeHandlers(handleDragLeave, onDragLeave),
+			onDragOver: composeHandlers(handleDragOver, onDragOver),
+			onDrop: composeHandlers(handleDrop, onDrop),
+			onClick: composeHandlers(handleRootClick, onClick),
+			onKeyDown: composeHandlers(handleKeyDown, onKeyDown),
+			onPaste: composeHandlers(pasteTarget === "container" ? handlePaste : undefined, onPaste),
+		}),
+		[
+			disabled,
+			descriptionId,
+			pasteTarget,
+			handleDragEnter,
+			handleDragLeave,
+			handleDragOver,
+			handleDrop,
+			handleRootClick,
+			handleKeyDown,
+			handlePaste,
+		],
+	);
+
+	// Container'ı açıklayan öğenin özelliklerini döner
+	const getDescriptionProps = useCallback(
+		(props: HTMLAttributes<HTMLElement> = {}): HTMLAttributes<HTMLElement> => ({ ...props, id: descriptionId }),
+		[descriptionId],
+	);
+
+	// Canlı bölgenin özelliklerini döner, bölge görsel olarak gizlidir
+	const getLiveRegionProps = useCallback(
+		({ style, ...props }: HTMLAttributes<HTMLDivElement> = {}): HTMLAttributes<HTMLDivElement> => ({
+			role: "status",
+			"aria-live": "polite",
+			"aria-atomic": true,
+			...props,
+			style: { ...VISUALLY_HIDDEN, ...style },
+			children: announcement,
+		}),
+		[announcement],
+	);
+
+	// Input özelliklerini döner, input görsel olarak gizlidir ve dosya seçme penceresi container veya open ile açılır
+	// Container role="button" ile etkileşimli olduğundan iç içe etkileşimli öğe oluşmaması için input sekme sırasından ve erişilebilirlik ağacından çıkarılır
+	const getInputProps = useCallback(
+		({ ref, style, onChange, onClick, ...props }: IDropzoneInputProps = {}): IDropzoneInputProps => ({
+			className: "dropzone-input",
+			tabIndex: -1,
+			"aria-hidden": true,
+			accept: acceptedFormats ? [...acceptedFormats, ...(expandArchives ? [".zip"] : [])].join(", ") : undefined,
+			type: "file",
+			multiple,
+			disabled,
+			name,
+			"aria-required": required || undefined,
+			...(directory ? { webkitdirectory: "" } : {}),
+			...props,
+			style: { ...VISUALLY_HIDDEN, ...style },
+			ref: mergeRefs(inputRef, ref),
+			onChange: composeHandlers(handleDrop, onChange),
+			onClick: composeHandlers(handleClick, onClick),
+		}),
+		[acceptedFormats, expandArchives, multiple, disabled, name, required, directory, handleDrop, handleClick],
+	);
+
+	// Input her zaman kabul edilmiş (kontrollü modda files prop'undaki) dosyaları yansıtır
+	useEffect(() => {
+		addFileToInput(files);
+	}, [files, inputRevision, addFileToInput]);
+
+	// Zorunlu alan boşsa input'un yerel kısıt doğrulaması file-required mesajıyla başarısız olur
+	const requiredError = useMemo(
+		() => (required && files.length === 0 ? validateFile({ validationCode: "file-required", condition: false, messages }) : null),
+		[required, files, messages],
+	);
+
+	useEffect(() => {
+		inputRef.current?.setCustomValidity(requiredError?.message ?? "");
+	}, [requiredError]);
+
+	// Form sıfırlandığında dosya listesi de temizlenir
+	useEffect(() => {
+		const form = inputRef.current?.form;
+		if (!form) return;
+
+		form.addEventListener("reset", clear);
+		return () => form.removeEventListener("reset", clear);
+	}, [clear]);
+
+	// Belge veya ref ile verilen öğeye yapıştırılan dosyalar dinlenir, container için getRootProps'taki onPaste kullanılır
+	useEffect(() => {
+		if (!pasteTarget || pasteTarget === "container") return;
+
+		const target = pasteTarget === "document" ? document.documentElement : pasteTarget.current;
+		target?.addEventListener("paste", handlePaste);
+		return () => target?.removeEventListener("paste", handlePaste);
+	}, [pasteTarget, handlePaste]);
+
+	// fullPage modunda sürükleme pencere üzerinde takip edilir ve sayfanın herhangi bir yerine bırakılan dosyalar eklenir.
+	// Container'a bırakılan dosyalar kendi işleyicisinde işlendiği (defaultPrevented) için tekrar eklenmez.
+	useEffect(() => {
+		if (!fullPage) return;
+
+		// Yalnızca dosya sürüklemeleri katmanı gösterir, sayfa içindeki metin veya bağlantı sürüklemeleri yok sayılır
+		const isFileDrag = (event: DragEvent) => Array.from(event.dataTransfer?.types ?? []).includes("Files");
+
+		const handleWindowDragEnter = (event: DragEvent) => {
+			if (!isFileDrag(event)) return;
+			pageDragDepthRef.current += 1;
+			if (pageDragDepthRef.current > 1) return;
+
+			evaluateDrag(event.dataTransfer);
+			setIsOverlayVisible(!disabled);
+		};
+		const handleWindowDragLeave = (event: DragEvent) => {
+			if (!isFileDrag(event)) return;
+			pageDragDepthRef.current = Math.max(0, pageDragDepthRef.current - 1);
+			if (pageDragDepthRef.current === 0) setIsOverlayVisible(false);
+		};
+		// Bırakmaya izin vermek ve tarayıcının dosyayı açmasını engellemek için dragover her zaman engellenir
+		const handleWindowDragOver = (event: DragEvent) => {
+			if (event.defaultPrevented) return;
+			event.preventDefault();
+			const isReject = evaluateDrag(event.dataTransfer);
+			if (event.dataTransfer) event.dataTransfer.dropEffect = isReject ? "none" : "copy";
+		};
+		const handleWindowDrop = (event: DragEvent) => {
+			pageDragDepthRef.current = 0;
+			setIsOverlayVisible(false);
+			if (event.defaultPrevented) return;
+			handleDrop(event);
+		};
+
+		window.addEventListener("dragenter", handleWindowDragEnter);
+		window.addEventListener("dragleave", handleWindowDragLeave);
+		window.addEventListener("dragover", handleWindowDragOver);
+		window.addEventListener("drop", handleWindowDrop);
+		return () => {
+			window.removeEventListener("dragenter", handleWindowDragEnter);
+			window.removeEventListener("dragleave", handleWindowDragLeave);
+			window.removeEventListener("dragover", handleWindowDragOver);
+			window.removeEventListener("drop", handleWindowDrop);
+			pageDragDepthRef.current = 0;
+			setIsOverlayVisible(false);
+		};
+	}, [fullPage, disabled, evaluateDrag, handleDrop]);
+
+	// Initial files setup
+	useEffect(() => {
+		if (initialFiles && initialFiles.length > 0) processFiles(initialFiles);
+	}, [initialFiles]);
+
+	// Saklanan taslak initialFiles ile aynı yoldan geri yüklenir
+	const clearDraft = usePersistedFiles({
+		files,
+		persistKey,
+		options: persistOptions,
+		onRestore: (restoredFiles) => processFilesRef.current(restoredFiles),
+	});
+
+	// Doğrulama mesajları veya kuralları değiştiğinde mevcut dosyaları yeniden doğrular
+	useEffect(() => {
+		const rejections = validator({
+			files,
+			maxFiles: validatorMaxFiles,
+			maxSize,
+			minSize,
+			rules,
+			maxTotalSize,
+			messages,
+			acceptedFormats,
+		});
+
+		// Sınır düştüğünde politikaya göre sınırı aşan dosyalar listeden çıkarılır
+		const rejectedFiles = new Set(rejections.map((rejection) => rejection.file));
+		const { files: acceptedFiles, replaced } = applyMaxFilesPolicy({
+			files: files.filter((file) => !rejectedFiles.has(file)),
+			acceptedFiles: files,
+			maxFiles: fileLimit,
+			policy: filesPolicy,
+			messages,
+		});
+		if (rejections.length === 0 && replaced.length === 0) return;
+
+		commitFiles(acceptedFiles, rejections, [], replaced);
+	}, [messages, fileLimit, filesPolicy, validatorMaxFiles, maxSize, minSize, rules, maxTotalSize, acceptedFormats]);
+
+	// Bölge gruba katılır, diğer bölgeler dosyalarını okuyabilir ve taşınan dosyayı silebilir
+	const registerZone = group?.register;
+	useEffect(
+		() => registerZone?.(zoneId, { getFiles: () => filesRef.current, removeFiles: (files) => removeFilesRef.current(files) }),
+		[registerZone, zoneId],
+	);
+
+	// Bölgenin dosyaları grubun birleşik state'ine işlenir
+	const setZoneFiles = group?.setZoneFiles;
+	useEffect(() => {
+		setZoneFiles?.(zoneId, files);
+	}, [setZoneFiles, zoneId, files]);
+
+	// Kabul edilen dosyaların yükleme durumu
+	const upload = useUpload(files, uploadOptions);
+
+	// Kabul edilen dosyaların önizlemeleri
+	const previews = usePreviews(files, previewOptions);
+
+	// Eklentilerin children render fonksiyonuna eklediği değerler
+	const pluginProps = getPluginRenderProps(plugins ?? [], { files, fileRejections }) as IPluginRenderProps<TPlugins>;
+
+	// Bileşen kaldırıldığında devam eden doğrulamayı iptal eder
+	useEffect(() => () => validationControllerRef.current?.abort(), []);
+
+	return {
+		getRootProps,
+		getInputProps,
+		getDescriptionProps,
+		getLiveRegionProps,
+		announcement,
+		inputRef,
+		isDragActive,
+		isDragAccept: isDragActive && !isDragReject,
+		isDragReject: isDragActive && isDragReject,
+		draggedItems,
+		isOverlayVisible,
+		isValidating,
+		files,
+		fileRejections,
+		fileWarnings,
+		requiredError,
+		open,
+		removeFiles,
+		clear,
+		moveFile,
+		reorder,
+		replaceFile,
+		getKey,
+		getSortableItemProps,
+		getFileDragProps,
+		clearDraft,
+		pluginProps,
+		upload,
+		previews,
+	};
+};
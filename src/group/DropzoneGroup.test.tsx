@@ -0,0 +1,109 @@
+import type { IDropzoneGroupState, IUseDropzoneOptions } from "@/Interfaces";
+import { useDropzone } from "@/dropzone/UseDropzone";
+import { DropzoneGroup } from "@/group/DropzoneGroup";
+import { useDropzoneGroup } from "@/group/UseDropzoneGroup";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { vi } from "vitest";
+
+// Belirtilen boyut, ad ve türde sahte bir dosya oluşturur
+const createFile = (size: number, name: string, type: string) => new File([new Array(size).fill("a").join("")], name, { type });
+
+/**
+ * Grup testleri, her bölge dosyalarını sürüklenebilir bir liste olarak gösterir.
+ */
+describe("DropzoneGroup", () => {
+	// Bölgenin reddetmelerinin test içinden okunabilmesi için son değerler
+	const rejections: Record<string, string[]> = {};
+
+	// Dosya listesi ve input içeren test bölgesi
+	const Zone = ({ zoneId, ...options }: IUseDropzoneOptions & { zoneId: string }) => {
+		const { getRootProps, getInputProps, files, fileRejections, getFileDragProps } = useDropzone({ zoneId, ...options });
+		rejections[zoneId] = fileRejections.map(({ file, error }) => `${file.name}:${error[0].code}`);
+
+		return (
+			<section {...getRootProps({ "data-testid": `${zoneId}-root` } as object)}>
+				<input {...getInputProps({ "data-testid": `${zoneId}-input` } as object)} />
+				<ul>
+					{files.map((file) => (
+						<li key={file.name} {...getFileDragProps(file)}>
+							{`${zoneId}/${file.name}`}
+						</li>
+					))}
+				</ul>
+			</section>
+		);
+	};
+
+	// Birleşik state'i gösteren bileşen
+	const Summary = () => {
+		const state = useDropzoneGroup();
+		return <output data-testid="summary">{`${state?.files.length} files, ${state?.totalSize} bytes`}</output>;
+	};
+
+	const add = (zoneId: string, ...files: File[]) =>
+		fireEvent.change(screen.getByTestId(`${zoneId}-input`), { target: { files } });
+
+	/**
+	 * Grup sınırları tüm bölgelerin dosyalarına birlikte uygulanır, aynı dosya iki bölgede bulunamaz.
+	 */
+	it("shares limits and rejects duplicates across zones", () => {
+		const onChange = vi.fn();
+		render(
+			<DropzoneGroup maxFiles={3} maxTotalSize={10} onChange={onChange}>
+				<Zone zoneId="invoice" />
+				<Zone zoneId="photos" />
+				<Summary />
+			</DropzoneGroup>,
+		);
+
+		add("invoice", createFile(4, "a.pdf", "application/pdf"));
+		add("photos", createFile(4, "a.pdf", "application/pdf"), createFile(4, "b.png", "image/png"));
+		expect(rejections.photos).toEqual(["a.pdf:file-duplicate"]);
+
+		add("photos", createFile(3, "c.png", "image/png"), createFile(1, "d.png", "image/png"));
+		expect(rejections.photos).toEqual(["c.png:total-size-too-large"]);
+
+		add("invoice", createFile(1, "e.pdf", "application/pdf"));
+		expect(rejections.invoice).toEqual(["e.pdf:too-many-files"]);
+
+		expect(screen.getByTestId("summary")).toHaveTextContent("3 files, 9 bytes");
+		const state: IDropzoneGroupState = onChange.mock.lastCall?.[0];
+		expect(
+			Object.fromEntries(Object.entries(state.zones).map(([zone, files]) => [zone, files.map((file) => file.name)])),
+		).toEqual({
+			invoice: ["a.pdf"],
+			photos: ["b.png", "d.png"],
+		});
+	});
+
+	/**
+	 * Kabul edilmiş dosya başka bir bölgeye sürüklenir ve hedef bölgenin kurallarıyla yeniden doğrulanır.
+	 */
+	it("moves accepted files between zones", () => {
+		render(
+			<DropzoneGroup>
+				<Zone zoneId="documents" />
+				<Zone zoneId="photos" acceptedFormats={["image/"]} />
+			</DropzoneGroup>,
+		);
+		add("documents", createFile(1, "a.png", "image/png"), createFile(1, "b.pdf", "application/pdf"));
+
+		const move = (name: string) => {
+			const item = screen.getByText(`documents/${name}`);
+			expect(item).toHaveAttribute("draggable", "true");
+			fireEvent.dragStart(item, { dataTransfer: { setData: vi.fn() } });
+			fireEvent.dragOver(screen.getByTestId("photos-input"), { dataTransfer: {} });
+			fireEvent.drop(screen.getByTestId("photos-input"), { dataTransfer: { files: [] } });
+			fireEvent.dragEnd(item);
+		};
+
+		move("b.pdf");
+		expect(rejections.photos).toEqual(["b.pdf:file-invalid-type"]);
+		expect(screen.getByText("documents/b.pdf")).toBeInTheDocument();
+
+		move("a.png");
+		expect(screen.queryByText("documents/a.png")).not.toBeInTheDocument();
+		expect(screen.getByText("photos/a.png")).toBeInTheDocument();
+		expect(rejections.photos).toEqual([]);
+	});
+});
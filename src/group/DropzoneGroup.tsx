@@ -0,0 +1,117 @@
+import type { IDropzoneGroup, IDropzoneGroupContext, IDropzoneGroupZone } from "@/Interfaces";
+import { createContext, useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+// Gruba katılan Dropzone'ların ortak context'i, grup dışında null'dır
+export const DropzoneGroupContext = createContext<IDropzoneGroupContext | null>(null);
+
+/**
+ * İçindeki Dropzone'ları tek bir grupta toplayan context sağlayıcı.
+ * Bölgelerin kabul edilmiş dosyaları birleştirilir, dosya sayısı ve toplam boyut sınırları tüm bölgeler için birlikte uygulanır
+ * ve aynı dosya iki bölgede bulunamaz. Kabul edilmiş bir dosya getFileDragProps ile başka bir bölgeye sürüklenebilir,
+ * dosya hedef bölgenin kurallarıyla yeniden doğrulanır ve kabul edilirse kaynak bölgeden silinir.
+ *
+ * @param {IDropzoneGroup} props - Grup sınırları ve gruba katılan Dropzone'lar.
+ * @param {number} [props.maxFiles] - Tüm bölgelerde birlikte kabul edilebilecek en fazla dosya sayısı.
+ * @param {number} [props.maxTotalSize] - Tüm bölgelerdeki dosyaların toplam boyutu üst sınırı (byte cinsinden).
+ * @param {(state: IDropzoneGroupState) => void} [props.onChange] - Birleşik state değiştiğinde tetiklenen callback.
+ * @returns {JSX.Element} Context sağlayıcı.
+ */
+export const DropzoneGroup = ({ maxFiles, maxTotalSize, onChange, children }: IDropzoneGroup) => {
+	// Bölgelerin güncel dosyalarına ve aksiyonlarına erişim, Map katılma sırasını korur
+	const zonesRef = useRef(new Map<string, IDropzoneGroupZone>());
+	const [zoneFiles, setZoneFileList] = useState<Record<string, File[]>>({});
+
+	// Sürüklenmekte olan dosya ve hedef bölgeye bırakılıp doğrulanmayı bekleyen dosya
+	const dragRef = useRef<{ zoneId: string; file: File } | null>(null);
+	const moveRef = useRef<{ zoneId: string; targetId: string; file: File } | null>(null);
+
+	const register = useCallback((zoneId: string, zone: IDropzoneGroupZone) => {
+		zonesRef.current.set(zoneId, zone);
+		return () => {
+			zonesRef.current.delete(zoneId);
+			setZoneFileList(({ [zoneId]: _removed, ...rest }) => rest);
+		};
+	}, []);
+
+	const setZoneFiles = useCallback(
+		(zoneId: string, files: File[]) => setZoneFileList((prev) => (prev[zoneId] === files ? prev : { ...prev, [zoneId]: files })),
+		[],
+	);
+
+	// Taşınan dosya hedef bölgede doğrulanırken kaynak bölgedeki kopyası tekrar eden dosya sayılmaz
+	const getOtherFiles = useCallback(
+		(zoneId: string) =>
+			Array.from(zonesRef.current)
+				.flatMap(([id, zone]) => (id === zoneId ? [] : zone.getFiles()))
+				.filter((file) => file !== moveRef.current?.file),
+		[],
+	);
+
+	const getDraggedFile = useCallback((zoneId: string) => {
+		const drag = dragRef.current;
+		return drag && drag.zoneId !== zoneId ? drag.file : null;
+	}, []);
+
+	// Sürükleme bittiğinde yalnızca bölgenin kendi başlattığı sürükleme temizlenir
+	const setDraggedFile = useCallback((zoneId: string, file: File | null) => {
+		if (file) dragRef.current = { zoneId, file };
+		else if (dragRef.current?.zoneId === zoneId) dragRef.current = null;
+	}, []);
+
+	const beginMove = useCallback((targetId: string) => {
+		const drag = dragRef.current;
+		if (!drag || drag.zoneId === targetId) return null;
+
+		dragRef.current = null;
+		moveRef.current = { ...drag, targetId };
+		return drag.file;
+	}, []);
+
+	// Taşınan dosya hedef bölgede reddedilirse kaynak bölgede kalır
+	const completeMove = useCallback((zoneId: string, addedFiles: File[]) => {
+		const move = moveRef.current;
+		if (move?.targetId !== zoneId) return;
+
+		moveRef.current = null;
+		if (addedFiles.includes(move.file)) zonesRef.current.get(move.zoneId)?.removeFiles([move.file]);
+	}, []);
+
+	// Bölgelerin dosyalarından hesaplanan birleşik state
+	const state = useMemo(() => {
+		const files = Object.values(zoneFiles).flat();
+		return { files, zones: zoneFiles, totalSize: files.reduce((total, file) => total + file.size, 0) };
+	}, [zoneFiles]);
+
+	useEffect(() => {
+		onChange?.(state);
+	}, [state]);
+
+	const value = useMemo(
+		() => ({
+			maxFiles,
+			maxTotalSize,
+			state,
+			register,
+			setZoneFiles,
+			getOtherFiles,
+			getDraggedFile,
+			setDraggedFile,
+			beginMove,
+			completeMove,
+		}),
+		[
+			maxFiles,
+			maxTotalSize,
+			state,
+			register,
+			setZoneFiles,
+			getOtherFiles,
+			getDraggedFile,
+			setDraggedFile,
+			beginMove,
+			completeMove,
+		],
+	);
+
+	return <DropzoneGroupContext.Provider value={value}>{children}</DropzoneGroupContext.Provider>;
+};
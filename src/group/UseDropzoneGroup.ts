@@ -0,0 +1,10 @@
+import type { IDropzoneGroupState } from "@/Interfaces";
+import { DropzoneGroupContext } from "@/group/DropzoneGroup";
+import { useContext } from "react";
+
+/**
+ * En yakın DropzoneGroup'un birleşik state'ini (tüm dosyalar, bölgelerin dosyaları ve toplam boyut) döner.
+ *
+ * @returns {IDropzoneGroupState | null} Birleşik state, grup dışında null.
+ */
+export const useDropzoneGroup = (): IDropzoneGroupState | null => useContext(DropzoneGroupContext)?.state ?? null;
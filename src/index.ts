@@ -1,2 +1,87 @@
+export { DropzoneErrorCode, UploadAbortReason } from "@/Enums";
 export { Dropzone } from "@/dropzone/Dropzone";
-export type { IFileError, IFileErrorTypes, IFileRejection } from "@/Interfaces";
+export { DropzoneField, getFieldError } from "@/dropzone/DropzoneField";
+export { useDropzone } from "@/dropzone/UseDropzone";
+export { DropzoneGroup } from "@/group/DropzoneGroup";
+export { useDropzoneGroup } from "@/group/UseDropzoneGroup";
+export { formatBytes, getLocaleMessages, registerLocale, renderMessage } from "@/locale/Locale";
+export { createIndexedDbDraftStorage, createMemoryDraftStorage } from "@/persist/DraftStorage";
+export { createDuplicatePlugin, createValidationPlugin } from "@/plugins/BuiltinPlugins";
+export { createThumbnail, getFileIconType } from "@/preview/Thumbnail";
+export { usePreviews } from "@/preview/UsePreviews";
+export { useSortable } from "@/sortable/UseSortable";
+export { createImageTransformer, readExifOrientation } from "@/transform/ImageTransformer";
+export { getOriginalFile } from "@/transform/TransformFiles";
+export { createTusRequest, defaultFingerprint } from "@/upload/TusRequest";
+export { createUploadQueue } from "@/upload/UploadQueue";
+export { useUpload } from "@/upload/UseUpload";
+export { createXhrRequest } from "@/upload/XhrRequest";
+export { getRelativePath } from "@/utils/CollectFiles";
+export { getFileKey } from "@/utils/FileKey";
+export { detectFileType, FILE_SIGNATURES } from "@/validator/ContentValidator";
+export { validateFiles } from "@/validator/DescriptorValidator";
+export type {
+	IAnnouncementTypes,
+	IArchiveOptions,
+	IDropzone,
+	IDropzoneField,
+	IDropzoneFieldError,
+	IDropzoneGroup,
+	IDropzoneGroupState,
+	IDropzoneInputProps,
+	IDropzonePlugin,
+	IDropzoneRenderProps,
+	IDirectoryOptions,
+	IDraft,
+	IDraftFile,
+	IDraftStorage,
+	IDropzoneRootProps,
+	IDuplicateStrategy,
+	IFileError,
+	IFileErrorDetails,
+	IFileErrorMessage,
+	IFileErrorSeverity,
+	IFileErrorTypes,
+	IFileIconType,
+	IFilePreview,
+	IFileRejection,
+	IFilesChangeMeta,
+	IFilesChangeType,
+	IFileSignature,
+	IFileTransformer,
+	IFileTypeRule,
+	IFileTypeRules,
+	IFileValidator,
+	IFileValidatorContext,
+	IFileValidatorResult,
+	IFileDescriptor,
+	IFileInfo,
+	IFileSource,
+	IFileWithPath,
+	IImageOutputFormat,
+	IImageTransformOptions,
+	ILocaleMessages,
+	IMaxFilesPolicy,
+	IMessageParams,
+	IMessageTemplate,
+	IPasteTarget,
+	IPluginContext,
+	IPluginRenderProps,
+	IPluginRenderState,
+	IPluginValidateContext,
+	IPluginValidation,
+	IPersistOptions,
+	ITusOptions,
+	ITusUrlStorage,
+	IPreviewOptions,
+	ISortableItemProps,
+	IUploadItem,
+	IUploadOptions,
+	IUploadRequest,
+	IUploadRequestContext,
+	IUploadState,
+	IUploadStatus,
+	IUseDropzoneOptions,
+	IUseDropzoneReturn,
+	IValidationSchema,
+} from "@/Interfaces";
@@ -0,0 +1,65 @@
+import type { IAnnouncementTypes, IFileErrorTypes, IMessageTemplate } from "@/Interfaces";
+
+// Türkçe doğrulama mesajları (varsayılan dil)
+export const tr = {
+	"file-invalid-type": "Geçersiz dosya türü. Sadece şu türler destekleniyor: {acceptedFormats}.",
+	"file-too-large": "Dosya boyutu çok büyük.",
+	"file-too-small": "Dosya boyutu çok küçük.",
+	"too-many-files": "Maksimum dosya sayısını aştınız. En fazla {limit} dosya yükleyebilirsiniz.",
+	"image-width-too-small": "Görsel genişliği çok küçük. En az {limit}px olmalıdır.",
+	"image-width-too-large": "Görsel genişliği çok büyük. En fazla {limit}px olabilir.",
+	"image-height-too-small": "Görsel yüksekliği çok küçük. En az {limit}px olmalıdır.",
+	"image-height-too-large": "Görsel yüksekliği çok büyük. En fazla {limit}px olabilir.",
+	"image-invalid-aspect-ratio": "Görselin en-boy oranı geçersiz. Beklenen oran: {formattedLimit}.",
+	"media-too-short": "Medya süresi çok kısa. En az {limit} saniye olmalıdır.",
+	"media-too-long": "Medya süresi çok uzun. En fazla {limit} saniye olabilir.",
+	"file-content-mismatch": "Dosya içeriği türüyle uyuşmuyor. Bildirilen tür: {declared}, tespit edilen tür: {detected}.",
+	"file-duplicate": "{name} dosyası zaten eklendi.",
+	"file-required": "Lütfen en az bir dosya seçin.",
+	"too-many-files-of-type": "{rule} türünde en fazla {limit} dosya yükleyebilirsiniz.",
+	"total-size-too-large": "Toplam dosya boyutu çok büyük. En fazla {formattedLimit} yükleyebilirsiniz.",
+	"archive-invalid": "{name} arşivi bozuk veya desteklenmeyen bir biçimde.",
+	"archive-too-large": "{name} arşivi açılamadı, arşivin içeriği izin verilen sınırı aşıyor.",
+	"file-validation-failed": "{name} dosyası doğrulanamadı. Lütfen tekrar deneyin.",
+	"files-added": "{count} dosya eklendi: {files}.",
+	"files-removed": "{count} dosya kaldırıldı: {files}.",
+	"files-rejected": "{count} dosya reddedildi. {errors}",
+	"files-cleared": "Tüm dosyalar kaldırıldı.",
+	"file-moved": "{name} dosyası {position}. sıraya taşındı, toplam {count} dosya.",
+	"files-reordered": "Dosyaların sırası değiştirildi.",
+} satisfies Record<IFileErrorTypes | IAnnouncementTypes, IMessageTemplate>;
+
+// İngilizce doğrulama mesajları
+export const en = {
+	"file-invalid-type": "Invalid file type. Only the following types are supported: {acceptedFormats}.",
+	"file-too-large": ({ name, formattedLimit }) => `${name} is too large. The maximum file size is ${formattedLimit}.`,
+	"file-too-small": ({ name, formattedLimit }) => `${name} is too small. The minimum file size is ${formattedLimit}.`,
+	"too-many-files": ({ limit }) => `Too many files. You can upload at most ${limit} ${limit === 1 ? "file" : "files"}.`,
+	"image-width-too-small": "Image width is too small. It must be at least {limit}px.",
+	"image-width-too-large": "Image width is too large. It can be at most {limit}px.",
+	"image-height-too-small": "Image height is too small. It must be at least {limit}px.",
+	"image-height-too-large": "Image height is too large. It can be at most {limit}px.",
+	"image-invalid-aspect-ratio": "Invalid image aspect ratio. Expected ratio: {formattedLimit}.",
+	"media-too-short": "Media is too short. It must be at least {limit} seconds long.",
+	"media-too-long": "Media is too long. It can be at most {limit} seconds long.",
+	"file-content-mismatch": "File content does not match its type. Declared type: {declared}, detected type: {detected}.",
+	"file-duplicate": "{name} has already been added.",
+	"file-required": "Please select at least one file.",
+	"too-many-files-of-type": ({ rule, limit }) =>
+		`You can upload at most ${limit} ${limit === 1 ? "file" : "files"} of type ${rule}.`,
+	"total-size-too-large": "The total file size is too large. You can upload at most {formattedLimit}.",
+	"archive-invalid": "{name} is corrupt or not a supported ZIP archive.",
+	"archive-too-large": ({ name, archiveLimit, formattedLimit }) =>
+		archiveLimit === "entries"
+			? `${name} contains too many files. Archives can contain at most ${formattedLimit} files.`
+			: archiveLimit === "ratio"
+				? `${name} is compressed too heavily to be extracted safely.`
+				: `${name} is too large to extract. The maximum extracted size is ${formattedLimit}.`,
+	"file-validation-failed": "{name} could not be validated. Please try again.",
+	"files-added": ({ count, files }) => `${count} ${count === 1 ? "file" : "files"} added: ${files}.`,
+	"files-removed": ({ count, files }) => `${count} ${count === 1 ? "file" : "files"} removed: ${files}.`,
+	"files-rejected": ({ count, errors }) => `${count} ${count === 1 ? "file" : "files"} rejected. ${errors}`,
+	"files-cleared": "All files removed.",
+	"file-moved": "{name} moved to position {position} of {count}.",
+	"files-reordered": "Files reordered.",
+} satisfies Record<IFileErrorTypes | IAnnouncementTypes, IMessageTemplate>;
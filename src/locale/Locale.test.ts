@@ -0,0 +1,59 @@
+import { createMessages, formatBytes, getLocaleMessages, registerLocale, renderMessage } from "@/locale/Locale";
+
+/**
+ * Dil kataloğu ve mesaj şablonu testleri
+ */
+describe("Locale", () => {
+	/**
+	 * Boyutlar 1024'ün katlarıyla uygun birime çevrilir ve dile göre biçimlendirilir.
+	 */
+	it("should format byte sizes", () => {
+		expect(formatBytes(0)).toBe("0 B");
+		expect(formatBytes(5 * 1024 * 1024, "en")).toBe("5 MB");
+		expect(formatBytes(1536, "en")).toBe("1.5 KB");
+		expect(formatBytes(1536, "tr")).toBe("1,5 KB");
+	});
+
+	/**
+	 * Metin şablonları ve fonksiyonlar aynı parametrelerle doldurulur, limit ve actual biçimlendirilmiş halleriyle iletilir.
+	 */
+	it("should render templates and functions with structured params", () => {
+		const params = { name: "photo.png", limit: 5 * 1024 * 1024, actual: 7 * 1024 * 1024, unit: "bytes" as const };
+
+		expect(renderMessage("{name}: {formattedActual} > {formattedLimit} ({missing})", params, "en")).toBe(
+			"photo.png: 7 MB > 5 MB ({missing})",
+		);
+		expect(renderMessage(({ name, limit }) => `${name} ${limit}`, params)).toBe(`photo.png ${5 * 1024 * 1024}`);
+		expect(renderMessage("{acceptedFormats}", { acceptedFormats: ["image/png", ".pdf"] })).toBe("image/png, .pdf");
+	});
+
+	/**
+	 * Kaydedilen dillerin eksik mesajları ana dilden ve İngilizceden tamamlanır.
+	 */
+	it("should register locales with fallbacks", () => {
+		registerLocale("de", { "file-too-large": "Die Datei {name} ist zu groß." });
+		registerLocale("de-AT", { "file-duplicate": "{name} wurde bereits hinzugefügt." });
+		registerLocale("tr", { "sku-mismatch": "Stok kodu uyuşmuyor." });
+
+		const messages = getLocaleMessages("de-AT");
+		expect(messages["file-duplicate"]).toBe("{name} wurde bereits hinzugefügt.");
+		expect(messages["file-too-large"]).toBe("Die Datei {name} ist zu groß.");
+		expect(messages["file-required"]).toBe("Please select at least one file.");
+		expect(getLocaleMessages("tr")["sku-mismatch"]).toBe("Stok kodu uyuşmuyor.");
+		expect(getLocaleMessages("tr")["file-required"]).toBe("Lütfen en az bir dosya seçin.");
+	});
+
+	/**
+	 * Kullanıcı mesajları katalogdaki aynı kodlu mesajların yerine geçer.
+	 */
+	it("should override catalog messages", () => {
+		const messages = createMessages("en", [{ code: "file-too-small", message: "Too small" }]);
+
+		expect(messages.find((message) => message.code === "file-too-small")).toEqual({
+			code: "file-too-small",
+			message: "Too small",
+			locale: "en",
+		});
+		expect(messages.find((message) => message.code === "file-duplicate")?.message).toBe("{name} has already been added.");
+	});
+});
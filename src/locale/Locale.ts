@@ -0,0 +1,92 @@
+import type { IFileErrorMessage, ILocaleMessages, IMessageParams, IMessageTemplate } from "@/Interfaces";
+import { en, tr } from "@/locale/Catalogs";
+
+// Kayıtlı dil katalogları, registerLocale ile yeni diller eklenebilir
+const catalogs = new Map<string, ILocaleMessages>([
+	["tr", tr],
+	["en", en],
+]);
+
+// Bayt birimleri, 1024'ün katları olarak
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+/**
+ * Dil kataloğu kaydeder, dil zaten kayıtlıysa verilen mesajlar mevcut mesajların üzerine eklenir.
+ * Böylece yerleşik dillere özel doğrulayıcıların hata kodları için mesaj eklenebilir.
+ *
+ * @param {string} locale - Dil kodu (örneğin "de" veya "pt-BR")
+ * @param {ILocaleMessages} messages - Hata koduna göre mesaj şablonları
+ */
+export const registerLocale = (locale: string, messages: ILocaleMessages) => {
+	catalogs.set(locale, { ...catalogs.get(locale), ...messages });
+};
+
+/**
+ * Dilin mesajlarını döner. Eksik mesajlar önce ana dilden ("pt-BR" için "pt"), sonra İngilizceden tamamlanır.
+ *
+ * @param {string} locale - Dil kodu
+ * @returns {ILocaleMessages} - Hata koduna göre mesaj şablonları
+ */
+export const getLocaleMessages = (locale: string): ILocaleMessages => ({
+	...catalogs.get("en"),
+	...catalogs.get(locale.split("-")[0]),
+	...catalogs.get(locale),
+});
+
+/**
+ * Bayt cinsinden boyutu okunabilir biçime çevirir (örneğin 5242880 -> "5 MB").
+ *
+ * @param {number} bytes - Boyut (byte cinsinden)
+ * @param {string} [locale] - Sayı biçimlendirmesinde kullanılan dil kodu
+ * @returns {string} - Biçimlendirilmiş boyut
+ */
+export const formatBytes = (bytes: number, locale?: string) => {
+	const exponent = Math.min(BYTE_UNITS.length - 1, bytes > 0 ? Math.floor(Math.log(bytes) / Math.log(1024)) : 0);
+	const value = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(bytes / 1024 ** exponent);
+	return `${value} ${BYTE_UNITS[exponent]}`;
+};
+
+/**
+ * Mesaj şablonunu parametrelerle doldurur. limit ve actual değerlerinin biçimlendirilmiş halleri
+ * formattedLimit ve formattedActual olarak eklenir, boyutlar bayt birimiyle biçimlendirilir.
+ * Metin şablonlarındaki {param} yer tutucuları doldurulur, listeler virgülle birleştirilir.
+ *
+ * @param {IMessageTemplate} template - Metin şablonu veya mesaj fonksiyonu
+ * @param {IMessageParams} params - Şablon parametreleri
+ * @param {string} [locale] - Sayı ve boyut biçimlendirmesinde kullanılan dil kodu
+ * @returns {string} - Mesaj
+ */
+export const renderMessage = (template: IMessageTemplate, params: IMessageParams, locale?: string) => {
+	const format = (value: IMessageParams["actual"]) => {
+		if (typeof value !== "number") return value;
+		if (params.unit === "bytes") return formatBytes(value, locale);
+		return new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value);
+	};
+	const values: IMessageParams = {
+		formattedLimit: format(params.limit),
+		formattedActual: format(params.actual),
+		...params,
+	};
+
+	if (typeof template === "function") return template(values);
+	return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+		const value = values[key];
+		if (value === undefined) return match;
+		return Array.isArray(value) ? value.join(", ") : String(value);
+	});
+};
+
+/**
+ * Dilin mesajlarını ve kullanıcının verdiği mesajları doğrulayıcıların kullandığı mesaj listesine çevirir.
+ * Kullanıcı mesajları katalogdaki aynı kodlu mesajların yerine geçer.
+ *
+ * @param {string} locale - Dil kodu
+ * @param {IFileErrorMessage[]} [overrides] - Kullanıcının verdiği mesajlar
+ * @returns {IFileErrorMessage[]} - Dil koduyla işaretlenmiş mesaj listesi
+ */
+export const createMessages = (locale: string, overrides: IFileErrorMessage[] = []): IFileErrorMessage[] => {
+	const messages: ILocaleMessages = { ...getLocaleMessages(locale) };
+	for (const { code, message } of overrides) messages[code] = message;
+
+	return Object.entries(messages).flatMap(([code, message]) => (message ? [{ code, message, locale }] : []));
+};
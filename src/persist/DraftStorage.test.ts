@@ -0,0 +1,54 @@
+import { createDraft, createMemoryDraftStorage, readDraft } from "@/persist/DraftStorage";
+import { getRelativePath, withRelativePath } from "@/utils/CollectFiles";
+import { readAsArrayBuffer } from "@/utils/ReadFile";
+
+/**
+ * Taslak oluşturma ve okuma testleri
+ */
+describe("drafts", () => {
+	const createFile = (name: string, content: string) => new File([content], name, { type: "text/plain", lastModified: 42 });
+
+	/**
+	 * Taslak dosyaların içeriğini, adını, türünü, tarihini ve göreli yolunu korur, boyut sınırını aşan dosyalar atlanır.
+	 */
+	it("should create a draft within the size cap and restore the files", async () => {
+		const files = [
+			withRelativePath(createFile("a.txt", "aaaa"), "docs/a.txt"),
+			createFile("b.txt", "bbbbbb"),
+			createFile("c.txt", "c"),
+		];
+
+		const draft = createDraft(files, 5);
+		expect(draft.files.map((file) => file.name)).toEqual(["a.txt", "c.txt"]);
+
+		const restored = readDraft(draft);
+		expect(restored.map(getRelativePath)).toEqual(["docs/a.txt", "c.txt"]);
+		expect(restored[0]).toMatchObject({ name: "a.txt", type: "text/plain", lastModified: 42 });
+		expect(new TextDecoder().decode(await readAsArrayBuffer(restored[0]))).toBe("aaaa");
+		expect(restored[1].relativePath).toBeUndefined();
+	});
+
+	/**
+	 * Süresi dolmuş taslaklar geri yüklenmez.
+	 */
+	it("should ignore expired drafts", () => {
+		const draft = { ...createDraft([createFile("a.txt", "a")]), savedAt: Date.now() - 2000 };
+
+		expect(readDraft(draft, 1000)).toEqual([]);
+		expect(readDraft(draft, 5000)).toHaveLength(1);
+		expect(readDraft(null)).toEqual([]);
+	});
+
+	/**
+	 * Bellek içi depolama taslakları anahtarla saklar ve siler.
+	 */
+	it("should store drafts in memory", () => {
+		const storage = createMemoryDraftStorage();
+		const draft = createDraft([createFile("a.txt", "a")]);
+
+		storage.setItem("form", draft);
+		expect(storage.getItem("form")).toBe(draft);
+		storage.removeItem("form");
+		expect(storage.getItem("form")).toBeNull();
+	});
+});
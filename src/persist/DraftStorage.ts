@@ -0,0 +1,129 @@
+import type { IDraft, IDraftStorage, IFileWithPath } from "@/Interfaces";
+import { withRelativePath } from "@/utils/CollectFiles";
+
+// Varsayılan taslak boyutu üst sınırı (50 MB)
+export const DEFAULT_DRAFT_MAX_SIZE = 50 * 1024 * 1024;
+
+// Varsayılan taslak geçerlilik süresi (24 saat)
+export const DEFAULT_DRAFT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * IndexedDB isteğinin sonucunu Promise olarak döner.
+ *
+ * @param {IDBRequest<T>} request - IndexedDB isteği
+ * @returns {Promise<T>} - İsteğin sonucu
+ */
+const toPromise = <T>(request: IDBRequest<T>) =>
+	new Promise<T>((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+/**
+ * Taslakları IndexedDB'de saklayan depolama oluşturur, dosya içerikleri Blob olarak saklanır.
+ * Veritabanı ilk kullanımda açılır ve sonraki işlemlerde tekrar kullanılır.
+ *
+ * @param {Object} [params] - Parametreler
+ * @param {string} [params.databaseName="react-dropzone-kit"] - Veritabanı adı
+ * @param {string} [params.storeName="drafts"] - Taslakların saklandığı nesne deposunun adı
+ * @returns {IDraftStorage} - Taslak depolaması
+ */
+export const createIndexedDbDraftStorage = ({
+	databaseName = "react-dropzone-kit",
+	storeName = "drafts",
+}: { databaseName?: string; storeName?: string } = {}): IDraftStorage => {
+	let database: Promise<IDBDatabase> | null = null;
+
+	// Veritabanını açar, nesne deposu yoksa oluşturur
+	const open = () => {
+		if (database) return database;
+
+		const request = indexedDB.open(databaseName, 1);
+		request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+		database = toPromise(request);
+		return database;
+	};
+
+	/**
+	 * Nesne deposunda bir işlem çalıştırır.
+	 * @param {IDBTransactionMode} mode - İşlem modu
+	 * @param {(store: IDBObjectStore) => IDBRequest<T>} operation - Çalıştırılacak işlem
+	 * @returns {Promise<T>} - İşlemin sonucu
+	 */
+	const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+		const db = await open();
+		return toPromise(operation(db.transaction(storeName, mode).objectStore(storeName)));
+	};
+
+	return {
+		getItem: async (key) => (await run<IDraft | undefined>("readonly", (store) => store.get(key))) ?? null,
+		setItem: async (key, draft) => {
+			await run("readwrite", (store) => store.put(draft, key));
+		},
+		removeItem: async (key) => {
+			await run("readwrite", (store) => store.delete(key));
+		},
+	};
+};
+
+/**
+ * Taslakları bellekte saklayan depolama oluşturur, testlerde ve IndexedDB bulunmayan ortamlarda kullanılır.
+ *
+ * @returns {IDraftStorage} - Taslak depolaması
+ */
+export const createMemoryDraftStorage = (): IDraftStorage => {
+	const drafts = new Map<string, IDraft>();
+	return {
+		getItem: (key) => drafts.get(key) ?? null,
+		setItem: (key, draft) => {
+			drafts.set(key, draft);
+		},
+		removeItem: (key) => {
+			drafts.delete(key);
+		},
+	};
+};
+
+/**
+ * Dosyalardan taslak oluşturur, dosyalar sırayla eklenir ve boyut sınırını aşacak dosyalar atlanır.
+ *
+ * @param {File[]} files - Kabul edilmiş dosyalar
+ * @param {number} [maxSize] - Taslaktaki dosyaların toplam boyutu üst sınırı (byte cinsinden)
+ * @returns {IDraft} - Taslak
+ */
+export const createDraft = (files: File[], maxSize = DEFAULT_DRAFT_MAX_SIZE): IDraft => {
+	let totalSize = 0;
+	const draftFiles = files.flatMap((file) => {
+		if (totalSize + file.size > maxSize) return [];
+		totalSize += file.size;
+
+		const { relativePath } = file as IFileWithPath;
+		return [
+			{
+				blob: file,
+				name: file.name,
+				type: file.type,
+				lastModified: file.lastModified,
+				...(relativePath ? { relativePath } : {}),
+			},
+		];
+	});
+
+	return { files: draftFiles, savedAt: Date.now() };
+};
+
+/**
+ * Taslaktaki dosyaları File nesnelerine dönüştürür, süresi dolmuş taslaklar için boş liste döner.
+ *
+ * @param {IDraft | null} draft - Taslak
+ * @param {number} [maxAge] - Taslağın geçerlilik süresi (milisaniye cinsinden)
+ * @returns {IFileWithPath[]} - Dosyalar
+ */
+export const readDraft = (draft: IDraft | null, maxAge = DEFAULT_DRAFT_MAX_AGE): IFileWithPath[] => {
+	if (!draft || Date.now() - draft.savedAt > maxAge) return [];
+
+	return draft.files.map(({ blob, name, type, lastModified, relativePath }) => {
+		const file = new File([blob], name, { type, lastModified });
+		return relativePath ? withRelativePath(file, relativePath) : file;
+	});
+};
@@ -0,0 +1,104 @@
+import type { IPersistOptions } from "@/Interfaces";
+import { createDraft, createIndexedDbDraftStorage, createMemoryDraftStorage, readDraft } from "@/persist/DraftStorage";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+/**
+ * Kabul edilen dosyaları sayfa yenilemelerine karşı taslak olarak saklayan hook.
+ * Anahtar verildiğinde saklanan taslak geri yüklenir, geri yüklenen dosyalar listeye işlendikten sonra her liste değişikliği taslağa yazılır.
+ * Böylece geri yüklenen dosyalar asenkron doğrulamadayken taslak boş listeyle silinmez.
+ * Süresi dolmuş taslaklar geri yüklenmez ve silinir, liste boşaldığında taslak silinir.
+ *
+ * @param {Object} params - Parametreler
+ * @param {File[]} params.files - Kabul edilmiş dosyalar
+ * @param {string} [params.persistKey] - Taslağın anahtarı, verilmezse taslak saklanmaz
+ * @param {IPersistOptions} [params.options] - Taslak saklama seçenekleri
+ * @param {(files: File[]) => void} params.onRestore - Taslaktaki dosyalarla çağrılır
+ * @returns Taslağı silen fonksiyon
+ */
+export const usePersistedFiles = ({
+	files,
+	persistKey,
+	options = {},
+	onRestore,
+}: {
+	files: File[];
+	persistKey?: string;
+	options?: IPersistOptions;
+	onRestore: (files: File[]) => void;
+}) => {
+	const { storage: customStorage, maxSize, maxAge } = options;
+
+	// Depolama verilmezse IndexedDB, IndexedDB bulunmayan ortamlarda bellek kullanılır
+	const storage = useMemo(
+		() => customStorage ?? (typeof indexedDB !== "undefined" ? createIndexedDbDraftStorage() : createMemoryDraftStorage()),
+		[customStorage],
+	);
+
+	// Taslağı geri yüklenen anahtar, geri yükleme tamamlanmadan liste taslağın üzerine yazılmaz
+	const [restoredKey, setRestoredKey] = useState<string | null>(null);
+
+	// Geri yüklenen dosyaların işlenmesi beklenen anahtar ve geri yükleme anındaki liste
+	const pendingRestoreRef = useRef<{ key: string; files: File[] } | null>(null);
+
+	// Geri yükleme callback'i her render'da yeniden oluşturulabildiği için ref üzerinden okunur
+	const onRestoreRef = useRef(onRestore);
+	onRestoreRef.current = onRestore;
+	const filesRef = useRef(files);
+	filesRef.current = files;
+
+	// maxAge yalnızca geri yükleme anında okunur, değiştiğinde taslak tekrar geri yüklenmesin diye ref üzerinden okunur
+	const maxAgeRef = useRef(maxAge);
+	maxAgeRef.current = maxAge;
+
+	// Anahtar verildiğinde veya değiştiğinde taslağı geri yükler
+	useEffect(() => {
+		if (!persistKey) return;
+		let cancelled = false;
+
+		Promise.resolve(storage.getItem(persistKey))
+			.then(async (draft) => {
+				if (cancelled) return;
+				const restoredFiles = readDraft(draft, maxAgeRef.current);
+				if (restoredFiles.length > 0) {
+					pendingRestoreRef.current = { key: persistKey, files: filesRef.current };
+					onRestoreRef.current(restoredFiles);
+					return;
+				}
+				if (draft) await storage.removeItem(persistKey);
+				if (!cancelled) setRestoredKey(persistKey);
+			})
+			.catch(() => {
+				if (!cancelled) setRestoredKey(persistKey);
+			});
+
+		return () => {
+			cancelled = true;
+			pendingRestoreRef.current = null;
+		};
+	}, [persistKey, storage]);
+
+	// Geri yüklenen dosyalar listeye işlendiğinde (liste değiştiğinde) taslak yazılmaya başlanır
+	// Tüm dosyalar reddedilirse taslak, liste ilk kez değişene kadar korunur
+	useEffect(() => {
+		const pending = pendingRestoreRef.current;
+		if (!pending || files === pending.files) return;
+
+		pendingRestoreRef.current = null;
+		setRestoredKey(pending.key);
+	}, [files]);
+
+	// Liste değiştiğinde taslağı günceller, depolama hataları (örneğin kota aşımı) listeyi etkilemez
+	useEffect(() => {
+		if (!persistKey || restoredKey !== persistKey) return;
+
+		const result = files.length > 0 ? storage.setItem(persistKey, createDraft(files, maxSize)) : storage.removeItem(persistKey);
+		Promise.resolve(result).catch(() => undefined);
+	}, [files, persistKey, restoredKey, storage, maxSize]);
+
+	// Taslağı siler
+	const clearDraft = useCallback(async () => {
+		if (persistKey) await storage.removeItem(persistKey);
+	}, [persistKey, storage]);
+
+	return clearDraft;
+};
@@ -0,0 +1,55 @@
+import type { IDropzonePlugin, IDuplicateStrategy, IFileRejection, IUseDropzoneOptions } from "@/Interfaces";
+import { getFileKey } from "@/utils/FileKey";
+import { mergeRejections, validateFile, validator } from "@/validator/Validator";
+
+/**
+ * Tekrar eden dosya kontrolünü eklenti olarak sunar. Yeni dosyalar kabul edilmiş dosyalarla ve birbirleriyle
+ * duplicateStrategy ile aynı anahtarlar üzerinden karşılaştırılır, tekrar edenler file-duplicate koduyla reddedilir.
+ * Yerleşik kontrolden farklı bir stratejiyle ikinci bir kontrol eklemek için kullanılabilir.
+ *
+ * @param {IDuplicateStrategy} [strategy="name"] - Tekrar eden dosya stratejisi
+ * @returns {IDropzonePlugin} - Eklenti
+ */
+export const createDuplicatePlugin = (strategy: IDuplicateStrategy = "name"): IDropzonePlugin => ({
+	name: "duplicate",
+	afterValidate: ({ files, rejections }, { files: acceptedFiles, messages }) => {
+		const keys = [...acceptedFiles, ...files].map((file) => getFileKey(file, strategy));
+
+		const reject = (resolved: string[]) => {
+			const seen = new Set(resolved.slice(0, acceptedFiles.length));
+			const duplicates = files.flatMap((file, index): IFileRejection[] => {
+				const key = resolved[acceptedFiles.length + index];
+				if (!seen.has(key)) {
+					seen.add(key);
+					return [];
+				}
+				const error = validateFile({ validationCode: "file-duplicate", condition: false, messages, params: { name: file.name } });
+				return error ? [{ file, error: [error] }] : [];
+			});
+			return mergeRejections(rejections, duplicates);
+		};
+
+		return keys.some((key) => key instanceof Promise) ? Promise.all(keys).then(reject) : reject(keys as string[]);
+	},
+});
+
+/**
+ * Yerleşik format, boyut, sayı ve dosya türü kurallarını eklenti olarak sunar.
+ * Kabul edilmiş ve yeni dosyalar birlikte doğrulanır, yalnızca yeni dosyaların reddetmeleri eklenir.
+ *
+ * @param {Object} options - Doğrulama seçenekleri
+ * @returns {IDropzonePlugin} - Eklenti
+ */
+export const createValidationPlugin = (
+	options: Pick<IUseDropzoneOptions, "acceptedFormats" | "maxSize" | "minSize" | "maxFiles" | "rules" | "maxTotalSize">,
+): IDropzonePlugin => ({
+	name: "validation",
+	afterValidate: ({ files, rejections }, { files: acceptedFiles, messages }) => {
+		const newFiles = new Set(files);
+		const results = validator({ ...options, files: [...acceptedFiles, ...files], messages });
+		return mergeRejections(
+			rejections,
+			results.filter((rejection) => newFiles.has(rejection.file)),
+		);
+	},
+});
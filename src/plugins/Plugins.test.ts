@@ -0,0 +1,102 @@
+import type { IDropzonePlugin, IFileRejection } from "@/Interfaces";
+import { createMessages } from "@/locale/Locale";
+import { createDuplicatePlugin, createValidationPlugin } from "@/plugins/BuiltinPlugins";
+import { getPluginRenderProps, notifyPlugins, runAfterValidate, runBeforeValidate } from "@/plugins/Plugins";
+
+/**
+ * Eklenti çalıştırma ve yerleşik eklenti testleri
+ */
+describe("plugins", () => {
+	const messages = createMessages("en");
+	const context = { files: [] as File[], messages, signal: new AbortController().signal };
+	const createFile = (name: string, content = "a") => new File([content], name, { type: "text/plain" });
+	const codes = (rejections: IFileRejection[]) => rejections.map(({ file, error }) => `${file.name}:${error[0].code}`);
+
+	/**
+	 * Kancalar dizideki sırayla çalışır, senkron kancalarda sonuç senkron döner, asenkron kancalar sonrakilerden önce beklenir.
+	 */
+	it("should run hooks in order and stay synchronous when possible", async () => {
+		const log: string[] = [];
+		const rename = (suffix: string): IDropzonePlugin => ({
+			name: suffix,
+			beforeValidate: (files) => {
+				log.push(suffix);
+				return files.map((file) => new File([file], `${file.name}.${suffix}`));
+			},
+		});
+		const slow: IDropzonePlugin = {
+			name: "slow",
+			beforeValidate: async () => {
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				log.push("slow");
+				return undefined;
+			},
+		};
+
+		const sync = runBeforeValidate([rename("a"), rename("b")], [createFile("x")], context);
+		expect(Array.isArray(sync) && sync.map((file) => file.name)).toEqual(["x.a.b"]);
+
+		log.length = 0;
+		const async = runBeforeValidate([rename("a"), slow, rename("b")], [createFile("x")], context);
+		expect(async).toBeInstanceOf(Promise);
+		expect((await async).map((file) => file.name)).toEqual(["x.a.b"]);
+		expect(log).toEqual(["a", "slow", "b"]);
+
+		const order: string[] = [];
+		await notifyPlugins([slow, rename("c")], async (plugin) => {
+			await new Promise((resolve) => setTimeout(resolve, plugin.name === "slow" ? 5 : 0));
+			order.push(plugin.name);
+		});
+		expect(order).toEqual(["slow", "c"]);
+	});
+
+	/**
+	 * afterValidate reddetme ekleyebilir veya kaldırabilir, render prop değerleri birleştirilir.
+	 */
+	it("should let plugins change rejections and contribute render props", () => {
+		const large = createFile("large.txt");
+		const small = createFile("small.txt");
+		const rejections: IFileRejection[] = [{ file: large, error: [{ code: "file-too-large", message: "" }] }];
+		const allowLarge: IDropzonePlugin = {
+			name: "allow-large",
+			afterValidate: ({ rejections }) => rejections.filter(({ file }) => file !== large),
+		};
+		const blockSmall: IDropzonePlugin = {
+			name: "block-small",
+			afterValidate: ({ files, rejections }) => [
+				...rejections,
+				...files.filter((file) => file === small).map((file) => ({ file, error: [{ code: "blocked", message: "" }] })),
+			],
+		};
+
+		const result = runAfterValidate([allowLarge, blockSmall], { files: [large, small], rejections }, context);
+		expect(codes(result as IFileRejection[])).toEqual(["small.txt:blocked"]);
+
+		const count: IDropzonePlugin<{ count: number }> = { name: "count", renderProps: ({ files }) => ({ count: files.length }) };
+		const label: IDropzonePlugin<{ label: string }> = { name: "label", renderProps: () => ({ label: "files" }) };
+		expect(getPluginRenderProps([count, label], { files: [small], fileRejections: [] })).toEqual({ count: 1, label: "files" });
+	});
+
+	/**
+	 * Tekrar eden dosya kontrolü ve yerleşik doğrulama eklenti olarak çalışır.
+	 */
+	it("should express deduplication and validation as plugins", async () => {
+		const accepted = createFile("a.txt");
+		const plugins = [createValidationPlugin({ acceptedFormats: ["image/"], maxSize: 3 }), createDuplicatePlugin()];
+		const files = [createFile("a.txt"), createFile("b.txt", "bbbb")];
+
+		const result = runAfterValidate(plugins, { files, rejections: [] }, { ...context, files: [accepted] });
+		expect(codes(result as IFileRejection[])).toEqual(["a.txt:file-invalid-type", "b.txt:file-invalid-type"]);
+		expect((result as IFileRejection[])[0].error.map((error) => error.code)).toEqual(["file-invalid-type", "file-duplicate"]);
+
+		const hashed = runAfterValidate(
+			[createDuplicatePlugin("sha256")],
+			{ files: [createFile("c.txt")], rejections: [] },
+			{
+				...context,
+				files: [accepted],
+			},
+		);
+		expect(codes(await hashed)).toEqual(["c.txt:file-duplicate"]);
+	});
+});
@@ -0,0 +1,101 @@
+import type {
+	IDropzonePlugin,
+	IFileRejection,
+	IPluginRenderState,
+	IPluginValidateContext,
+	IPluginValidation,
+} from "@/Interfaces";
+
+/**
+ * Eklentileri sırayla çalıştırır, her eklenti bir öncekinin sonucunu alır.
+ * Hiçbir eklenti Promise dönmezse sonuç senkron olarak döner, Promise dönen eklentiden sonrakiler onun bitmesini bekler.
+ *
+ * @param {IDropzonePlugin[]} plugins - Eklentiler
+ * @param {T} value - İlk eklentiye iletilen değer
+ * @param {Function} run - Eklentinin kancasını çalıştıran fonksiyon, undefined dönerse değer değişmez
+ * @returns {T | Promise<T>} - Son eklentinin sonucu
+ */
+const chainPlugins = <T>(
+	plugins: IDropzonePlugin[],
+	value: T,
+	run: (plugin: IDropzonePlugin, value: T) => T | undefined | Promise<T | undefined>,
+): T | Promise<T> => {
+	let current = value;
+	for (const [index, plugin] of plugins.entries()) {
+		// Senkron hata fırlatan kanca da reddedilen Promise gibi ele alınır, böylece hata çağıranın onError yoluna ulaşır
+		let result: T | undefined | Promise<T | undefined>;
+		try {
+			result = run(plugin, current);
+		} catch (error) {
+			return Promise.reject(error);
+		}
+		if (result instanceof Promise) {
+			const previous = current;
+			return result.then((resolved) => chainPlugins(plugins.slice(index + 1), resolved ?? previous, run));
+		}
+		current = result ?? current;
+	}
+	return current;
+};
+
+/**
+ * Dosyaları eklentilerin beforeValidate kancalarından geçirir.
+ *
+ * @param {IDropzonePlugin[]} plugins - Eklentiler
+ * @param {File[]} files - Doğrulanacak dosyalar
+ * @param {IPluginValidateContext} context - Bağlam
+ * @returns {File[] | Promise<File[]>} - Eklentilerin değiştirdiği dosyalar
+ */
+export const runBeforeValidate = (plugins: IDropzonePlugin[], files: File[], context: IPluginValidateContext) =>
+	chainPlugins(plugins, files, (plugin, current) => plugin.beforeValidate?.(current, context));
+
+/**
+ * Doğrulama sonucunu eklentilerin afterValidate kancalarından geçirir.
+ *
+ * @param {IDropzonePlugin[]} plugins - Eklentiler
+ * @param {IPluginValidation} validation - Doğrulanan dosyalar ve reddetmeler
+ * @param {IPluginValidateContext} context - Bağlam
+ * @returns {IFileRejection[] | Promise<IFileRejection[]>} - Eklentilerin değiştirdiği reddetmeler
+ */
+export const runAfterValidate = (
+	plugins: IDropzonePlugin[],
+	{ files, rejections }: IPluginValidation,
+	context: IPluginValidateContext,
+) =>
+	chainPlugins<IFileRejection[]>(plugins, rejections, (plugin, current) =>
+		plugin.afterValidate?.({ files, rejections: current }, context),
+	);
+
+/**
+ * Eklentilerin bildirim kancalarını (onFilesAdded, onFileRemoved, onReset) sırayla çağırır.
+ * Asenkron kancalar bir sonraki eklentiden önce beklenir.
+ * Hata fırlatan kanca sonraki eklentileri durdurmaz, hata onError ile bildirilir ve dönen Promise hiçbir zaman reddedilmez.
+ *
+ * @param {IDropzonePlugin[]} plugins - Eklentiler
+ * @param {(plugin: IDropzonePlugin) => void | Promise<void>} notify - Eklentinin kancasını çağıran fonksiyon
+ * @param {(error: unknown) => void} [onError] - Kancanın hatasıyla çağrılır
+ * @returns {Promise<void>} - Tüm kancalar bittiğinde çözülür
+ */
+export const notifyPlugins = async (
+	plugins: IDropzonePlugin[],
+	notify: (plugin: IDropzonePlugin) => void | Promise<void>,
+	onError?: (error: unknown) => void,
+) => {
+	for (const plugin of plugins) {
+		try {
+			await notify(plugin);
+		} catch (error) {
+			onError?.(error);
+		}
+	}
+};
+
+/**
+ * Eklentilerin renderProps ile ürettiği değerleri tek nesnede birleştirir, aynı adlı değerlerde sonraki eklenti kazanır.
+ *
+ * @param {IDropzonePlugin[]} plugins - Eklentiler
+ * @param {IPluginRenderState} state - Dropzone state'i
+ * @returns {object} - Render prop değerleri
+ */
+export const getPluginRenderProps = (plugins: IDropzonePlugin[], state: IPluginRenderState) =>
+	Object.assign({}, ...plugins.map((plugin) => plugin.renderProps?.(state) ?? {}));
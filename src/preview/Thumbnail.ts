@@ -0,0 +1,59 @@
+import type { IFileIconType } from "@/Interfaces";
+
+// MIME tipinden ikon türünü belirleyen kurallar, ilk eşleşen kural kullanılır
+const ICON_TYPES: [RegExp, IFileIconType][] = [
+	[/^image\//, "image"],
+	[/^video\//, "video"],
+	[/^audio\//, "audio"],
+	[/^application\/pdf$/, "pdf"],
+	[/zip|x-7z|rar|tar|gzip|bzip|x-xz/, "archive"],
+	[/spreadsheet|excel|^text\/csv$/, "spreadsheet"],
+	[/presentation|powerpoint/, "presentation"],
+	[/wordprocessing|msword|opendocument\.text|rtf/, "document"],
+	[/^text\/|json|xml|javascript/, "text"],
+];
+
+// Saydamlığı korumak için PNG olarak küçültülen görsel türleri
+const TRANSPARENT_TYPES = new Set(["image/png", "image/gif", "image/webp", "image/svg+xml"]);
+
+/**
+ * Görsel olmayan dosyalarda gösterilecek ikon türünü MIME tipinden belirler.
+ *
+ * @param {File} file - Dosya
+ * @returns {IFileIconType} - İkon türü, eşleşme yoksa "file"
+ */
+export const getFileIconType = (file: File): IFileIconType =>
+	ICON_TYPES.find(([pattern]) => pattern.test(file.type))?.[1] ?? "file";
+
+/**
+ * Görselin en uzun kenarı verilen sınırı aşmayacak şekilde küçültülmüş data URL'ini canvas ile üretir.
+ * Görsel zaten küçükse büyütülmez, canvas desteklenmiyorsa null döner.
+ *
+ * @param {File} file - Görsel dosyası
+ * @param {number} maxEdge - Küçük resmin en uzun kenarı (piksel cinsinden)
+ * @returns {Promise<string | null>} - Küçük resmin data URL'i
+ */
+export const createThumbnail = (file: File, maxEdge: number) =>
+	new Promise<string | null>((resolve, reject) => {
+		const url = URL.createObjectURL(file);
+		const image = new Image();
+
+		image.onload = () => {
+			URL.revokeObjectURL(url);
+			const scale = Math.min(1, maxEdge / Math.max(image.naturalWidth, image.naturalHeight));
+			const canvas = document.createElement("canvas");
+			canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+			canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+			const context = canvas.getContext("2d");
+			if (!context) return resolve(null);
+
+			context.drawImage(image, 0, 0, canvas.width, canvas.height);
+			resolve(canvas.toDataURL(TRANSPARENT_TYPES.has(file.type) ? "image/png" : "image/jpeg", 0.8));
+		};
+		image.onerror = () => {
+			URL.revokeObjectURL(url);
+			reject(new Error(`${file.name} için küçük resim oluşturulamadı.`));
+		};
+		image.src = url;
+	});
@@ -0,0 +1,99 @@
+import type { IFilePreview, IPreviewOptions } from "@/Interfaces";
+import { getFileIconType } from "@/preview/Thumbnail";
+import { usePreviews } from "@/preview/UsePreviews";
+import { act, render, waitFor } from "@testing-library/react";
+import { vi } from "vitest";
+
+describe("usePreviews", () => {
+	// jsdom object URL desteklemediği için URL fonksiyonları sahte fonksiyonlarla değiştirilir
+	const createObjectURL = vi.fn((file: File) => `blob:${file.name}`);
+	const revokeObjectURL = vi.fn();
+	const { createObjectURL: originalCreate, revokeObjectURL: originalRevoke } = URL;
+
+	beforeAll(() => {
+		URL.createObjectURL = createObjectURL as typeof URL.createObjectURL;
+		URL.revokeObjectURL = revokeObjectURL;
+	});
+
+	beforeEach(() => {
+		createObjectURL.mockClear();
+		revokeObjectURL.mockClear();
+	});
+
+	afterAll(() => {
+		URL.createObjectURL = originalCreate;
+		URL.revokeObjectURL = originalRevoke;
+	});
+
+	/**
+	 * Hook'u verilen dosyalarla render eder
+	 * @param files - Kabul edilmiş dosyalar
+	 * @param options - Önizleme seçenekleri
+	 * @returns Son önizlemeler ve yeniden render fonksiyonu
+	 */
+	const setup = (files: File[], options: boolean | IPreviewOptions) => {
+		const result: { current: Map<File, IFilePreview> } = { current: new Map() };
+		const TestComponent = ({ files }: { files: File[] }) => {
+			result.current = usePreviews(files, options);
+			return null;
+		};
+
+		const { rerender, unmount } = render(<TestComponent files={files} />);
+		return { result, unmount, rerender: (next: File[]) => rerender(<TestComponent files={next} />) };
+	};
+
+	const photo = new File(["x"], "photo.png", { type: "image/png" });
+	const report = new File(["x"], "report.pdf", { type: "application/pdf" });
+
+	/**
+	 * Görseller için küçük resim oluşturulur, diğer dosyalara ikon türü atanır.
+	 */
+	it("should create previews with thumbnails and icon types", async () => {
+		const createThumbnail = vi.fn(async (file: File, maxEdge: number) => `data:${file.name}:${maxEdge}`);
+		const { result } = setup([photo, report], { thumbnailMaxEdge: 64, createThumbnail });
+
+		expect(result.current.get(report)).toEqual({ url: "blob:report.pdf", thumbnail: null, iconType: "pdf" });
+		await waitFor(() => expect(result.current.get(photo)?.thumbnail).toBe("data:photo.png:64"));
+		expect(result.current.get(photo)?.url).toBe("blob:photo.png");
+		expect(createThumbnail).toHaveBeenCalledTimes(1);
+	});
+
+	/**
+	 * Listeden çıkan dosyaların ve bileşen kaldırıldığında kalan dosyaların URL'leri serbest bırakılır.
+	 */
+	it("should revoke object urls when files leave the list", () => {
+		const { result, rerender, unmount } = setup([photo, report], { createThumbnail: () => null });
+
+		act(() => rerender([report]));
+		expect(revokeObjectURL).toHaveBeenCalledWith("blob:photo.png");
+		expect([...result.current.keys()]).toEqual([report]);
+
+		unmount();
+		expect(revokeObjectURL).toHaveBeenCalledWith("blob:report.pdf");
+		expect(createObjectURL).toHaveBeenCalledTimes(2);
+	});
+
+	/**
+	 * Seçenek verilmezse önizleme oluşturulmaz.
+	 */
+	it("should be opt-in", () => {
+		const { result } = setup([photo], false);
+
+		expect(result.current.size).toBe(0);
+		expect(createObjectURL).not.toHaveBeenCalled();
+	});
+
+	/**
+	 * İkon türü MIME tipinden belirlenir.
+	 */
+	it("should derive icon types from mime types", () => {
+		const iconType = (type: string) => getFileIconType(new File([], "file", { type }));
+
+		expect(iconType("video/mp4")).toBe("video");
+		expect(iconType("application/zip")).toBe("archive");
+		expect(iconType("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet")).toBe("spreadsheet");
+		expect(iconType("application/vnd.openxmlformats-officedocument.wordprocessingml.document")).toBe("document");
+		expect(iconType("text/plain")).toBe("text");
+		expect(iconType("")).toBe("file");
+	});
+});
@@ -0,0 +1,70 @@
+import type { IFilePreview, IPreviewOptions } from "@/Interfaces";
+import { createThumbnail, getFileIconType } from "@/preview/Thumbnail";
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Kabul edilen dosyalar için önizleme bilgilerini (object URL, küçük resim, ikon türü) yöneten hook.
+ * Listeden çıkan dosyaların object URL'leri ve bileşen kaldırıldığında tüm URL'ler otomatik olarak serbest bırakılır.
+ *
+ * @param {File[]} files - Kabul edilmiş dosyalar
+ * @param {boolean | IPreviewOptions} [options] - Önizleme seçenekleri, verilmezse önizleme oluşturulmaz
+ * @returns {Map<File, IFilePreview>} Dosya başına önizleme bilgileri
+ */
+export const usePreviews = (files: File[], options?: boolean | IPreviewOptions): Map<File, IFilePreview> => {
+	const [previews, setPreviews] = useState<Map<File, IFilePreview>>(() => new Map());
+
+	// Özel küçük resim oluşturucu her render'da yeniden oluşturulabildiği için ref üzerinden okunur
+	const optionsRef = useRef(typeof options === "object" ? options : {});
+	optionsRef.current = typeof options === "object" ? options : {};
+
+	// Oluşturulan önizlemeler, URL'lerin serbest bırakılabilmesi için render'lar arasında tutulur
+	const entriesRef = useRef(new Map<File, IFilePreview>());
+
+	const enabled = Boolean(options);
+	const thumbnailMaxEdge = optionsRef.current.thumbnailMaxEdge ?? 200;
+
+	// Önizlemeleri kabul edilen dosyalarla senkronize eder
+	useEffect(() => {
+		const entries = entriesRef.current;
+		const currentFiles = new Set(enabled ? files : []);
+		let changed = false;
+
+		for (const [file, preview] of entries) {
+			if (currentFiles.has(file)) continue;
+			URL.revokeObjectURL(preview.url);
+			entries.delete(file);
+			changed = true;
+		}
+
+		for (const file of currentFiles) {
+			if (entries.has(file)) continue;
+
+			const preview: IFilePreview = { url: URL.createObjectURL(file), thumbnail: null, iconType: getFileIconType(file) };
+			entries.set(file, preview);
+			changed = true;
+			if (preview.iconType !== "image") continue;
+
+			// Küçük resim hazır olduğunda dosya hâlâ listedeyse önizlemeye eklenir
+			Promise.resolve((optionsRef.current.createThumbnail ?? createThumbnail)(file, thumbnailMaxEdge))
+				.then((thumbnail) => {
+					if (!thumbnail || entries.get(file) !== preview) return;
+					entries.set(file, { ...preview, thumbnail });
+					setPreviews(new Map(entries));
+				})
+				.catch(() => undefined);
+		}
+
+		if (changed) setPreviews(new Map(entries));
+	}, [files, enabled, thumbnailMaxEdge]);
+
+	// Bileşen kaldırıldığında tüm object URL'leri serbest bırakır
+	useEffect(
+		() => () => {
+			for (const preview of entriesRef.current.values()) URL.revokeObjectURL(preview.url);
+			entriesRef.current.clear();
+		},
+		[],
+	);
+
+	return previews;
+};
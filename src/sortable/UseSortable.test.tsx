@@ -0,0 +1,70 @@
+import { useSortable } from "@/sortable/UseSortable";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { vi } from "vitest";
+
+describe("useSortable", () => {
+	/**
+	 * Sıralanabilir bir liste render eder
+	 * @param onMove - Öğe taşındığında çağrılan fonksiyon
+	 */
+	const setup = (onMove: (from: number, to: number) => void) => {
+		const items = ["a", "b", "c"];
+		const TestComponent = () => {
+			const { getItemProps } = useSortable({ count: items.length, onMove });
+			return (
+				<ul>
+					{items.map((item, index) => (
+						<li key={item} {...getItemProps(index)}>
+							{item}
+						</li>
+					))}
+				</ul>
+			);
+		};
+
+		render(<TestComponent />);
+	};
+
+	/**
+	 * Alt + Ok tuşları öğeyi bir önceki veya bir sonraki konuma taşır, listenin dışına taşımaz.
+	 */
+	it("should move items with Alt + Arrow keys", () => {
+		const onMove = vi.fn();
+		setup(onMove);
+
+		fireEvent.keyDown(screen.getByText("a"), { key: "ArrowDown", altKey: true });
+		fireEvent.keyDown(screen.getByText("a"), { key: "ArrowUp", altKey: true });
+		fireEvent.keyDown(screen.getByText("c"), { key: "ArrowLeft", altKey: true });
+		fireEvent.keyDown(screen.getByText("b"), { key: "ArrowDown" });
+
+		expect(onMove.mock.calls).toEqual([
+			[0, 1],
+			[2, 1],
+		]);
+	});
+
+	/**
+	 * İşaretçi ile sürüklenen öğe bırakıldığında imlecin altındaki öğenin konumuna taşınır.
+	 */
+	it("should move items with pointer drag", () => {
+		const onMove = vi.fn();
+		setup(onMove);
+
+		// jsdom yerleşim hesaplamadığı için imlecin altındaki öğe sahte fonksiyonla belirlenir
+		const { elementFromPoint } = document;
+		document.elementFromPoint = vi.fn(() => screen.getByText("c"));
+
+		const item = screen.getByText("a");
+		fireEvent.pointerDown(item, { button: 0, pointerId: 1 });
+		fireEvent.pointerMove(item, { clientX: 10, clientY: 50 });
+		fireEvent.pointerUp(item);
+
+		fireEvent.pointerDown(item, { button: 0, pointerId: 1 });
+		fireEvent.pointerCancel(item);
+		fireEvent.pointerUp(item);
+
+		expect(onMove.mock.calls).toEqual([[0, 2]]);
+		expect(item).toHaveAttribute("data-sortable-index", "0");
+		document.elementFromPoint = elementFromPoint;
+	});
+});
@@ -0,0 +1,94 @@
+import type { ISortableItemProps } from "@/Interfaces";
+import { composeHandlers } from "@/utils/ComposeHandlers";
+import { useCallback, useRef, useState } from "react";
+
+// Öğeyi bir önceki veya bir sonraki konuma taşıyan tuşlar, Alt ile birlikte kullanılır
+const MOVE_KEYS: Record<string, number> = { ArrowUp: -1, ArrowLeft: -1, ArrowDown: 1, ArrowRight: 1 };
+
+/**
+ * Sıralanabilir listeler için işaretçi (fare, dokunmatik, kalem) ile sürükleme ve Alt + Ok tuşlarıyla taşıma sağlayan hook.
+ * Sürükleme, dosya bırakma olaylarıyla karışmaması için HTML5 sürükle-bırak yerine işaretçi olaylarıyla yapılır.
+ * Öğe bırakıldığında imlecin altındaki data-sortable-index özniteliğine sahip öğenin konumuna taşınır.
+ *
+ * @param {Object} params - Parametreler
+ * @param {number} params.count - Listedeki öğe sayısı
+ * @param {(from: number, to: number) => void} params.onMove - Öğe taşındığında eski ve yeni konumla çağrılır
+ * @param {boolean} [params.disabled] - Sıralamayı devre dışı bırakır
+ * @returns Öğe özellikleri, sürüklenen ve üzerinde bulunulan öğenin konumu
+ */
+export const useSortable = ({
+	count,
+	onMove,
+	disabled,
+}: {
+	count: number;
+	onMove: (from: number, to: number) => void;
+	disabled?: boolean;
+}) => {
+	const [activeIndex, setActiveIndex] = useState<number | null>(null);
+	const [overIndex, setOverIndex] = useState<number | null>(null);
+
+	// İşaretçi olayları arasında güncel değerlerin okunması için sürükleme durumu ref'te de tutulur
+	const dragRef = useRef<{ from: number; to: number } | null>(null);
+
+	// Sürükleme durumunu sıfırlar
+	const reset = useCallback(() => {
+		dragRef.current = null;
+		setActiveIndex(null);
+		setOverIndex(null);
+	}, []);
+
+	/**
+	 * Öğenin sıralama özelliklerini döner.
+	 * @param {number} index - Öğenin listedeki konumu
+	 * @param {ISortableItemProps} [props] - Öğeye uygulanacak ek özellikler
+	 * @returns {ISortableItemProps} Öğeye uygulanacak özellikler
+	 */
+	const getItemProps = useCallback(
+		(
+			index: number,
+			{ onKeyDown, onPointerDown, onPointerMove, onPointerUp, onPointerCancel, style, ...props }: ISortableItemProps = {},
+		): ISortableItemProps => ({
+			tabIndex: 0,
+			...props,
+			"data-sortable-index": index,
+			style: { touchAction: "none", ...style },
+			onKeyDown: composeHandlers((event: React.KeyboardEvent<HTMLElement>) => {
+				const offset = MOVE_KEYS[event.key];
+				if (disabled || !event.altKey || !offset) return;
+
+				event.preventDefault();
+				const to = index + offset;
+				if (to >= 0 && to < count) onMove(index, to);
+			}, onKeyDown),
+			onPointerDown: composeHandlers((event: React.PointerEvent<HTMLElement>) => {
+				if (disabled || event.button > 0) return;
+
+				// Taşıma ve bırakma olaylarının imleç öğeden çıksa bile bu öğeye gelmesi sağlanır
+				event.currentTarget.setPointerCapture?.(event.pointerId);
+				dragRef.current = { from: index, to: index };
+				setActiveIndex(index);
+				setOverIndex(index);
+			}, onPointerDown),
+			onPointerMove: composeHandlers((event: React.PointerEvent<HTMLElement>) => {
+				if (!dragRef.current) return;
+
+				const target = document.elementFromPoint?.(event.clientX, event.clientY)?.closest("[data-sortable-index]");
+				if (!target) return;
+
+				const to = Number(target.getAttribute("data-sortable-index"));
+				dragRef.current.to = to;
+				setOverIndex(to);
+			}, onPointerMove),
+			onPointerUp: composeHandlers(() => {
+				const drag = dragRef.current;
+				reset();
+				if (drag && drag.from !== drag.to) onMove(drag.from, drag.to);
+			}, onPointerUp),
+			onPointerCancel: composeHandlers(reset, onPointerCancel),
+		}),
+		[count, onMove, disabled, reset],
+	);
+
+	return { getItemProps, activeIndex, overIndex };
+};
@@ -0,0 +1,104 @@
+import { createImageTransformer, readExifOrientation } from "@/transform/ImageTransformer";
+import { vi } from "vitest";
+
+/**
+ * Görsel dönüştürücü testleri, jsdom'da canvas bulunmadığı için çözücü ve canvas sahte nesnelerle taklit edilir.
+ */
+describe("createImageTransformer", () => {
+	/**
+	 * Verilen yön değerini içeren EXIF segmentli sahte bir JPEG oluşturur
+	 * @param orientation - EXIF yön değeri
+	 * @returns JPEG dosyası
+	 */
+	const createJpeg = (orientation: number) => {
+		const bytes = [
+			...[0xff, 0xd8, 0xff, 0xe1, 0x00, 0x22],
+			...[0x45, 0x78, 0x69, 0x66, 0x00, 0x00],
+			...[0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08],
+			...[0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00],
+			...[0xff, 0xd9],
+		];
+		return new File([new Uint8Array(bytes)], "photo.jpeg", { type: "image/jpeg", lastModified: 1 });
+	};
+
+	const decode = vi.fn(async () => ({ source: {} as CanvasImageSource, width: 4000, height: 3000 }));
+	const drawImage = vi.fn();
+
+	beforeEach(() => {
+		vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({ drawImage } as unknown as CanvasRenderingContext2D);
+		vi.spyOn(HTMLCanvasElement.prototype, "toBlob").mockImplementation((callback, type) =>
+			callback(new Blob(["encoded"], { type })),
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+		drawImage.mockClear();
+	});
+
+	/**
+	 * EXIF yön değeri okunur, EXIF içermeyen veya JPEG olmayan dosyalar için 1 döner.
+	 */
+	it("should read the exif orientation", async () => {
+		expect(await readExifOrientation(createJpeg(6))).toBe(6);
+		expect(await readExifOrientation(new File([new Uint8Array([0xff, 0xd8, 0xff, 0xd9])], "a.jpg"))).toBe(1);
+		expect(await readExifOrientation(new File(["text"], "a.txt"))).toBe(1);
+	});
+
+	/**
+	 * Görsel en-boy oranı korunarak küçültülür, istenen formatta kodlanır ve uzantısı değiştirilir.
+	 */
+	it("should resize and convert images", async () => {
+		const transform = createImageTransformer({ maxWidth: 2000, maxHeight: 2000, quality: 0.7, format: "image/webp", decode });
+
+		const output = await transform(createJpeg(1), { signal: new AbortController().signal });
+
+		expect(drawImage).toHaveBeenCalledWith({}, 0, 0, 2000, 1500);
+		expect(HTMLCanvasElement.prototype.toBlob).toHaveBeenCalledWith(expect.any(Function), "image/webp", 0.7);
+		expect(output).toMatchObject({ name: "photo.webp", type: "image/webp", size: 7, lastModified: 1 });
+	});
+
+	/**
+	 * Değişiklik gerektirmeyen görseller ve görsel olmayan dosyalar olduğu gibi döner, yönü düzeltilmesi gereken JPEG'ler yeniden kodlanır.
+	 */
+	it("should only re-encode images that need a change", async () => {
+		const transform = createImageTransformer({ maxWidth: 5000, decode });
+		const context = { signal: new AbortController().signal };
+
+		const upright = createJpeg(1);
+		const text = new File(["text"], "notes.txt", { type: "text/plain" });
+		expect(await transform(upright, context)).toBe(upright);
+		expect(await transform(text, context)).toBe(text);
+		expect(drawImage).not.toHaveBeenCalled();
+
+		const rotated = await transform(createJpeg(6), context);
+		expect(rotated).toMatchObject({ name: "photo.jpg", type: "image/jpeg" });
+		expect(drawImage).toHaveBeenCalledWith({}, 0, 0, 4000, 3000);
+
+		const untouched = createJpeg(6);
+		expect(await createImageTransformer({ fixOrientation: false, decode })(untouched, context)).toBe(untouched);
+	});
+
+	/**
+	 * Varsayılan çözücü yön düzeltme kapalıyken EXIF yönünü uygulamaz ve bitmap çizimden sonra kapatılır.
+	 */
+	it("should decode with the requested orientation and close the bitmap", async () => {
+		const close = vi.fn();
+		const createImageBitmap = vi.fn(async () => ({ width: 4000, height: 3000, close }));
+		vi.stubGlobal("createImageBitmap", createImageBitmap);
+		const context = { signal: new AbortController().signal };
+
+		await createImageTransformer({ maxWidth: 2000 })(createJpeg(6), context);
+		expect(createImageBitmap).toHaveBeenLastCalledWith(expect.any(File), { imageOrientation: "from-image" });
+		expect(close).toHaveBeenCalledTimes(1);
+
+		await createImageTransformer({ maxWidth: 2000, fixOrientation: false })(createJpeg(6), context);
+		expect(createImageBitmap).toHaveBeenLastCalledWith(expect.any(File), { imageOrientation: "none" });
+		expect(close).toHaveBeenCalledTimes(2);
+
+		const untouched = createJpeg(1);
+		expect(await createImageTransformer({})(untouched, context)).toBe(untouched);
+		expect(close).toHaveBeenCalledTimes(3);
+	});
+});
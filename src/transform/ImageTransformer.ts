@@ -0,0 +1,128 @@
+import type { IFileTransformer, IImageTransformOptions } from "@/Interfaces";
+import { readAsArrayBuffer } from "@/utils/ReadFile";
+
+// Canvas ile yeniden kodlanabilen görsel türleri
+const ENCODABLE_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
+
+// Çıktı türüne göre dosya uzantıları
+const EXTENSIONS: Record<string, string> = { "image/jpeg": ".jpg", "image/png": ".png", "image/webp": ".webp" };
+
+/**
+ * JPEG dosyasının EXIF verisinden yön (Orientation) değerini okur.
+ * EXIF segmenti dosyanın başında bulunduğu için yalnızca ilk 64 KB okunur.
+ *
+ * @param {Blob} file - Görsel dosyası
+ * @returns {Promise<number>} - 1-8 arası yön değeri, EXIF yoksa 1
+ */
+export const readExifOrientation = async (file: Blob) => {
+	const view = new DataView(await readAsArrayBuffer(file.slice(0, 64 * 1024)));
+	if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+	// JPEG segmentlerini APP1 (Exif) segmentine kadar dolaşıyoruz
+	let offset = 2;
+	while (offset + 4 <= view.byteLength) {
+		const marker = view.getUint16(offset);
+		const length = view.getUint16(offset + 2);
+		if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+			const tiff = offset + 10;
+			const littleEndian = view.getUint16(tiff) === 0x4949;
+			const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+			const entries = view.getUint16(ifd, littleEndian);
+
+			for (let index = 0; index < entries; index++) {
+				const entry = ifd + 2 + index * 12;
+				if (entry + 10 > view.byteLength) break;
+				if (view.getUint16(entry, littleEndian) === 0x0112) return view.getUint16(entry + 8, littleEndian);
+			}
+			return 1;
+		}
+		if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+		offset += 2 + length;
+	}
+	return 1;
+};
+
+/**
+ * Görseli tarayıcıda çözer, yön düzeltme açıksa tarayıcı EXIF yönünü çözme sırasında uygular.
+ *
+ * @param {File} file - Görsel dosyası
+ * @param {{ fixOrientation: boolean }} options - Çözme seçenekleri
+ * @returns {Promise<{ source: CanvasImageSource; width: number; height: number }>} - Çizilebilir görsel ve boyutları
+ */
+const decodeImageSource = async (file: File, { fixOrientation }: { fixOrientation: boolean }) => {
+	const bitmap = await createImageBitmap(file, { imageOrientation: fixOrientation ? "from-image" : "none" });
+	return { source: bitmap as CanvasImageSource, width: bitmap.width, height: bitmap.height };
+};
+
+/**
+ * Çözülen görselin belleğini serbest bırakır, ImageBitmap ve VideoFrame dışındaki kaynaklar için bir şey yapmaz.
+ *
+ * @param {CanvasImageSource} source - Çizilebilir görsel
+ */
+const releaseImageSource = (source: CanvasImageSource) => {
+	if ("close" in source) source.close();
+};
+
+/**
+ * Dosya adının uzantısını çıktı türüne göre değiştirir.
+ *
+ * @param {string} name - Dosya adı
+ * @param {string} type - Çıktı türü
+ * @returns {string} - Yeni dosya adı
+ */
+const replaceExtension = (name: string, type: string) => {
+	const dotIndex = name.lastIndexOf(".");
+	return `${dotIndex > 0 ? name.slice(0, dotIndex) : name}${EXTENSIONS[type]}`;
+};
+
+/**
+ * Görselleri en büyük boyutlara sığacak şekilde küçülten, sıkıştıran ve istenen formata dönüştüren dönüştürücüyü oluşturur.
+ * Çıktı canvas ile yeniden kodlandığı için fixOrientation açıkken EXIF yönü piksellere işlenir ve EXIF verisi silinir.
+ * Görsel hiçbir değişiklik gerektirmiyorsa (boyut, format, kalite ve yön) orijinal dosya olduğu gibi döner.
+ *
+ * @param {IImageTransformOptions} options - Görsel dönüştürme seçenekleri
+ * @returns {IFileTransformer} - Dosya dönüştürücü
+ */
+export const createImageTransformer =
+	({
+		maxWidth,
+		maxHeight,
+		quality,
+		format,
+		fixOrientation = true,
+		decode = decodeImageSource,
+	}: IImageTransformOptions): IFileTransformer =>
+	async (file) => {
+		// Animasyonlu ve vektörel görseller canvas ile bozulacağı için dönüştürülmez
+		if (
+			!ENCODABLE_TYPES.has(file.type) &&
+			!(format && file.type.startsWith("image/") && file.type !== "image/gif" && file.type !== "image/svg+xml")
+		) {
+			return file;
+		}
+
+		const outputType = format ?? file.type;
+		const orientation = fixOrientation && file.type === "image/jpeg" ? await readExifOrientation(file) : 1;
+		const { source, width, height } = await decode(file, { fixOrientation });
+
+		// Görsel çizildikten veya dönüştürülmeden bırakıldıktan sonra bitmap belleği serbest bırakılır
+		const canvas = document.createElement("canvas");
+		try {
+			const scale = Math.min(1, (maxWidth ?? width) / width, (maxHeight ?? height) / height);
+			if (scale === 1 && outputType === file.type && quality === undefined && orientation === 1) return file;
+
+			canvas.width = Math.max(1, Math.round(width * scale));
+			canvas.height = Math.max(1, Math.round(height * scale));
+
+			const context = canvas.getContext("2d");
+			if (!context) return file;
+			context.drawImage(source, 0, 0, canvas.width, canvas.height);
+		} finally {
+			releaseImageSource(source);
+		}
+
+		const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, outputType, quality));
+		if (!blob) return file;
+
+		return new File([blob], replaceExtension(file.name, outputType), { type: outputType, lastModified: file.lastModified });
+	};
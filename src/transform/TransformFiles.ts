@@ -0,0 +1,67 @@
+import type { IFileTransformer, IFileWithPath, IUseDropzoneOptions } from "@/Interfaces";
+import { createImageTransformer } from "@/transform/ImageTransformer";
+import { getRelativePath } from "@/utils/CollectFiles";
+
+/**
+ * Dönüştürülmüş dosyanın orijinalini döner, dönüştürülmemiş dosyalar için dosyanın kendisini döner.
+ *
+ * @param {File} file - Dosya
+ * @returns {File} - Orijinal dosya
+ */
+export const getOriginalFile = (file: File) => (file as IFileWithPath).originalFile ?? file;
+
+/**
+ * transform seçeneğini sırayla çalıştırılacak dönüştürücü listesine çevirir.
+ * Nesne olarak verilen seçenekler yerleşik görsel dönüştürücüsüne dönüştürülür.
+ *
+ * @param {IUseDropzoneOptions["transform"]} transform - Dönüştürme seçeneği
+ * @returns {IFileTransformer[]} - Dönüştürücüler
+ */
+export const toTransformers = (transform: IUseDropzoneOptions["transform"]): IFileTransformer[] =>
+	(Array.isArray(transform) ? transform : transform ? [transform] : []).map((item) =>
+		typeof item === "function" ? item : createImageTransformer(item),
+	);
+
+/**
+ * Dosyaları dönüştürücülerden sırayla geçirir. Dönüştürülen dosya orijinalini ve göreli yolunu taşır.
+ * Dönüştürücü hata verirse (senkron hata veya reddedilen Promise) hata onError ile bildirilir,
+ * dosya o dönüştürücüden önceki haliyle kalır ve doğrulamaya devam eder.
+ *
+ * @param {File[]} files - Dönüştürülecek dosyalar
+ * @param {IFileTransformer[]} transformers - Dönüştürücüler
+ * @param {AbortSignal} signal - Liste temizlendiğinde dönüştürmeyi iptal eden sinyal
+ * @param {(error: unknown) => void} [onError] - Dönüştürücünün hatasıyla çağrılır
+ * @returns {Promise<IFileWithPath[]>} - Dönüştürülmüş dosyalar
+ */
+export const transformFiles = (
+	files: File[],
+	transformers: IFileTransformer[],
+	signal: AbortSignal,
+	onError?: (error: unknown) => void,
+) =>
+	Promise.all(
+		files.map(async (file): Promise<IFileWithPath> => {
+			let output = file;
+			for (const transformer of transformers) {
+				if (signal.aborted) break;
+				try {
+					output = await transformer(output, { signal });
+				} catch (error) {
+					if (!signal.aborted) onError?.(error);
+				}
+			}
+			if (output === file) return file;
+
+			// Çıktının adı değişmiş olabileceği için göreli yol orijinalin klasörü ve yeni ad ile oluşturulur
+			const path = getRelativePath(file);
+			Object.defineProperties(output, {
+				originalFile: { value: getOriginalFile(file), enumerable: true, configurable: true },
+				relativePath: {
+					value: `${path.slice(0, path.lastIndexOf("/") + 1)}${output.name}`,
+					enumerable: true,
+					configurable: true,
+				},
+			});
+			return output;
+		}),
+	);
@@ -0,0 +1,193 @@
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ITusUrlStorage } from "@/Interfaces";
+import { createTusRequest } from "@/upload/TusRequest";
+import { createUploadQueue } from "@/upload/UploadQueue";
+import { vi } from "vitest";
+
+/**
+ * tus yükleme testleri, istekler yerel bir tus uyumlu test sunucusuna gönderilir.
+ */
+describe("createTusRequest", () => {
+	let server: Server;
+	let endpoint: string;
+
+	// Sunucudaki yüklemeler ve alınan isteklerin kaydı
+	const uploads = new Map<string, { length: number; data: Buffer; metadata: string }>();
+	const log: string[] = [];
+	let nextId = 0;
+
+	beforeAll(async () => {
+		server = createServer((request, response) => {
+			const chunks: Buffer[] = [];
+			request.on("data", (chunk: Buffer) => chunks.push(chunk));
+			request.on("end", () => {
+				const id = request.url?.split("/files/")[1];
+				const upload = id ? uploads.get(id) : undefined;
+				log.push(`${request.method} ${request.url}`);
+				response.setHeader("Tus-Resumable", "1.0.0");
+
+				if (request.headers["tus-resumable"] !== "1.0.0") {
+					response.writeHead(412).end();
+					return;
+				}
+
+				if (request.method === "POST") {
+					const newId = String(++nextId);
+					uploads.set(newId, {
+						length: Number(request.headers["upload-length"]),
+						data: Buffer.alloc(0),
+						metadata: String(request.headers["upload-metadata"]),
+					});
+					response.writeHead(201, { Location: `/files/${newId}` }).end();
+					return;
+				}
+
+				if (!upload) {
+					response.writeHead(404).end();
+					return;
+				}
+
+				if (request.method === "HEAD") {
+					response.writeHead(200, { "Upload-Offset": upload.data.length, "Upload-Length": upload.length }).end();
+					return;
+				}
+
+				if (request.method === "PATCH") {
+					if (Number(request.headers["upload-offset"]) !== upload.data.length) {
+						response.writeHead(409).end();
+						return;
+					}
+					upload.data = Buffer.concat([upload.data, ...chunks]);
+					response.writeHead(204, { "Upload-Offset": upload.data.length }).end();
+					return;
+				}
+
+				if (request.method === "DELETE" && id) {
+					uploads.delete(id);
+					response.writeHead(204).end();
+				}
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/files/`;
+	});
+
+	afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+	beforeEach(() => {
+		uploads.clear();
+		log.length = 0;
+		nextId = 0;
+	});
+
+	/**
+	 * Bellek içi yükleme adresi deposu oluşturur
+	 * @returns Depo ve içeriği
+	 */
+	const createStorage = () => {
+		const items = new Map<string, string>();
+		const storage: ITusUrlStorage = {
+			getItem: (key) => items.get(key) ?? null,
+			setItem: (key, value) => {
+				items.set(key, value);
+			},
+			removeItem: (key) => {
+				items.delete(key);
+			},
+		};
+		return { items, storage };
+	};
+
+	const content = "0123456789abcdef";
+	const createFile = () => new File([content], "video.mp4", { type: "video/mp4", lastModified: 1 });
+
+	/**
+	 * Dosyayı oluşturma ve PATCH parçalarıyla uçtan uca yükler, başarıdan sonra saklanan adresi siler.
+	 */
+	it("should upload a file in chunks", async () => {
+		const { items, storage } = createStorage();
+		const onProgress = vi.fn();
+		const request = createTusRequest({ endpoint, chunkSize: 6, storage, headers: { Authorization: "token" } });
+
+		const result = await request(createFile(), { onProgress, signal: new AbortController().signal, attempt: 1 });
+
+		expect(log).toEqual(["POST /files/", "PATCH /files/1", "PATCH /files/1", "PATCH /files/1"]);
+		expect(uploads.get("1")?.data.toString()).toBe(content);
+		expect(uploads.get("1")?.metadata).toBe(`filename ${btoa("video.mp4")},filetype ${btoa("video/mp4")}`);
+		expect(onProgress.mock.calls.map(([loaded]) => loaded)).toEqual([0, 6, 12, 16]);
+		expect(result).toEqual({ url: `${endpoint}1` });
+		expect(items.size).toBe(0);
+	});
+
+	/**
+	 * Duraklatılan yükleme HEAD ile sunucudaki konumu öğrenip kaldığı yerden devam eder.
+	 */
+	it("should pause and resume an upload from the server offset", async () => {
+		const { storage } = createStorage();
+		const file = createFile();
+		let paused = false;
+		const queue = createUploadQueue({
+			request: createTusRequest({ endpoint, chunkSize: 4, storage }),
+			onChange: (items) => {
+				if (!paused && items[0].progress > 0) {
+					paused = true;
+					queue.pause(file);
+				}
+			},
+		});
+
+		queue.add([file]);
+		await vi.waitFor(() => expect(queue.getItems()[0].status).toBe("paused"));
+		expect(uploads.get("1")?.data.length).toBeLessThan(content.length);
+
+		queue.resume(file);
+		await vi.waitFor(() => expect(queue.getItems()[0].status).toBe("success"));
+
+		expect(uploads.get("1")?.data.toString()).toBe(content);
+		expect(log.filter((entry) => entry.startsWith("POST"))).toHaveLength(1);
+		expect(log).toContain("HEAD /files/1");
+	});
+
+	/**
+	 * Sayfa yenilendikten sonra saklanan adres ile devam eder, adres sunucuda yoksa yeni yükleme oluşturur.
+	 */
+	it("should resume from a persisted upload url after a reload", async () => {
+		const { items, storage } = createStorage();
+		uploads.set("42", { length: content.length, data: Buffer.from(content.slice(0, 10)), metadata: "" });
+		items.set(`tus::video.mp4::video/mp4::16::1::${endpoint}`, `${endpoint}42`);
+
+		const request = createTusRequest({ endpoint, storage });
+		await request(createFile(), { onProgress: vi.fn(), signal: new AbortController().signal, attempt: 1 });
+
+		expect(log).toEqual(["HEAD /files/42", "PATCH /files/42"]);
+		expect(uploads.get("42")?.data.toString()).toBe(content);
+
+		log.length = 0;
+		items.set(`tus::video.mp4::video/mp4::16::1::${endpoint}`, `${endpoint}404`);
+		await request(createFile(), { onProgress: vi.fn(), signal: new AbortController().signal, attempt: 1 });
+
+		expect(log).toEqual(["HEAD /files/404", "POST /files/", "PATCH /files/1"]);
+	});
+
+	/**
+	 * İptal edilen yükleme sunucuda DELETE ile sonlandırılır ve saklanan adres silinir.
+	 */
+	it("should terminate a cancelled upload", async () => {
+		const { items, storage } = createStorage();
+		const file = createFile();
+		const queue = createUploadQueue({
+			request: createTusRequest({ endpoint, chunkSize: 4, storage }),
+			onChange: (states) => {
+				if (states[0].status === "uploading" && states[0].progress > 0) queue.cancel(file);
+			},
+		});
+
+		queue.add([file]);
+
+		await vi.waitFor(() => expect(log).toContain("DELETE /files/1"));
+		expect(queue.getItems()[0].status).toBe("cancelled");
+		expect(uploads.has("1")).toBe(false);
+		expect(items.size).toBe(0);
+	});
+});
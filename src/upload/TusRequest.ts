@@ -0,0 +1,143 @@
+import { UploadAbortReason } from "@/Enums";
+import type { ITusOptions, ITusUrlStorage, IUploadOptions, IUploadRequest } from "@/Interfaces";
+import { readAsArrayBuffer } from "@/utils/ReadFile";
+
+// Desteklenen tus protokol sürümü
+const TUS_VERSION = "1.0.0";
+
+// Varsayılan parça boyutu (5 MB)
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+// localStorage bulunmayan ortamlarda kullanılan bellek içi depolama
+const memoryStorage = (): ITusUrlStorage => {
+	const items = new Map<string, string>();
+	return {
+		getItem: (key) => items.get(key) ?? null,
+		setItem: (key, value) => {
+			items.set(key, value);
+		},
+		removeItem: (key) => {
+			items.delete(key);
+		},
+	};
+};
+
+/**
+ * Dosyayı tanımlayan varsayılan parmak izi, aynı dosya aynı adrese tekrar yüklendiğinde aynı değeri üretir.
+ *
+ * @param {File} file - Yüklenen dosya
+ * @param {string} endpoint - Yükleme adresi
+ * @returns {string} - Parmak izi
+ */
+export const defaultFingerprint = (file: File, endpoint: string) =>
+	["tus", file.name, file.type, file.size, file.lastModified, endpoint].join("::");
+
+/**
+ * Upload-Metadata başlığını oluşturur, değerler base64 ile kodlanır.
+ *
+ * @param {Record<string, string>} metadata - Ek bilgiler
+ * @returns {string} - Başlık değeri
+ */
+const encodeMetadata = (metadata: Record<string, string>) =>
+	Object.entries(metadata)
+		.map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+		.join(",");
+
+/**
+ * Dosyayı tus 1.0 core protokolü (creation ve termination uzantılarıyla) ile parça parça yükleyen istek fonksiyonunu oluşturur.
+ * Yükleme adresi dosyanın parmak iziyle saklanır, böylece duraklatılan, başarısız olan veya sayfa yenilendikten sonra
+ * tekrar bırakılan dosyalar HEAD ile sunucudaki konumu öğrenip kaldığı yerden devam eder.
+ * İstek iptal edildiğinde (duraklatma hariç) yükleme sunucuda DELETE ile sonlandırılır.
+ *
+ * @param {ITusOptions & Pick<IUploadOptions, "headers">} options - tus seçenekleri ve ek istek başlıkları
+ * @returns {IUploadRequest} - Yükleme isteği
+ */
+export const createTusRequest = ({
+	endpoint,
+	chunkSize = DEFAULT_CHUNK_SIZE,
+	metadata = (file) => ({ filename: file.name, filetype: file.type }),
+	fingerprint = defaultFingerprint,
+	storage = typeof localStorage !== "undefined" ? localStorage : memoryStorage(),
+	headers,
+}: ITusOptions & Pick<IUploadOptions, "headers">): IUploadRequest => {
+	/**
+	 * tus başlıklarını ekleyerek istek gönderir, başarısız yanıtlarda hata fırlatır.
+	 * @param {File} file - Yüklenen dosya
+	 * @param {string} url - İstek adresi
+	 * @param {RequestInit} init - İstek seçenekleri
+	 * @param {number[]} [allowedStatuses] - Hata sayılmayan ek durum kodları
+	 */
+	const send = async (file: File, url: string, init: RequestInit, allowedStatuses: number[] = []) => {
+		const response = await fetch(url, {
+			...init,
+			headers: {
+				...(typeof headers === "function" ? headers(file) : headers),
+				"Tus-Resumable": TUS_VERSION,
+				...(init.headers as Record<string, string>),
+			},
+		});
+		if (!response.ok && !allowedStatuses.includes(response.status)) {
+			throw new Error(`tus isteği başarısız oldu (${init.method} HTTP ${response.status}).`);
+		}
+		return response;
+	};
+
+	return async (file, { onProgress, signal }) => {
+		if (!endpoint) throw new Error("tus yüklemesi için endpoint veya url belirtilmelidir.");
+		const key = fingerprint(file, endpoint);
+
+		let uploadUrl = await storage.getItem(key);
+		let offset = 0;
+
+		try {
+			// Saklanan yükleme varsa sunucudaki konumunu öğreniyoruz, bulunamazsa yeni yükleme oluşturulur
+			if (uploadUrl) {
+				const response = await send(file, uploadUrl, { method: "HEAD", signal }, [404, 410]);
+				if (response.ok) {
+					offset = Number(response.headers.get("Upload-Offset") ?? 0);
+				} else {
+					await storage.removeItem(key);
+					uploadUrl = null;
+				}
+			}
+
+			if (!uploadUrl) {
+				const response = await send(file, endpoint, {
+					method: "POST",
+					signal,
+					headers: { "Upload-Length": String(file.size), "Upload-Metadata": encodeMetadata(metadata(file)) },
+				});
+				const location = response.headers.get("Location");
+				if (!location) throw new Error("tus sunucusu yükleme adresi (Location) döndürmedi.");
+
+				uploadUrl = new URL(location, new URL(endpoint, globalThis.location?.href)).toString();
+				await storage.setItem(key, uploadUrl);
+			}
+
+			onProgress(offset, file.size);
+
+			while (offset < file.size) {
+				const chunk = await readAsArrayBuffer(file.slice(offset, offset + chunkSize));
+				const response = await send(file, uploadUrl, {
+					method: "PATCH",
+					signal,
+					headers: { "Content-Type": "application/offset+octet-stream", "Upload-Offset": String(offset) },
+					body: new Uint8Array(chunk),
+				});
+
+				offset = Number(response.headers.get("Upload-Offset") ?? offset + chunk.byteLength);
+				onProgress(offset, file.size);
+			}
+
+			await storage.removeItem(key);
+			return { url: uploadUrl };
+		} catch (error) {
+			// Duraklatılan yüklemeler sunucuda korunur, iptal edilenler sonlandırılır
+			if (signal.aborted && signal.reason === UploadAbortReason.Cancelled && uploadUrl) {
+				await storage.removeItem(key);
+				await send(file, uploadUrl, { method: "DELETE" }, [404, 410]).catch(() => undefined);
+			}
+			throw error;
+		}
+	};
+};
@@ -0,0 +1,237 @@
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { UploadAbortReason } from "@/Enums";
+import type { IUploadItem } from "@/Interfaces";
+import { createUploadQueue } from "@/upload/UploadQueue";
+import { createXhrRequest } from "@/upload/XhrRequest";
+import { vi } from "vitest";
+
+/**
+ * Yükleme kuyruğu testleri, istekler yerel bir Node test sunucusuna gönderilir.
+ */
+describe("createUploadQueue", () => {
+	let server: Server;
+	let baseUrl: string;
+	let handler: (request: IncomingMessage, body: string, response: ServerResponse) => void;
+
+	beforeAll(async () => {
+		server = createServer((request, response) => {
+			response.setHeader("Access-Control-Allow-Origin", "*");
+			response.setHeader("Access-Control-Allow-Headers", "*");
+			if (request.method === "OPTIONS") {
+				response.end();
+				return;
+			}
+
+			const chunks: Buffer[] = [];
+			request.on("data", (chunk: Buffer) => chunks.push(chunk));
+			request.on("end", () => handler(request, Buffer.concat(chunks).toString(), response));
+		});
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterAll(() => {
+		server.closeAllConnections();
+		return new Promise<void>((resolve) => server.close(() => resolve()));
+	});
+
+	/**
+	 * Belirtilen ad ve içerikte bir dosya oluşturur
+	 * @param name - Dosya adı
+	 * @param content - Dosya içeriği
+	 * @returns Oluşturulan File nesnesi
+	 */
+	const createFile = (name: string, content = "hello") => new File([content], name, { type: "text/plain" });
+
+	/**
+	 * Kuyruğun son bildirdiği durumlar verilen koşulu sağlayana kadar bekler
+	 * @param getItems - Güncel durumları döndüren fonksiyon
+	 * @param predicate - Beklenen koşul
+	 */
+	const waitForItems = (getItems: () => IUploadItem[], predicate: (items: IUploadItem[]) => boolean) =>
+		vi.waitFor(() => expect(predicate(getItems())).toBe(true), { timeout: 3000 });
+
+	/**
+	 * Varsayılan XHR isteği ile dosyayı multipart olarak yükler ve ilerlemeyi bildirir.
+	 */
+	it("should upload files with the default XHR request", async () => {
+		const received: string[] = [];
+		handler = (request, body, response) => {
+			received.push(`${request.method} ${request.url} ${request.headers["x-token"]} ${body}`);
+			response.setHeader("Content-Type", "application/json");
+			response.end(JSON.stringify({ id: 1 }));
+		};
+
+		const onSuccess = vi.fn();
+		const onChange = vi.fn();
+		const queue = createUploadQueue({
+			request: createXhrRequest({ url: `${baseUrl}/upload`, headers: { "x-token": "secret" }, fieldName: "document" }),
+			onChange,
+			onSuccess,
+		});
+
+		const file = createFile("report.txt", "report-content");
+		queue.add([file]);
+
+		await waitForItems(queue.getItems, (items) => items[0].status === "success");
+
+		expect(queue.getItems()[0]).toMatchObject({ status: "success", progress: 100, attempts: 1, response: { id: 1 } });
+		expect(onSuccess).toHaveBeenCalledWith(file, { id: 1 });
+		expect(received[0]).toMatch(/^POST \/upload secret .*name="document"; filename="report.txt".*report-content/s);
+		expect(onChange.mock.calls.map(([items]) => items[0].status)).toContain("uploading");
+	});
+
+	/**
+	 * Eşzamanlılık sınırını aşmadan dosyaları sırayla yükler.
+	 */
+	it("should respect the concurrency limit", async () => {
+		let active = 0;
+		let maxActive = 0;
+		const queue = createUploadQueue({
+			concurrency: 2,
+			request: async () => {
+				active += 1;
+				maxActive = Math.max(maxActive, active);
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				active -= 1;
+			},
+		});
+
+		queue.add([createFile("1.txt"), createFile("2.txt"), createFile("3.txt"), createFile("4.txt"), createFile("5.txt")]);
+
+		await waitForItems(queue.getItems, (items) => items.every((item) => item.status === "success"));
+		expect(maxActive).toBe(2);
+	});
+
+	/**
+	 * Başarısız yüklemeleri üstel geri çekilmeyle tekrar dener, denemeler bitince hata bildirir.
+	 */
+	it("should retry failed uploads with exponential backoff", async () => {
+		let requests = 0;
+		handler = (_request, _body, response) => {
+			requests += 1;
+			response.statusCode = requests < 3 ? 500 : 200;
+			response.end("ok");
+		};
+
+		const queue = createUploadQueue({ request: createXhrRequest({ url: baseUrl }), retries: 2, retryDelay: 10 });
+		queue.add([createFile("flaky.txt")]);
+		await waitForItems(queue.getItems, (items) => items[0].status === "success");
+		expect(queue.getItems()[0]).toMatchObject({ attempts: 3, response: "ok" });
+
+		const onError = vi.fn();
+		const failingQueue = createUploadQueue({ request: createXhrRequest({ url: baseUrl }), retries: 1, retryDelay: 10, onError });
+		requests = -10;
+		const file = createFile("broken.txt");
+		failingQueue.add([file]);
+		await waitForItems(failingQueue.getItems, (items) => items[0].status === "error");
+		expect(failingQueue.getItems()[0].attempts).toBe(2);
+		expect(onError).toHaveBeenCalledWith(file, expect.any(Error));
+	});
+
+	/**
+	 * Duraklatılıp devam ettirilen yüklemeler tekrar deneme hakkı harcamaz.
+	 */
+	it("should not spend retries on paused uploads", async () => {
+		const calls: { resolve: () => void; reject: (error: Error) => void }[] = [];
+		const queue = createUploadQueue({
+			retries: 1,
+			retryDelay: 1,
+			request: () =>
+				new Promise<void>((resolve, reject) => {
+					calls.push({ resolve, reject });
+				}),
+		});
+		const file = createFile("paused.txt");
+
+		queue.add([file]);
+		for (let cycle = 0; cycle < 2; cycle += 1) {
+			queue.pause(file);
+			queue.resume(file);
+		}
+		expect(calls).toHaveLength(3);
+		calls[2].reject(new Error("network"));
+
+		await waitForItems(queue.getItems, () => calls.length === 4);
+		expect(queue.getItems()[0]).toMatchObject({ status: "uploading", attempts: 4 });
+		calls[3].resolve();
+		await waitForItems(queue.getItems, (items) => items[0].status === "success");
+	});
+
+	/**
+	 * Devam eden yüklemeyi iptal eder, iptal edilen yükleme yeniden denenebilir.
+	 */
+	it("should cancel and retry uploads", async () => {
+		let respond = true;
+		handler = (_request, _body, response) => {
+			if (respond) response.end("ok");
+		};
+
+		const queue = createUploadQueue({ request: createXhrRequest({ url: baseUrl }) });
+		const file = createFile("slow.txt");
+
+		respond = false;
+		queue.add([file]);
+		expect(queue.getItems()[0].status).toBe("uploading");
+
+		queue.cancel(file);
+		expect(queue.getItems()[0].status).toBe("cancelled");
+
+		respond = true;
+		queue.retry(file);
+		await waitForItems(queue.getItems, (items) => items[0].status === "success");
+		expect(queue.getItems()[0].attempts).toBe(1);
+	});
+
+	/**
+	 * Tüm bekleyen ve devam eden yüklemeleri iptal eder.
+	 */
+	it("should cancel all uploads", () => {
+		const signals: AbortSignal[] = [];
+		const queue = createUploadQueue({
+			concurrency: 1,
+			request: (_file, { signal }) => {
+				signals.push(signal);
+				return new Promise(() => undefined);
+			},
+		});
+
+		queue.add([createFile("1.txt"), createFile("2.txt")]);
+		queue.cancelAll();
+
+		expect(queue.getItems().map((item) => item.status)).toEqual(["cancelled", "cancelled"]);
+		expect(signals).toHaveLength(1);
+		expect(signals[0].aborted).toBe(true);
+	});
+
+	/**
+	 * Ayarlar kuyruktaki dosyaların durumu korunarak değiştirilir, durdurulan yüklemeler start ile kaldığı yerden devam eder.
+	 */
+	it("should reconfigure, stop and start without losing state", async () => {
+		const signals: AbortSignal[] = [];
+		const pending: (() => void)[] = [];
+		const queue = createUploadQueue({
+			concurrency: 1,
+			request: (_file, { signal }) => {
+				signals.push(signal);
+				return new Promise<void>((resolve) => pending.push(resolve));
+			},
+		});
+
+		queue.add([createFile("1.txt"), createFile("2.txt"), createFile("3.txt")]);
+		pending[0]();
+		await waitForItems(queue.getItems, (items) => items[0].status === "success" && items[1].status === "uploading");
+
+		queue.configure({ concurrency: 2 });
+		expect(queue.getItems().map((item) => item.status)).toEqual(["success", "uploading", "uploading"]);
+
+		queue.stop();
+		expect(queue.getItems().map((item) => item.status)).toEqual(["success", "queued", "queued"]);
+		expect(signals.slice(1).every((signal) => signal.reason === UploadAbortReason.Paused)).toBe(true);
+
+		queue.start();
+		expect(queue.getItems().map((item) => item.status)).toEqual(["success", "uploading", "uploading"]);
+		expect(signals).toHaveLength(5);
+	});
+});
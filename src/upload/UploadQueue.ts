@@ -0,0 +1,256 @@
+import { UploadAbortReason } from "@/Enums";
+import type { IUploadItem, IUploadRequest } from "@/Interfaces";
+
+// Kuyruğun dosya başına tuttuğu iç kayıt, iptal kontrolcüsünü de içerir.
+type IUploadEntry = IUploadItem & { controller: AbortController | null };
+
+// Kuyruk oluşturulduktan sonra da değiştirilebilen eşzamanlılık ve tekrar deneme ayarları.
+type IUploadQueueSettings = { concurrency?: number; retries?: number; retryDelay?: number };
+
+/**
+ * Verilen süre kadar bekler, sinyal iptal edilirse beklemeyi keser.
+ * Bekleme bittiğinde sinyale eklenen dinleyici kaldırılır, böylece her tekrar denemede dinleyici birikmez.
+ *
+ * @param {number} ms - Bekleme süresi (milisaniye)
+ * @param {AbortSignal} signal - İptal sinyali
+ * @returns {Promise<void>}
+ */
+const delay = (ms: number, signal: AbortSignal) =>
+	new Promise<void>((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timeout);
+			reject(signal.reason);
+		};
+		const timeout = setTimeout(() => {
+			signal.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal.addEventListener("abort", onAbort, { once: true });
+	});
+
+/**
+ * Dosyaları eşzamanlılık sınırı, üstel geri çekilmeli tekrar deneme, duraklatma ve iptal desteğiyle yükleyen kuyruk oluşturur.
+ * İptal sinyalinin nedeni (UploadAbortReason) istek fonksiyonuna duraklatma ile iptali ayırt etme imkanı verir.
+ * React'ten bağımsızdır, her durum değişikliğinde onChange ile güncel dosya durumlarının kopyasını bildirir.
+ * Ayarlar configure ile kuyruktaki dosyaların durumu korunarak değiştirilebilir.
+ *
+ * @param {Object} params - Parametreler
+ * @param {IUploadRequest} params.request - Tek bir dosyayı yükleyen istek fonksiyonu
+ * @param {number} [params.concurrency=3] - Aynı anda yüklenebilecek dosya sayısı
+ * @param {number} [params.retries=0] - Başarısız yüklemeler için tekrar deneme sayısı
+ * @param {number} [params.retryDelay=1000] - İlk tekrar denemesinden önceki bekleme süresi (milisaniye)
+ * @param {(items: IUploadItem[]) => void} [params.onChange] - Durum değiştiğinde tetiklenir
+ * @param {(file: File, response: unknown) => void} [params.onSuccess] - Dosya yüklendiğinde tetiklenir
+ * @param {(file: File, error: unknown) => void} [params.onError] - Tüm denemeler başarısız olduğunda tetiklenir
+ * @returns Kuyruk aksiyonları
+ */
+export const createUploadQueue = ({
+	request,
+	onChange,
+	onSuccess,
+	onError,
+	...initialSettings
+}: IUploadQueueSettings & {
+	request: IUploadRequest;
+	onChange?: (items: IUploadItem[]) => void;
+	onSuccess?: (file: File, response: unknown) => void;
+	onError?: (file: File, error: unknown) => void;
+}) => {
+	const entries = new Map<File, IUploadEntry>();
+	const settings = { concurrency: 3, retries: 0, retryDelay: 1000 };
+
+	// stop ile durdurulan kuyruk start çağrılana kadar yeni yükleme başlatmaz
+	let stopped = false;
+
+	// Güncel durumların kopyasını bildirir
+	const getItems = (): IUploadItem[] => Array.from(entries.values(), ({ controller: _controller, ...item }) => ({ ...item }));
+	const notify = () => onChange?.(getItems());
+
+	/**
+	 * Dosyayı yükler, hata durumunda üstel geri çekilmeyle tekrar dener.
+	 * Tekrar deneme hakkı ve geri çekilme süresi yalnızca bu çalıştırmadaki başarısız denemelerle hesaplanır,
+	 * duraklatılıp devam ettirilen veya durdurulup yeniden başlatılan yüklemeler deneme hakkı harcamaz.
+	 * @param {IUploadEntry} entry - Yüklenecek dosyanın kaydı
+	 */
+	const run = async (entry: IUploadEntry) => {
+		let failures = 0;
+		const controller = new AbortController();
+		entry.controller = controller;
+		entry.status = "uploading";
+		entry.error = undefined;
+		notify();
+
+		while (!controller.signal.aborted) {
+			entry.attempts += 1;
+			try {
+				const response = await request(entry.file, {
+					signal: controller.signal,
+					attempt: entry.attempts,
+					onProgress: (loaded, total) => {
+						if (controller.signal.aborted) return;
+						entry.progress = total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0;
+						notify();
+					},
+				});
+				if (controller.signal.aborted) return;
+
+				Object.assign(entry, { status: "success", progress: 100, response, controller: null });
+				notify();
+				onSuccess?.(entry.file, response);
+				return;
+			} catch (error) {
+				if (controller.signal.aborted) return;
+
+				failures += 1;
+				if (failures > settings.retries) {
+					Object.assign(entry, { status: "error", error, controller: null });
+					notify();
+					onError?.(entry.file, error);
+					return;
+				}
+
+				// Üstel geri çekilme: retryDelay, 2 * retryDelay, 4 * retryDelay...
+				entry.error = error;
+				notify();
+				await delay(settings.retryDelay * 2 ** (failures - 1), controller.signal).catch(() => undefined);
+			}
+		}
+	};
+
+	// Eşzamanlılık sınırına kadar sıradaki dosyaları başlatır
+	const pump = () => {
+		if (stopped) return;
+		let active = Array.from(entries.values()).filter((entry) => entry.status === "uploading").length;
+
+		for (const entry of entries.values()) {
+			if (active >= settings.concurrency) break;
+			if (entry.status !== "queued") continue;
+
+			active += 1;
+			run(entry).finally(pump);
+		}
+	};
+
+	/**
+	 * Dosyaları kuyruğa ekler, kuyrukta olan dosyalar tekrar eklenmez.
+	 * @param {File[]} files - Eklenecek dosyalar
+	 */
+	const add = (files: File[]) => {
+		for (const file of files) {
+			if (entries.has(file)) continue;
+			entries.set(file, { file, status: "queued", progress: 0, attempts: 0, controller: null });
+		}
+
+		notify();
+		pump();
+	};
+
+	/**
+	 * Dosyanın yüklemesini iptal eder.
+	 * @param {File} file - İptal edilecek dosya
+	 */
+	const cancel = (file: File) => {
+		const entry = entries.get(file);
+		if (!entry || !["queued", "uploading", "paused"].includes(entry.status)) return;
+
+		entry.controller?.abort(UploadAbortReason.Cancelled);
+		Object.assign(entry, { status: "cancelled", controller: null });
+		notify();
+		pump();
+	};
+
+	/**
+	 * Dosyanın yüklemesini duraklatır, sıradaki dosyalar başlatılır.
+	 * @param {File} file - Duraklatılacak dosya
+	 */
+	const pause = (file: File) => {
+		const entry = entries.get(file);
+		if (!entry || (entry.status !== "queued" && entry.status !== "uploading")) return;
+
+		entry.controller?.abort(UploadAbortReason.Paused);
+		Object.assign(entry, { status: "paused", controller: null });
+		notify();
+		pump();
+	};
+
+	/**
+	 * Duraklatılmış yüklemeyi tekrar sıraya alır.
+	 * @param {File} file - Devam ettirilecek dosya
+	 */
+	const resume = (file: File) => {
+		const entry = entries.get(file);
+		if (!entry || entry.status !== "paused") return;
+
+		entry.status = "queued";
+		notify();
+		pump();
+	};
+
+	/**
+	 * Başarısız veya iptal edilmiş yüklemeyi sıfırdan yeniden dener.
+	 * @param {File} file - Yeniden denenecek dosya
+	 */
+	const retry = (file: File) => {
+		const entry = entries.get(file);
+		if (!entry || (entry.status !== "error" && entry.status !== "cancelled")) return;
+
+		Object.assign(entry, { status: "queued", progress: 0, attempts: 0, error: undefined });
+		notify();
+		pump();
+	};
+
+	// Tüm bekleyen ve devam eden yüklemeleri iptal eder
+	const cancelAll = () => {
+		for (const entry of entries.values()) {
+			if (!["queued", "uploading", "paused"].includes(entry.status)) continue;
+			entry.controller?.abort(UploadAbortReason.Cancelled);
+			Object.assign(entry, { status: "cancelled", controller: null });
+		}
+		notify();
+	};
+
+	/**
+	 * Dosyayı kuyruktan kaldırır, devam eden yüklemesi iptal edilir.
+	 * @param {File} file - Kaldırılacak dosya
+	 */
+	const remove = (file: File) => {
+		const entry = entries.get(file);
+		if (!entry) return;
+
+		entry.controller?.abort(UploadAbortReason.Cancelled);
+		entries.delete(file);
+		notify();
+		pump();
+	};
+
+	/**
+	 * Eşzamanlılık ve tekrar deneme ayarlarını değiştirir, verilmeyen ayarlar varsayılan değerlerine döner.
+	 * Devam eden yüklemeler kesilmez, yeni eşzamanlılık sınırı sıradaki dosyalara uygulanır.
+	 * @param {IUploadQueueSettings} next - Yeni ayarlar
+	 */
+	const configure = ({ concurrency = 3, retries = 0, retryDelay = 1000 }: IUploadQueueSettings) => {
+		Object.assign(settings, { concurrency, retries, retryDelay });
+		pump();
+	};
+
+	// Devam eden yüklemeleri durdurup sıraya geri alır, start çağrılana kadar yeni yükleme başlatılmaz
+	const stop = () => {
+		stopped = true;
+		for (const entry of entries.values()) {
+			if (entry.status !== "uploading") continue;
+			entry.controller?.abort(UploadAbortReason.Paused);
+			Object.assign(entry, { status: "queued", controller: null });
+		}
+		notify();
+	};
+
+	// Durdurulan kuyruğu sıradaki dosyalarla devam ettirir
+	const start = () => {
+		stopped = false;
+		pump();
+	};
+
+	configure(initialSettings);
+
+	return { add, cancel, pause, resume, retry, cancelAll, remove, getItems, configure, stop, start };
+};
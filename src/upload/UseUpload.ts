@@ -0,0 +1,91 @@
+import type { IUploadItem, IUploadOptions, IUploadState } from "@/Interfaces";
+import { createTusRequest } from "@/upload/TusRequest";
+import { createUploadQueue } from "@/upload/UploadQueue";
+import { createXhrRequest } from "@/upload/XhrRequest";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+/**
+ * Kabul edilen dosyaları yükleme kuyruğuyla senkronize eden hook.
+ * Listeye eklenen dosyalar kuyruğa alınır, listeden silinen dosyaların yüklemesi iptal edilip kuyruktan kaldırılır.
+ *
+ * @param {File[]} files - Kabul edilmiş dosyalar
+ * @param {IUploadOptions} [options] - Yükleme seçenekleri, verilmezse hiçbir dosya yüklenmez
+ * @returns {IUploadState} Yükleme durumu ve aksiyonları
+ */
+export const useUpload = (files: File[], options?: IUploadOptions): IUploadState => {
+	const [items, setItems] = useState<IUploadItem[]>([]);
+
+	// İstek ve callback'ler her render'da güncellenebildiği için ref üzerinden okunur
+	const optionsRef = useRef(options);
+	optionsRef.current = options;
+	const filesRef = useRef(files);
+	filesRef.current = files;
+
+	const enabled = Boolean(options);
+	const autoUpload = options?.autoUpload ?? true;
+	const { concurrency, retries, retryDelay } = options ?? {};
+
+	// Yükleme kuyruğu bir kez oluşturulur, dosyaların yükleme durumu ayar değişikliklerinde korunur
+	const [queue] = useState(() =>
+		createUploadQueue({
+			request: (file, context) => {
+				const { request, tus, ...requestOptions } = optionsRef.current ?? {};
+				const defaultRequest = tus
+					? createTusRequest({
+							...tus,
+							endpoint:
+								tus.endpoint ?? (typeof requestOptions.url === "function" ? requestOptions.url(file) : requestOptions.url),
+							headers: requestOptions.headers,
+						})
+					: createXhrRequest(requestOptions);
+				return (request ?? defaultRequest)(file, context);
+			},
+			concurrency,
+			retries,
+			retryDelay,
+			onChange: setItems,
+			onSuccess: (file, response) => optionsRef.current?.onUploadSuccess?.(file, response),
+			onError: (file, error) => optionsRef.current?.onUploadError?.(file, error),
+		}),
+	);
+
+	// Eşzamanlılık ve tekrar deneme ayarları mevcut kuyruğa uygulanır
+	useEffect(() => queue.configure({ concurrency, retries, retryDelay }), [queue, concurrency, retries, retryDelay]);
+
+	// Bileşen kaldırıldığında devam eden yüklemeler durdurulur, StrictMode'da yeniden bağlandığında kaldığı yerden devam eder
+	useEffect(() => {
+		queue.start();
+		return queue.stop;
+	}, [queue]);
+
+	// Kuyruğu kabul edilen dosyalarla senkronize eder
+	useEffect(() => {
+		if (!enabled) return;
+
+		const currentFiles = new Set(files);
+		for (const item of queue.getItems()) {
+			if (!currentFiles.has(item.file)) queue.remove(item.file);
+		}
+
+		if (autoUpload) queue.add(files);
+	}, [files, queue, enabled, autoUpload]);
+
+	// Kuyrukta olmayan kabul edilmiş dosyaları yüklemeye başlar
+	const start = useCallback(() => {
+		if (optionsRef.current) queue.add(filesRef.current);
+	}, [queue]);
+
+	return useMemo(
+		() => ({
+			items,
+			isUploading: items.some((item) => item.status === "queued" || item.status === "uploading"),
+			start,
+			cancel: queue.cancel,
+			pause: queue.pause,
+			resume: queue.resume,
+			retry: queue.retry,
+			cancelAll: queue.cancelAll,
+		}),
+		[items, start, queue],
+	);
+};
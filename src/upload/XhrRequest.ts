@@ -0,0 +1,55 @@
+import type { IUploadOptions, IUploadRequest } from "@/Interfaces";
+
+/**
+ * Yanıt gövdesini JSON olarak çözmeyi dener, çözülemezse metni döner.
+ *
+ * @param {string} body - Yanıt gövdesi
+ * @returns {unknown} - Çözülmüş yanıt
+ */
+const parseResponse = (body: string) => {
+	try {
+		return JSON.parse(body);
+	} catch {
+		return body;
+	}
+};
+
+/**
+ * Dosyayı multipart/form-data olarak XMLHttpRequest ile yükleyen istek fonksiyonunu oluşturur.
+ * XHR, fetch'in aksine yükleme ilerlemesini bildirebildiği için varsayılan istek olarak kullanılır.
+ *
+ * @param {IUploadOptions} options - Yükleme seçenekleri
+ * @returns {IUploadRequest} - Yükleme isteği
+ */
+export const createXhrRequest =
+	({ url, method = "POST", headers, fieldName = "file", withCredentials }: IUploadOptions): IUploadRequest =>
+	(file, { onProgress, signal }) =>
+		new Promise((resolve, reject) => {
+			if (!url) throw new Error("Yükleme adresi (url) veya özel istek (request) belirtilmelidir.");
+			if (signal.aborted) return reject(signal.reason);
+
+			const xhr = new XMLHttpRequest();
+			xhr.open(method, typeof url === "function" ? url(file) : url);
+			xhr.withCredentials = Boolean(withCredentials);
+
+			for (const [name, value] of Object.entries((typeof headers === "function" ? headers(file) : headers) ?? {})) {
+				xhr.setRequestHeader(name, value);
+			}
+
+			xhr.upload.onprogress = (event) => onProgress(event.loaded, event.lengthComputable ? event.total : file.size);
+			xhr.onload = () => {
+				if (xhr.status >= 200 && xhr.status < 300) {
+					resolve(parseResponse(xhr.responseText));
+					return;
+				}
+				reject(new Error(`Yükleme başarısız oldu (HTTP ${xhr.status}).`));
+			};
+			xhr.onerror = () => reject(new Error("Yükleme sırasında ağ hatası oluştu."));
+			xhr.onabort = () => reject(signal.reason);
+
+			signal.addEventListener("abort", () => xhr.abort());
+
+			const formData = new FormData();
+			formData.append(fieldName, file, file.name);
+			xhr.send(formData);
+		});
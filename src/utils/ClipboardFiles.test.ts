@@ -0,0 +1,40 @@
+import { getClipboardFiles, renamePastedFile } from "@/utils/ClipboardFiles";
+
+/**
+ * Pano dosyalarını okuma ve yeniden adlandırma testleri
+ */
+describe("getClipboardFiles", () => {
+	/**
+	 * Genel adlı görseller benzersiz adlar alır, diğer dosyaların adı ve görsel içeriği korunur.
+	 */
+	it("should give pasted images unique names", () => {
+		const screenshot = new File(["png"], "image.png", { type: "image/png" });
+		const [first, second] = [renamePastedFile(screenshot), renamePastedFile(screenshot)];
+
+		expect(first.name).toMatch(/^pasted-image-\d+-\d+\.png$/);
+		expect(second.name).not.toBe(first.name);
+		expect(first).toMatchObject({ type: "image/png", size: 3 });
+		expect(renamePastedFile(new File(["x"], "", { type: "image/svg+xml" })).name).toMatch(/\.svg$/);
+		expect(renamePastedFile(new File(["x"], "blob", { type: "image/jpeg" })).name).toMatch(/\.jpg$/);
+
+		const photo = new File(["jpg"], "holiday.jpg", { type: "image/jpeg" });
+		const text = new File(["txt"], "image.txt", { type: "text/plain" });
+		expect(renamePastedFile(photo)).toBe(photo);
+		expect(renamePastedFile(text)).toBe(text);
+	});
+
+	/**
+	 * files boşsa dosyalar items üzerinden okunur, metin öğeleri yok sayılır.
+	 */
+	it("should read files from clipboard items", () => {
+		const file = new File(["a"], "a.txt", { type: "text/plain" });
+		const items = [
+			{ kind: "string", getAsFile: () => null },
+			{ kind: "file", getAsFile: () => file },
+		];
+
+		expect(getClipboardFiles({ files: [], items } as unknown as DataTransfer)).toEqual([file]);
+		expect(getClipboardFiles({ files: [file], items: [] } as unknown as DataTransfer)).toEqual([file]);
+		expect(getClipboardFiles(null)).toEqual([]);
+	});
+});
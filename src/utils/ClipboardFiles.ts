@@ -0,0 +1,42 @@
+// Tarayıcıların ve işletim sistemlerinin panodaki görsellere verdiği genel adlar (örneğin "image.png", "blob")
+const GENERIC_NAME = /^(image|blob|untitled)?(\.[a-z0-9]+)?$/i;
+
+// Aynı milisaniyede yapıştırılan görsellerin adlarının çakışmaması için sayaç
+let pasteCount = 0;
+
+/**
+ * Yapıştırılan görselin adı genel bir adsa benzersiz bir ad üretir, diğer dosyaların adı korunur.
+ * Tüm ekran görüntüleri "image.png" adıyla geldiği için aksi halde ikinci görsel tekrar eden dosya olarak reddedilirdi.
+ *
+ * @param {File} file - Panodan okunan dosya
+ * @returns {File} - Gerekirse yeni adla oluşturulan dosya
+ */
+export const renamePastedFile = (file: File) => {
+	if (!file.type.startsWith("image/") || !GENERIC_NAME.test(file.name)) return file;
+
+	pasteCount += 1;
+	const extension = file.type.split("/")[1].split("+")[0].replace("jpeg", "jpg");
+	return new File([file], `pasted-image-${Date.now()}-${pasteCount}.${extension}`, {
+		type: file.type,
+		lastModified: file.lastModified,
+	});
+};
+
+/**
+ * Yapıştırma olayının verisindeki dosyaları okur, genel adlı görseller yeniden adlandırılır.
+ * Bazı tarayıcılar dosyaları yalnızca items üzerinden sunduğu için files boşsa items okunur.
+ *
+ * @param {DataTransfer | null} clipboardData - Yapıştırma olayının verisi
+ * @returns {File[]} - Panodaki dosyalar
+ */
+export const getClipboardFiles = (clipboardData: DataTransfer | null) => {
+	if (!clipboardData) return [];
+
+	const files = clipboardData.files?.length
+		? Array.from(clipboardData.files)
+		: Array.from(clipboardData.items ?? []).flatMap((item) => {
+				const file = item.kind === "file" ? item.getAsFile() : null;
+				return file ? [file] : [];
+			});
+	return files.map(renamePastedFile);
+};
@@ -0,0 +1,149 @@
+import { collectFiles, filterFiles, getDropSources, getRelativePath, hasDirectory } from "@/utils/CollectFiles";
+import { vi } from "vitest";
+
+/**
+ * Klasör dolaşma testleri, tarayıcının FileSystemEntry nesneleri sahte girdilerle taklit edilir.
+ */
+describe("collectFiles", () => {
+	// Klasör ağacı: ad -> dosya içeriği veya alt klasör
+	type ITree = { [name: string]: string | ITree };
+
+	/**
+	 * Ağaçtan sahte bir FileSystemEntry oluşturur, klasör içerikleri ikişerli parçalar halinde okunur
+	 * @param name - Girdi adı
+	 * @param node - Dosya içeriği veya alt ağaç
+	 * @returns Sahte girdi
+	 */
+	const createEntry = (name: string, node: string | ITree): FileSystemEntry => {
+		if (typeof node === "string") {
+			return {
+				name,
+				isFile: true,
+				isDirectory: false,
+				file: (resolve: (file: File) => void) => resolve(new File([node], name)),
+			} as unknown as FileSystemEntry;
+		}
+
+		const children = Object.entries(node).map(([childName, child]) => createEntry(childName, child));
+		return {
+			name,
+			isFile: false,
+			isDirectory: true,
+			createReader: () => {
+				let index = 0;
+				return {
+					readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+						resolve(children.slice(index, index + 2));
+						index += 2;
+					},
+				};
+			},
+		} as unknown as FileSystemEntry;
+	};
+
+	const tree: ITree = {
+		"a.txt": "a",
+		".DS_Store": "x",
+		"Thumbs.db": "x",
+		nested: { "b.txt": "b", "c.txt": "c", deeper: { "d.txt": "d" } },
+		".git": { HEAD: "ref" },
+	};
+
+	/**
+	 * Klasörleri özyinelemeli olarak dolaşır, dosyaları göreli yollarıyla toplar ve sistem dosyalarını atlar.
+	 */
+	it("should collect files recursively with relative paths", async () => {
+		const files = await collectFiles([createEntry("photos", tree), new File(["e"], "e.txt")]);
+
+		expect(files.map(getRelativePath)).toEqual([
+			"photos/a.txt",
+			"photos/nested/b.txt",
+			"photos/nested/c.txt",
+			"photos/nested/deeper/d.txt",
+			"e.txt",
+		]);
+		expect(files[3].relativePath).toBe("photos/nested/deeper/d.txt");
+	});
+
+	/**
+	 * Okunamayan girdiler atlanır ve bildirilir, diğer dosyalar toplanmaya devam eder.
+	 */
+	it("should skip entries that cannot be read", async () => {
+		const denied = new DOMException("Permission denied", "NotReadableError");
+		const failing = (name: string, isFile: boolean) =>
+			({
+				name,
+				isFile,
+				isDirectory: !isFile,
+				file: (_resolve: unknown, reject: (error: unknown) => void) => reject(denied),
+				createReader: () => ({ readEntries: (_resolve: unknown, reject: (error: unknown) => void) => reject(denied) }),
+			}) as unknown as FileSystemEntry;
+		const onError = vi.fn();
+
+		const files = await collectFiles(
+			[failing("locked", false), createEntry("photos", { "a.txt": "a" }), failing("gone.txt", true)],
+			{},
+			onError,
+		);
+
+		expect(files.map(getRelativePath)).toEqual(["photos/a.txt"]);
+		expect(onError).toHaveBeenCalledTimes(2);
+		expect(onError).toHaveBeenCalledWith(denied);
+	});
+
+	/**
+	 * Derinlik ve girdi sayısı sınırlarına uyar, istenirse gizli dosyaları da toplar.
+	 */
+	it("should respect depth and entry limits", async () => {
+		const source = () => [createEntry("photos", tree)];
+
+		expect((await collectFiles(source(), { maxDepth: 1 })).map(getRelativePath)).toEqual(["photos/a.txt"]);
+		expect((await collectFiles(source(), { maxEntries: 4 })).map(getRelativePath)).toEqual([
+			"photos/a.txt",
+			"photos/nested/b.txt",
+		]);
+		expect((await collectFiles(source(), { maxDepth: 1, ignoreHiddenFiles: false })).map(getRelativePath)).toEqual([
+			"photos/a.txt",
+			"photos/.DS_Store",
+			"photos/Thumbs.db",
+		]);
+	});
+
+	/**
+	 * File System Access tanıtıcıları ile bırakılan klasörleri de dolaşır.
+	 */
+	it("should traverse file system handles", async () => {
+		const handle = {
+			kind: "directory",
+			name: "docs",
+			values: async function* () {
+				yield { kind: "file", name: "readme.md", getFile: async () => new File(["#"], "readme.md") };
+			},
+		};
+		const items = [
+			{ kind: "file", getAsFileSystemHandle: async () => handle },
+			{ kind: "string", getAsFile: () => null },
+		];
+
+		const sources = getDropSources({ items } as unknown as DataTransfer);
+
+		expect(sources).toHaveLength(1);
+		expect(hasDirectory(sources)).toBe(true);
+		expect((await collectFiles(sources)).map(getRelativePath)).toEqual(["docs/readme.md"]);
+	});
+
+	/**
+	 * Klasör seçme penceresinden gelen dosyalar webkitRelativePath ile filtrelenir.
+	 */
+	it("should filter picked directory files", () => {
+		const pick = (path: string) => {
+			const file = new File(["x"], path.split("/").at(-1) as string);
+			Object.defineProperty(file, "webkitRelativePath", { value: path });
+			return file;
+		};
+
+		const files = filterFiles([pick("album/a.jpg"), pick("album/.DS_Store"), pick("album/2024/b.jpg")], { maxDepth: 1 });
+
+		expect(files.map((file) => file.relativePath)).toEqual(["album/a.jpg"]);
+	});
+});
@@ -0,0 +1,190 @@
+import type { IDirectoryOptions, IFileWithPath } from "@/Interfaces";
+
+// Chromium'un sürüklenen öğeler için sunduğu, TypeScript DOM tiplerinde bulunmayan File System Access tanıtıcıları
+type IFileSystemHandle =
+	| { kind: "file"; name: string; getFile: () => Promise<File> }
+	| { kind: "directory"; name: string; values: () => AsyncIterable<IFileSystemHandle> };
+
+type IFileSystemHandleItem = DataTransferItem & { getAsFileSystemHandle?: () => Promise<IFileSystemHandle | null> };
+
+// Bırakılan bir öğenin okunabileceği kaynak
+export type IDropSource = FileSystemEntry | Promise<IFileSystemHandle | null> | File;
+
+// İşletim sistemlerinin klasörlere ve arşivlere kendiliğinden eklediği dosya ve klasörler
+const SYSTEM_FILES = new Set(["thumbs.db", "desktop.ini", "__macosx"]);
+
+/**
+ * Dosya veya klasör adının gizli ya da sistem dosyasına (.DS_Store, Thumbs.db gibi) ait olup olmadığını kontrol eder.
+ *
+ * @param {string} name - Dosya veya klasör adı
+ * @returns {boolean} - Gizli veya sistem dosyası ise true
+ */
+export const isHiddenFile = (name: string) => name.startsWith(".") || SYSTEM_FILES.has(name.toLowerCase());
+
+/**
+ * Dosyanın bırakılan klasöre göre göreli yolunu döner, klasörden gelmeyen dosyalar için dosya adını döner.
+ *
+ * @param {File} file - Dosya
+ * @returns {string} - Göreli yol (örneğin "photos/2024/a.jpg")
+ */
+export const getRelativePath = (file: File) => (file as IFileWithPath).relativePath || file.webkitRelativePath || file.name;
+
+/**
+ * Dosyaya göreli yolunu ekler, yol daha önce eklenmişse değiştirilmez.
+ *
+ * @param {File} file - Dosya
+ * @param {string} relativePath - Göreli yol
+ * @returns {IFileWithPath} - Aynı dosya
+ */
+export const withRelativePath = (file: File, relativePath: string): IFileWithPath => {
+	if (!(file as IFileWithPath).relativePath) {
+		Object.defineProperty(file, "relativePath", { value: relativePath, enumerable: true, configurable: true });
+	}
+	return file;
+};
+
+/**
+ * Bırakma olayındaki öğelerin kaynaklarını senkron olarak okur.
+ * DataTransfer içeriği olay işleyicisi bittikten sonra temizlendiği için bu işlem olay sırasında yapılmalıdır.
+ *
+ * @param {DataTransfer} dataTransfer - Bırakma olayının verisi
+ * @returns {IDropSource[]} - Öğelerin kaynakları
+ */
+export const getDropSources = (dataTransfer: DataTransfer): IDropSource[] =>
+	Array.from(dataTransfer.items ?? []).flatMap((item: IFileSystemHandleItem): IDropSource[] => {
+		if (item.kind !== "file") return [];
+
+		const entry = item.webkitGetAsEntry?.();
+		if (entry) return [entry];
+		if (item.getAsFileSystemHandle) return [item.getAsFileSystemHandle()];
+
+		const file = item.getAsFile();
+		return file ? [file] : [];
+	});
+
+/**
+ * Kaynaklar arasında içeriği asenkron olarak okunması gereken bir klasör olup olmadığını kontrol eder.
+ *
+ * @param {IDropSource[]} sources - Bırakılan öğelerin kaynakları
+ * @returns {boolean} - Klasör (veya türü henüz bilinmeyen bir tanıtıcı) varsa true
+ */
+export const hasDirectory = (sources: IDropSource[]) =>
+	sources.some((source) => source instanceof Promise || ("isDirectory" in source && source.isDirectory));
+
+/**
+ * Klasör girdisinin tüm alt girdilerini okur, readEntries her çağrıda yalnızca bir kısmını döndürdüğü için boş dönene kadar çağrılır.
+ *
+ * @param {FileSystemDirectoryEntry} entry - Klasör girdisi
+ * @returns {Promise<FileSystemEntry[]>} - Alt girdiler
+ */
+const readDirectoryEntries = async (entry: FileSystemDirectoryEntry) => {
+	const reader = entry.createReader();
+	const entries: FileSystemEntry[] = [];
+
+	while (true) {
+		const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+		if (!batch.length) return entries;
+		entries.push(...batch);
+	}
+};
+
+/**
+ * Bırakılan dosya ve klasörleri özyinelemeli olarak dolaşır ve tüm dosyaları göreli yollarıyla toplar.
+ * Klasörler derinlik sınırına kadar okunur, toplam girdi sayısı sınırına ulaşıldığında dolaşma durur.
+ * Okunamayan girdiler (örneğin izin reddedildiğinde veya dolaşma sırasında silindiğinde) atlanır ve hataları onError ile bildirilir.
+ *
+ * @param {IDropSource[]} sources - Bırakılan öğelerin kaynakları
+ * @param {IDirectoryOptions} options - Klasör okuma seçenekleri
+ * @param {(error: unknown) => void} [onError] - Okunamayan girdinin hatasıyla çağrılır
+ * @returns {Promise<IFileWithPath[]>} - Toplanan dosyalar
+ */
+export const collectFiles = async (
+	sources: IDropSource[],
+	{
+		maxDepth = Number.POSITIVE_INFINITY,
+		maxEntries = Number.POSITIVE_INFINITY,
+		ignoreHiddenFiles = true,
+	}: IDirectoryOptions = {},
+	onError?: (error: unknown) => void,
+) => {
+	const files: IFileWithPath[] = [];
+	let entryCount = 0;
+
+	/**
+	 * Kaynağı okur, dosyaysa listeye ekler, klasörse alt girdilerini dolaşır.
+	 * @param {IDropSource | IFileSystemHandle} source - Okunacak kaynak
+	 * @param {string} parentPath - Üst klasörün göreli yolu
+	 * @param {number} depth - Kaynağın bulunduğu klasör derinliği
+	 */
+	const visit = async (source: IDropSource | IFileSystemHandle, parentPath: string, depth: number): Promise<void> => {
+		const resolved = source instanceof Promise ? await source : source;
+		if (!resolved || entryCount >= maxEntries) return;
+		if (ignoreHiddenFiles && isHiddenFile(resolved.name)) return;
+
+		entryCount += 1;
+		const path = `${parentPath}${resolved.name}`;
+
+		if (resolved instanceof File) {
+			files.push(withRelativePath(resolved, path));
+			return;
+		}
+
+		if ("kind" in resolved) {
+			if (resolved.kind === "file") {
+				files.push(withRelativePath(await resolved.getFile(), path));
+				return;
+			}
+			if (depth >= maxDepth) return;
+			for await (const child of resolved.values()) await safeVisit(child, `${path}/`, depth + 1);
+			return;
+		}
+
+		if (resolved.isFile) {
+			const file = await new Promise<File>((resolve, reject) => (resolved as FileSystemFileEntry).file(resolve, reject));
+			files.push(withRelativePath(file, path));
+			return;
+		}
+
+		if (depth >= maxDepth) return;
+		for (const child of await readDirectoryEntries(resolved as FileSystemDirectoryEntry)) {
+			await safeVisit(child, `${path}/`, depth + 1);
+		}
+	};
+
+	/**
+	 * Kaynağı okur, okunamayan kaynak diğer kaynakların toplanmasını durdurmaz.
+	 * @param {IDropSource | IFileSystemHandle} source - Okunacak kaynak
+	 * @param {string} parentPath - Üst klasörün göreli yolu
+	 * @param {number} depth - Kaynağın bulunduğu klasör derinliği
+	 */
+	const safeVisit = (source: IDropSource | IFileSystemHandle, parentPath: string, depth: number) =>
+		visit(source, parentPath, depth).catch(onError);
+
+	for (const source of sources) await safeVisit(source, "", 0);
+	return files;
+};
+
+/**
+ * Dosya seçme penceresinden veya düz bir bırakmadan gelen dosyalara klasör seçeneklerini uygular.
+ * webkitdirectory ile seçilen dosyaların yolu webkitRelativePath'ten alınır.
+ *
+ * @param {File[]} files - Dosyalar
+ * @param {IDirectoryOptions} options - Klasör okuma seçenekleri
+ * @returns {IFileWithPath[]} - Filtrelenmiş dosyalar
+ */
+export const filterFiles = (
+	files: File[],
+	{
+		maxDepth = Number.POSITIVE_INFINITY,
+		maxEntries = Number.POSITIVE_INFINITY,
+		ignoreHiddenFiles = true,
+	}: IDirectoryOptions = {},
+) =>
+	files
+		.filter((file) => {
+			const segments = getRelativePath(file).split("/");
+			if (segments.length - 1 > maxDepth) return false;
+			return !ignoreHiddenFiles || !segments.some(isHiddenFile);
+		})
+		.slice(0, maxEntries)
+		.map((file) => withRelativePath(file, getRelativePath(file)));
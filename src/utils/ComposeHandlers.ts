@@ -0,0 +1,16 @@
+import type { SyntheticEvent } from "react";
+
+/**
+ * Birden fazla olay işleyicisini tek bir işleyicide birleştirir.
+ * Dahili işleyici önce, kullanıcı tarafından verilen işleyici sonra çağrılır.
+ *
+ * @param {...Function} handlers - Birleştirilecek olay işleyicileri.
+ * @returns {Function} Birleştirilmiş olay işleyicisi.
+ */
+export const composeHandlers =
+	<E extends SyntheticEvent>(...handlers: (((event: E) => void) | undefined)[]) =>
+	(event: E) => {
+		for (const handler of handlers) {
+			handler?.(event);
+		}
+	};
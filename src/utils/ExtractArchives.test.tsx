@@ -0,0 +1,161 @@
+import { crc32, deflateRawSync } from "node:zlib";
+import type { IFileRejection } from "@/Interfaces";
+import { useDropzone } from "@/dropzone/UseDropzone";
+import { createMessages } from "@/locale/Locale";
+import { getRelativePath } from "@/utils/CollectFiles";
+import { extractArchives } from "@/utils/ExtractArchives";
+import { readAsArrayBuffer } from "@/utils/ReadFile";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+
+// Arşive eklenecek girdi, size verilirse başlıklara gerçek boyut yerine yazılır
+type IEntry = { path: string; content?: string; stored?: boolean; size?: number };
+
+/**
+ * Verilen girdilerden ZIP arşivi oluşturur.
+ * @param entries - Arşivin girdileri
+ * @param name - Arşivin adı
+ * @returns ZIP dosyası
+ */
+const createZip = (entries: IEntry[], name = "scans.zip") => {
+	const parts: Buffer[] = [];
+	const directory: Buffer[] = [];
+	let offset = 0;
+
+	for (const { path, content = "", stored, size } of entries) {
+		const data = Buffer.from(content);
+		const compressed = stored ? data : deflateRawSync(data);
+		const pathBytes = Buffer.from(path);
+		const method = stored ? 0 : 8;
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(method, 8);
+		local.writeUInt32LE(crc32(data), 14);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(size ?? data.length, 22);
+		local.writeUInt16LE(pathBytes.length, 26);
+
+		const record = Buffer.alloc(46);
+		record.writeUInt32LE(0x02014b50, 0);
+		record.writeUInt16LE(method, 10);
+		record.writeUInt16LE(((2024 - 1980) << 9) | (5 << 5) | 17, 14);
+		record.writeUInt32LE(crc32(data), 16);
+		record.writeUInt32LE(compressed.length, 20);
+		record.writeUInt32LE(size ?? data.length, 24);
+		record.writeUInt16LE(pathBytes.length, 28);
+		record.writeUInt32LE(offset, 42);
+
+		parts.push(local, pathBytes, compressed);
+		directory.push(record, pathBytes);
+		offset += local.length + pathBytes.length + compressed.length;
+	}
+
+	const directoryBytes = Buffer.concat(directory);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(directoryBytes.length, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return new File([new Uint8Array(Buffer.concat([...parts, directoryBytes, end]))], name, { type: "application/zip" });
+};
+
+/**
+ * Arşiv açma testleri, arşivler node:zlib ile oluşturulur ve tarayıcıdaki gibi DecompressionStream ile açılır.
+ */
+describe("extractArchives", () => {
+	const messages = createMessages("en");
+	const codes = (rejections: IFileRejection[]) => rejections.map(({ file, error }) => [file.name, error[0].code]);
+
+	/**
+	 * Arşivler yerlerinde içlerindeki dosyalarla değiştirilir, klasör ve sistem girdileri atlanır.
+	 */
+	it("should expand stored and deflated entries with their relative paths", async () => {
+		const text = new File(["x"], "notes.txt", { type: "text/plain" });
+		const result = await extractArchives(
+			[
+				createZip([
+					{ path: "scans/" },
+					{ path: "scans/a.pdf", content: "%PDF-1.7 ".repeat(20) },
+					{ path: "scans/b.png", content: "png", stored: true },
+					{ path: "__MACOSX/scans/._a.pdf", content: "meta" },
+				]),
+				text,
+			],
+			{ messages },
+		);
+
+		expect(result.rejections).toEqual([]);
+		expect(result.files.map(getRelativePath)).toEqual(["scans/a.pdf", "scans/b.png", "notes.txt"]);
+		expect(result.files.map((file) => file.type)).toEqual(["application/pdf", "image/png", "text/plain"]);
+		expect(new Date(result.files[0].lastModified).toDateString()).toBe(new Date(2024, 4, 17).toDateString());
+		expect(new TextDecoder().decode(await readAsArrayBuffer(result.files[0]))).toBe("%PDF-1.7 ".repeat(20));
+		expect(result.files[2]).toBe(text);
+	});
+
+	/**
+	 * Bozuk arşivler archive-invalid, sınırları aşan arşivler archive-too-large ile reddedilir.
+	 */
+	it("should reject corrupt and oversized archives", async () => {
+		const valid = createZip([{ path: "a.txt", content: "a" }]);
+		const truncated = new File([valid.slice(0, valid.size - 10)], "truncated.zip", { type: "application/zip" });
+		const lying = createZip([{ path: "bomb.txt", content: "a".repeat(1000), size: 10 }], "lying.zip");
+		const bomb = createZip([{ path: "bomb.txt", content: "a".repeat(100_000) }], "bomb.zip");
+		const crowded = createZip(
+			Array.from({ length: 4 }, (_, index) => ({ path: `${index}.txt`, content: `${index}`, stored: true })),
+			"crowded.zip",
+		);
+
+		const { files, rejections } = await extractArchives([valid, truncated, lying, bomb, crowded], {
+			maxEntries: 3,
+			messages,
+		});
+
+		expect(files.map((file) => file.name)).toEqual(["a.txt"]);
+		expect(codes(rejections)).toEqual([
+			["truncated.zip", "archive-invalid"],
+			["lying.zip", "archive-invalid"],
+			["bomb.zip", "archive-too-large"],
+			["crowded.zip", "archive-too-large"],
+		]);
+		expect(rejections[2].error[0].details).toMatchObject({ limit: 100, archiveLimit: "ratio" });
+		expect(rejections[3].error[0]).toMatchObject({
+			message: "crowded.zip contains too many files. Archives can contain at most 3 files.",
+			details: { limit: 3, actual: 4, unit: "files", archiveLimit: "entries" },
+		});
+	});
+
+	/**
+	 * expandArchives açıkken arşivdeki dosyalar doğrulamadan ve tekrar eden dosya kontrolünden geçer.
+	 */
+	it("should validate and deduplicate archive entries in useDropzone", async () => {
+		const result: { current: ReturnType<typeof useDropzone> | null } = { current: null };
+		const TestComponent = () => {
+			result.current = useDropzone({ expandArchives: { maxEntries: 10 }, acceptedFormats: ["image/"], locale: "en" });
+			return <input {...result.current.getInputProps({ "data-testid": "input" } as object)} />;
+		};
+		render(<TestComponent />);
+		const input = screen.getByTestId("input");
+		expect(input).toHaveAttribute("accept", "image/, .zip");
+
+		const archive = () =>
+			createZip([
+				{ path: "photos/a.png", content: "a" },
+				{ path: "photos/b.pdf", content: "b" },
+			]);
+		fireEvent.change(input, { target: { files: [archive()] } });
+		await waitFor(() => expect(result.current?.files.map(getRelativePath)).toEqual(["photos/a.png"]));
+		expect(codes(result.current?.fileRejections ?? [])).toEqual([["b.pdf", "file-invalid-type"]]);
+
+		fireEvent.change(input, { target: { files: [archive(), new File(["x"], "broken.zip")] } });
+		await waitFor(() =>
+			expect(codes(result.current?.fileRejections ?? [])).toEqual([
+				["b.pdf", "file-invalid-type"],
+				["broken.zip", "archive-invalid"],
+				["a.png", "file-duplicate"],
+			]),
+		);
+		expect(result.current?.files).toHaveLength(1);
+	});
+});
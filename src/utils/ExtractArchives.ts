@@ -0,0 +1,298 @@
+import type { IArchiveOptions, IFileError, IFileErrorMessage, IFileInfo, IFileRejection, IMessageParams } from "@/Interfaces";
+import { isHiddenFile, withRelativePath } from "@/utils/CollectFiles";
+import { readAsArrayBuffer } from "@/utils/ReadFile";
+import { FILE_SIGNATURES } from "@/validator/ContentValidator";
+import { validateFile } from "@/validator/Validator";
+
+// ZIP kayıtlarının imzaları
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_ENTRY = 0x04034b50;
+
+// ZIP64 arşivlerinde 32 bitlik alanlara yazılan değer
+const ZIP64_MARKER = 0xffffffff;
+
+// Arşiv olarak açılan dosyaların MIME tipleri
+const ARCHIVE_TYPES = new Set(["application/zip", "application/x-zip-compressed"]);
+
+// İmza tablosunda bulunmayan ve arşivlerde sık görülen formatların MIME tipleri
+const EXTRA_TYPES: Record<string, string> = {
+	".txt": "text/plain",
+	".csv": "text/csv",
+	".json": "application/json",
+	".xml": "application/xml",
+	".svg": "image/svg+xml",
+	".heic": "image/heic",
+};
+
+// CRC-32 hesaplamasında kullanılan tablo
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+	let value = index;
+	for (let bit = 0; bit < 8; bit++) value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+	return value >>> 0;
+});
+
+// Merkezi dizinden okunan arşiv girdisi
+type IZipEntry = {
+	path: string;
+	method: number;
+	crc: number;
+	compressedSize: number;
+	size: number;
+	offset: number;
+	lastModified: number;
+};
+
+/**
+ * Dosyanın açılacak bir ZIP arşivi olup olmadığını türünden veya uzantısından kontrol eder.
+ * OOXML (.docx, .xlsx) gibi ZIP tabanlı belgeler arşiv sayılmaz.
+ *
+ * @param {Pick<IFileInfo, "name" | "type">} file - Dosya
+ * @returns {boolean} - ZIP arşivi ise true
+ */
+export const isArchive = ({ name, type }: Pick<IFileInfo, "name" | "type">) =>
+	ARCHIVE_TYPES.has(type) || name.toLowerCase().endsWith(".zip");
+
+/**
+ * Byte dizisinin CRC-32 değerini hesaplar.
+ *
+ * @param {Uint8Array} bytes - Byte dizisi
+ * @returns {number} - CRC-32 değeri
+ */
+const crc32 = (bytes: Uint8Array) => {
+	let crc = 0xffffffff;
+	for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Girdinin yolunu normalleştirir, kök ve üst klasör (..) bölümleri atılır.
+ *
+ * @param {string} path - Arşivdeki yol
+ * @returns {string} - Göreli yol
+ */
+const normalizePath = (path: string) =>
+	path
+		.split(/[/\\]/)
+		.filter((segment) => segment && segment !== "." && segment !== "..")
+		.join("/");
+
+/**
+ * Dosya adının uzantısından MIME tipini tahmin eder, bilinmeyen uzantılar için boş metin döner.
+ *
+ * @param {string} name - Dosya adı
+ * @returns {string} - MIME tipi
+ */
+const getTypeFromName = (name: string) => {
+	const extension = name.slice(name.lastIndexOf(".")).toLowerCase();
+	if (!name.includes(".")) return "";
+	return FILE_SIGNATURES.find((signature) => signature.extensions.includes(extension))?.type ?? EXTRA_TYPES[extension] ?? "";
+};
+
+/**
+ * MS-DOS biçimindeki tarih ve saati zaman damgasına çevirir.
+ *
+ * @param {number} date - DOS tarihi
+ * @param {number} time - DOS saati
+ * @returns {number} - Zaman damgası (milisaniye)
+ */
+const fromDosDateTime = (date: number, time: number) =>
+	new Date(
+		(date >> 9) + 1980,
+		((date >> 5) & 0x0f) - 1,
+		date & 0x1f,
+		time >> 11,
+		(time >> 5) & 0x3f,
+		(time & 0x1f) * 2,
+	).getTime();
+
+/**
+ * Arşivin merkezi dizinini okur ve dosya girdilerini döner, klasör girdileri atlanır.
+ * Şifreli ve ZIP64 arşivler desteklenmez.
+ *
+ * @param {Uint8Array} bytes - Arşivin içeriği
+ * @returns {IZipEntry[]} - Dosya girdileri
+ */
+const readDirectory = (bytes: Uint8Array) => {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+	// Dizin sonu kaydı arşivin sonunda, en fazla 64 KB'lık yorumdan önce bulunur
+	const lowest = Math.max(0, bytes.length - 22 - 0xffff);
+	let end = bytes.length - 22;
+	while (end >= lowest && view.getUint32(end, true) !== END_OF_DIRECTORY) end -= 1;
+	if (end < lowest) throw new Error("ZIP dizin sonu kaydı bulunamadı.");
+
+	const count = view.getUint16(end + 10, true);
+	let offset = view.getUint32(end + 16, true);
+	if (offset === ZIP64_MARKER) throw new Error("ZIP64 arşivleri desteklenmiyor.");
+
+	const decoder = new TextDecoder();
+	const entries: IZipEntry[] = [];
+	for (let index = 0; index < count; index++) {
+		if (view.getUint32(offset, true) !== DIRECTORY_ENTRY) throw new Error("ZIP merkezi dizin kaydı bozuk.");
+
+		const nameLength = view.getUint16(offset + 28, true);
+		const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+		const entry: IZipEntry = {
+			path: normalizePath(path),
+			method: view.getUint16(offset + 10, true),
+			crc: view.getUint32(offset + 16, true),
+			compressedSize: view.getUint32(offset + 20, true),
+			size: view.getUint32(offset + 24, true),
+			offset: view.getUint32(offset + 42, true),
+			lastModified: fromDosDateTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true)),
+		};
+		if (view.getUint16(offset + 8, true) & 0x01) throw new Error("Şifreli ZIP arşivleri desteklenmiyor.");
+		if ([entry.compressedSize, entry.size, entry.offset].includes(ZIP64_MARKER)) {
+			throw new Error("ZIP64 arşivleri desteklenmiyor.");
+		}
+
+		if (!path.endsWith("/") && entry.path) entries.push(entry);
+		offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+	}
+	return entries;
+};
+
+/**
+ * Girdinin içeriğini açar. Sıkıştırılmamış (stored) ve deflate girdiler desteklenir, deflate DecompressionStream ile açılır.
+ * Bildirilen boyuttan fazla açılan girdilerin (boyutunu gizleyen zip bombaları) okunması durdurulur.
+ *
+ * @param {Uint8Array} bytes - Arşivin içeriği
+ * @param {IZipEntry} entry - Girdi
+ * @returns {Promise<Uint8Array>} - Girdinin açılmış içeriği
+ */
+const readEntry = async (bytes: Uint8Array, entry: IZipEntry) => {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	if (view.getUint32(entry.offset, true) !== LOCAL_ENTRY) throw new Error("ZIP girdi başlığı bozuk.");
+
+	const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+	const data = bytes.subarray(start, start + entry.compressedSize);
+	if (data.length !== entry.compressedSize) throw new Error("ZIP girdisi eksik.");
+
+	let content = data;
+	if (entry.method === 8) {
+		const decompression = new DecompressionStream("deflate-raw");
+		const writer = decompression.writable.getWriter();
+		// Yazma hataları okuma sırasında ortaya çıkar
+		writer.write(data).catch(() => undefined);
+		writer.close().catch(() => undefined);
+
+		const reader = decompression.readable.getReader();
+		content = new Uint8Array(entry.size);
+		let length = 0;
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			if (length + value.length > entry.size) {
+				await reader.cancel();
+				throw new Error("ZIP girdisi bildirilen boyuttan büyük.");
+			}
+			content.set(value, length);
+			length += value.length;
+		}
+		if (length !== entry.size) throw new Error("ZIP girdisi bildirilen boyuttan küçük.");
+	} else if (entry.method !== 0) {
+		throw new Error("Desteklenmeyen ZIP sıkıştırma yöntemi.");
+	}
+
+	if (content.length !== entry.size || crc32(content) !== entry.crc) throw new Error("ZIP girdisinin CRC değeri uyuşmuyor.");
+	return content;
+};
+
+/**
+ * Arşivi sınırlara göre kontrol eder, sınırlar açmadan önce merkezi dizindeki boyutlarla hesaplanır.
+ *
+ * @param {File} archive - Arşiv dosyası
+ * @param {IZipEntry[]} entries - Arşivin dosya girdileri
+ * @param {Required<IArchiveOptions>} limits - Arşiv sınırları
+ * @param {IFileErrorMessage[]} [messages] - Hata mesajları dizisi
+ * @returns {IFileError | null} - Sınır aşılıyorsa archive-too-large hatası
+ */
+const checkLimits = (
+	archive: File,
+	entries: IZipEntry[],
+	{ maxEntries, maxUncompressedSize, maxCompressionRatio }: Required<IArchiveOptions>,
+	messages?: IFileErrorMessage[],
+) => {
+	const size = entries.reduce((total, entry) => total + entry.size, 0);
+	const ratio = size / Math.max(archive.size, 1);
+	const check = (condition: boolean, params: IMessageParams) =>
+		validateFile({ validationCode: "archive-too-large", condition, messages, params: { name: archive.name, ...params } });
+
+	return (
+		check(entries.length <= maxEntries, { limit: maxEntries, actual: entries.length, unit: "files", archiveLimit: "entries" }) ??
+		check(size <= maxUncompressedSize, { limit: maxUncompressedSize, actual: size, unit: "bytes", archiveLimit: "size" }) ??
+		check(ratio <= maxCompressionRatio, {
+			limit: maxCompressionRatio,
+			actual: Math.round(ratio * 100) / 100,
+			archiveLimit: "ratio",
+		})
+	);
+};
+
+/**
+ * Dosyalar arasındaki ZIP arşivlerini açar ve arşivlerin yerine içlerindeki dosyaları, arşivdeki göreli yollarıyla koyar.
+ * Açılan dosyalar normal dosyalar gibi tekrar kontrolünden ve doğrulamadan geçer, türleri uzantılarından belirlenir.
+ * Bozuk veya desteklenmeyen arşivler archive-invalid, girdi sayısı, açılmış boyut veya sıkıştırma oranı sınırını
+ * aşan arşivler archive-too-large koduyla reddedilir. Arşiv yoksa sonuç senkron döner.
+ *
+ * @param {File[]} files - Dosyalar
+ * @param {Object} options - Arşiv sınırları ve seçenekler
+ * @param {number} [options.maxEntries=1000] - Arşivdeki en fazla dosya sayısı
+ * @param {number} [options.maxUncompressedSize=512 MB] - Açılmış toplam boyut üst sınırı (byte cinsinden)
+ * @param {number} [options.maxCompressionRatio=100] - Açılmış toplam boyutun arşiv boyutuna en fazla oranı
+ * @param {boolean} [options.ignoreHiddenFiles=true] - Arşivdeki gizli ve sistem dosyalarını (__MACOSX gibi) yok sayar
+ * @param {IFileErrorMessage[]} [options.messages] - Hata mesajları dizisi
+ * @returns {{ files: File[]; rejections: IFileRejection[] } | Promise<{ files: File[]; rejections: IFileRejection[] }>} - Dosyalar ve reddedilen arşivler
+ */
+export const extractArchives = (
+	files: File[],
+	{
+		maxEntries = 1000,
+		maxUncompressedSize = 512 * 1024 * 1024,
+		maxCompressionRatio = 100,
+		ignoreHiddenFiles = true,
+		messages,
+	}: IArchiveOptions & { ignoreHiddenFiles?: boolean; messages?: IFileErrorMessage[] } = {},
+) => {
+	if (!files.some(isArchive)) return { files, rejections: [] as IFileRejection[] };
+
+	/**
+	 * Arşivi açar, arşiv reddedilirse reddetme kaydını döner.
+	 * @param {File} archive - Arşiv dosyası
+	 * @returns {Promise<File[] | IFileRejection>} - Arşivdeki dosyalar veya reddetme
+	 */
+	const extract = async (archive: File): Promise<File[] | IFileRejection> => {
+		const reject = (error: IFileError | null): IFileRejection => ({ file: archive, error: error ? [error] : [] });
+
+		try {
+			const bytes = new Uint8Array(await readAsArrayBuffer(archive));
+			const entries = readDirectory(bytes);
+
+			const limitError = checkLimits(archive, entries, { maxEntries, maxUncompressedSize, maxCompressionRatio }, messages);
+			if (limitError) return reject(limitError);
+
+			const extracted: File[] = [];
+			for (const entry of entries) {
+				if (ignoreHiddenFiles && entry.path.split("/").some(isHiddenFile)) continue;
+
+				const name = entry.path.split("/").at(-1) as string;
+				const file = new File([await readEntry(bytes, entry)], name, {
+					type: getTypeFromName(name),
+					lastModified: entry.lastModified,
+				});
+				extracted.push(withRelativePath(file, entry.path));
+			}
+			return extracted;
+		} catch {
+			return reject(
+				validateFile({ validationCode: "archive-invalid", condition: false, messages, params: { name: archive.name } }),
+			);
+		}
+	};
+
+	return Promise.all(files.map((file) => (isArchive(file) ? extract(file) : [file]))).then((results) => ({
+		files: results.flatMap((result) => (Array.isArray(result) ? result : [])),
+		rejections: results.filter((result): result is IFileRejection => !Array.isArray(result)),
+	}));
+};
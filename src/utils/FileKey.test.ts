@@ -0,0 +1,62 @@
+import { getFileKey } from "@/utils/FileKey";
+import { vi } from "vitest";
+
+/**
+ * Tekrar eden dosya anahtarı testleri
+ */
+describe("getFileKey", () => {
+	const createFile = (content: string, name: string, lastModified = 1) => new File([content], name, { lastModified });
+
+	/**
+	 * Varsayılan strateji göreli yolu, klasörden gelmeyen dosyalar için dosya adını kullanır.
+	 */
+	it("should use the relative path by default", () => {
+		const file = createFile("a", "report.pdf");
+		Object.defineProperty(file, "relativePath", { value: "2024/report.pdf" });
+
+		expect(getFileKey(createFile("a", "report.pdf"))).toBe("report.pdf");
+		expect(getFileKey(file)).toBe("2024/report.pdf");
+	});
+
+	/**
+	 * Boyut ve değiştirilme tarihi aynı isimli farklı dosyaları ayırt eder.
+	 */
+	it("should include size and last modified date", () => {
+		const strategy = "name+size+lastModified";
+
+		expect(getFileKey(createFile("abc", "report.pdf", 5), strategy)).toBe("report.pdf:3:5");
+		expect(getFileKey(createFile("abc", "report.pdf", 5), strategy)).not.toBe(
+			getFileKey(createFile("abc", "report.pdf", 6), strategy),
+		);
+	});
+
+	/**
+	 * İçerik özeti farklı isimli aynı dosyaları eşleştirir.
+	 */
+	it("should hash the content with sha256", async () => {
+		expect(await getFileKey(createFile("abc", "a.txt"), "sha256")).toBe(
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+		);
+		expect(await getFileKey(createFile("abc", "copy.txt"), "sha256")).toBe(
+			await getFileKey(createFile("abc", "a.txt"), "sha256"),
+		);
+	});
+
+	/**
+	 * SubtleCrypto bulunmayan güvenli olmayan bağlamlarda ad, boyut ve tarih anahtarı kullanılır.
+	 */
+	it("should fall back to name, size and date without SubtleCrypto", () => {
+		vi.stubGlobal("crypto", {});
+
+		expect(getFileKey(createFile("abc", "a.txt", 5), "sha256")).toBe("a.txt:3:5");
+
+		vi.unstubAllGlobals();
+	});
+
+	/**
+	 * Özel anahtar fonksiyonunun sonucunu döner.
+	 */
+	it("should use a custom key function", async () => {
+		expect(await getFileKey(createFile("a", "a.txt"), async (file) => `custom:${file.name}`)).toBe("custom:a.txt");
+	});
+});
@@ -0,0 +1,32 @@
+import type { IDuplicateStrategy } from "@/Interfaces";
+import { getRelativePath } from "@/utils/CollectFiles";
+import { readAsArrayBuffer } from "@/utils/ReadFile";
+
+/**
+ * Dosya içeriğinin SHA-256 özetini SubtleCrypto ile hesaplar.
+ *
+ * @param {Blob} file - Özeti hesaplanacak dosya
+ * @returns {Promise<string>} - Onaltılık (hex) özet
+ */
+export const hashFile = async (file: Blob) => {
+	const digest = await crypto.subtle.digest("SHA-256", new Uint8Array(await readAsArrayBuffer(file)));
+	return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Dosyayı tekrar eden dosya kontrolü, silme ve reddetme filtreleme işlemlerinde tanımlayan anahtarı üretir.
+ * "name" stratejisi klasörden gelen dosyalar için göreli yolu kullanır, böylece farklı klasörlerdeki aynı isimli dosyalar çakışmaz.
+ * SubtleCrypto yalnızca güvenli (HTTPS) bağlamlarda bulunduğu için diğer bağlamlarda "sha256" yerine "name+size+lastModified" kullanılır.
+ *
+ * @param {File} file - Dosya
+ * @param {IDuplicateStrategy} [strategy="name"] - Tekrar eden dosya stratejisi
+ * @returns {string | Promise<string>} - Dosya anahtarı, içerik özeti ve asenkron özel fonksiyonlar için Promise
+ */
+export const getFileKey = (file: File, strategy: IDuplicateStrategy = "name"): string | Promise<string> => {
+	if (typeof strategy === "function") return strategy(file);
+	if (strategy === "sha256" && globalThis.crypto?.subtle) return hashFile(file);
+	if (strategy === "sha256" || strategy === "name+size+lastModified") {
+		return [getRelativePath(file), file.size, file.lastModified].join(":");
+	}
+	return getRelativePath(file);
+};
@@ -0,0 +1,17 @@
+/**
+ * Blob içeriğini ArrayBuffer olarak okur.
+ * Blob.arrayBuffer desteklenmeyen ortamlarda (örneğin jsdom) FileReader kullanılır.
+ *
+ * @param {Blob} blob - Okunacak blob veya dosya
+ * @returns {Promise<ArrayBuffer>} - Blob içeriği
+ */
+export const readAsArrayBuffer = (blob: Blob): Promise<ArrayBuffer> => {
+	if (typeof blob.arrayBuffer === "function") return blob.arrayBuffer();
+
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as ArrayBuffer);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsArrayBuffer(blob);
+	});
+};
@@ -0,0 +1,39 @@
+// @vitest-environment node
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { build } from "vite";
+
+/**
+ * Derlenmiş paketin CommonJS giriş noktalarının package.json "exports" alanı üzerinden require ile yüklenebildiğini doğrular.
+ */
+describe("package exports", () => {
+	const root = path.resolve(__dirname, "..");
+	const packageJson = JSON.parse(readFileSync(path.join(root, "package.json"), "utf8"));
+	const packageRoot = mkdtempSync(path.join(tmpdir(), "react-dropzone-kit-"));
+
+	afterAll(() => rmSync(packageRoot, { recursive: true, force: true }));
+
+	/**
+	 * Paket kendi adıyla require edildiğinde Node "exports" alanındaki require koşulunu çözer.
+	 */
+	it("should require the built validator entry from CommonJS", async () => {
+		await build({
+			root,
+			configFile: path.join(root, "vite.config.ts"),
+			logLevel: "silent",
+			build: { outDir: path.join(packageRoot, "dist") },
+		});
+		writeFileSync(path.join(packageRoot, "package.json"), JSON.stringify(packageJson));
+
+		const require = createRequire(path.join(packageRoot, "index.js"));
+		const { validateFiles } = require(`${packageJson.name}/validator`);
+		const { files, rejections } = await validateFiles([{ name: "a.txt", type: "text/plain", size: 2 }], {
+			acceptedFormats: ["image/"],
+		});
+
+		expect(files).toEqual([]);
+		expect(rejections[0].error[0].code).toBe("file-invalid-type");
+	}, 60_000);
+});
@@ -0,0 +1,21 @@
+// DOM'a ve React'e bağlı olmayan doğrulama giriş noktası (react-dropzone-kit/validator), sunucu tarafında kullanılır.
+export { DropzoneErrorCode } from "@/Enums";
+export { formatBytes, getLocaleMessages, registerLocale, renderMessage } from "@/locale/Locale";
+export { validateFiles } from "@/validator/DescriptorValidator";
+export { matchesFormat, validator } from "@/validator/Validator";
+export type {
+	IFileDescriptor,
+	IFileError,
+	IFileErrorDetails,
+	IFileErrorMessage,
+	IFileErrorTypes,
+	IFileInfo,
+	IFileRejection,
+	IFileSource,
+	IFileTypeRule,
+	IFileTypeRules,
+	ILocaleMessages,
+	IMessageParams,
+	IMessageTemplate,
+	IValidationSchema,
+} from "@/Interfaces";
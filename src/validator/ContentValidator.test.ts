@@ -0,0 +1,144 @@
+import type { IFileError } from "@/Interfaces";
+import { createContentValidator, detectFileType } from "@/validator/ContentValidator";
+
+/**
+ * Dosya içeriği (magic byte) doğrulayıcısı testleri
+ */
+describe("content sniffing", () => {
+	/**
+	 * Testler için hata mesajlarını tanımlayan dizi
+	 */
+	const messages: IFileError[] = [{ code: "file-content-mismatch", message: "Declared {declared}, detected {detected}" }];
+
+	const context = { files: [], messages, signal: new AbortController().signal };
+
+	// Dosya başlıkları
+	const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00];
+	const EXE = [0x4d, 0x5a, 0x90, 0x00];
+	const WEBP = [
+		...Array.from("RIFF", (char) => char.charCodeAt(0)),
+		0,
+		0,
+		0,
+		0,
+		...Array.from("WEBPVP8 ", (char) => char.charCodeAt(0)),
+	];
+	const ZIP = [0x50, 0x4b, 0x03, 0x04, 0x14, 0x00];
+
+	/**
+	 * Verilen ana markayla bir ISO-BMFF "ftyp" başlığı oluşturur
+	 * @param brand - Ana marka (örneğin "heic")
+	 * @returns Başlık byte'ları
+	 */
+	const ftyp = (brand: string) => [0, 0, 0, 0x18, ...Array.from(`ftyp${brand}`, (char) => char.charCodeAt(0))];
+
+	/**
+	 * Verilen byte'larla başlayan bir dosya oluşturur
+	 * @param bytes - Dosyanın ilk byte'ları
+	 * @param name - Dosya adı
+	 * @param type - Bildirilen dosya türü (MIME tipi)
+	 * @returns Oluşturulan File nesnesi
+	 */
+	const createFile = (bytes: number[], name: string, type: string) => new File([new Uint8Array(bytes)], name, { type });
+
+	/**
+	 * İmza tablosundan dosyanın gerçek formatını tespit eder.
+	 */
+	it("should detect formats from their signatures", async () => {
+		expect((await detectFileType(createFile(PNG, "a.png", "")))?.type).toBe("image/png");
+		expect((await detectFileType(createFile(WEBP, "a.webp", "")))?.type).toBe("image/webp");
+		expect((await detectFileType(createFile(EXE, "a.exe", "")))?.type).toBe("application/x-msdownload");
+		expect(await detectFileType(createFile([0x68, 0x69], "a.txt", "text/plain"))).toBeNull();
+	});
+
+	/**
+	 * ISO-BMFF dosyaları ana markalarına göre ayrılır, HEIC ve AVIF görselleri video olarak tespit edilmez.
+	 */
+	it("should tell ISO-BMFF images apart from videos by their major brand", async () => {
+		expect((await detectFileType(createFile(ftyp("heic"), "IMG_0001.HEIC", "image/heic")))?.type).toBe("image/heic");
+		expect((await detectFileType(createFile(ftyp("mif1"), "a.heif", "image/heif")))?.type).toBe("image/heif");
+		expect((await detectFileType(createFile(ftyp("avif"), "a.avif", "image/avif")))?.type).toBe("image/avif");
+		expect((await detectFileType(createFile(ftyp("isom"), "a.mp4", "video/mp4")))?.type).toBe("video/mp4");
+
+		const validate = createContentValidator({ acceptedFormats: ["image/"] });
+		expect(await validate(createFile(ftyp("heic"), "IMG_0001.HEIC", "image/heic"), context)).toBeNull();
+		expect(await validate(createFile(ftyp("avif"), "a.avif", "image/avif"), context)).toBeNull();
+		expect(await validate(createFile(ftyp("isom"), "a.png", "image/png"), context)).toMatchObject({
+			details: { detected: "video/mp4" },
+		});
+	});
+
+	/**
+	 * Uzantısı değiştirilmiş çalıştırılabilir dosyaları bildirilen ve tespit edilen türle reddeder.
+	 */
+	it("should reject a renamed executable", async () => {
+		const validate = createContentValidator({ acceptedFormats: ["image/png", ".png"] });
+
+		const result = await validate(createFile(EXE, "photo.png", "image/png"), context);
+
+		expect(result).toEqual({
+			code: "file-content-mismatch",
+			message: "Declared image/png, detected application/x-msdownload",
+			details: {
+				declared: "image/png",
+				detected: "application/x-msdownload",
+				actual: "application/x-msdownload",
+				acceptedFormats: ["image/png", ".png"],
+			},
+		});
+	});
+
+	/**
+	 * İçeriği kabul edilen formatlarla uyuşan dosyaları kabul eder.
+	 */
+	it("should accept files whose content matches the accepted formats", async () => {
+		const validate = createContentValidator({
+			acceptedFormats: ["image/", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+		});
+
+		expect(await validate(createFile(PNG, "photo.png", "image/png"), context)).toBeNull();
+		expect(
+			await validate(
+				createFile(ZIP, "report.docx", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"),
+				context,
+			),
+		).toBeNull();
+	});
+
+	/**
+	 * Kabul edilen formatlar yoksa bildirilen tür tespit edilen türle karşılaştırılır.
+	 */
+	it("should compare against the declared type without accepted formats", async () => {
+		const validate = createContentValidator({});
+
+		expect(await validate(createFile(EXE, "photo.jpg", "image/jpeg"), context)).toEqual({
+			code: "file-content-mismatch",
+			message: "Declared image/jpeg, detected application/x-msdownload",
+			details: { declared: "image/jpeg", detected: "application/x-msdownload", actual: "application/x-msdownload" },
+		});
+		expect(await validate(createFile(EXE, "setup.exe", ""), context)).toBeNull();
+		expect(await validate(createFile([0x68, 0x69], "notes.txt", "text/plain"), context)).toBeNull();
+	});
+
+	/**
+	 * Bilinen bir imzası olan türle bildirilen ancak hiçbir imzayla eşleşmeyen içerik reddedilir, imzasız formatlar kabul edilir.
+	 */
+	it("should reject unrecognized content declared as a format with a known signature", async () => {
+		const html = Array.from("<script>alert(1)</script>", (char) => char.charCodeAt(0));
+		const validate = createContentValidator({ acceptedFormats: ["image/"] });
+
+		expect(await validate(createFile(html, "cat.png", "image/png"), context)).toEqual({
+			code: "file-content-mismatch",
+			message: "Declared image/png, detected ?",
+			details: { declared: "image/png", detected: "?", actual: "?", acceptedFormats: ["image/"] },
+		});
+		expect(await validate(createFile(html, "logo.svg", "image/svg+xml"), context)).toBeNull();
+		expect(await createContentValidator({ acceptedFormats: [".png"] })(createFile(html, "cat.png", ""), context)).toMatchObject({
+			details: { declared: ".png", detected: "?" },
+		});
+		expect(await createContentValidator({})(createFile(html, "notes.png", ""), context)).toMatchObject({
+			details: { declared: ".png" },
+		});
+		expect(await createContentValidator({})(createFile([0xff, 0xfb, 0x90], "song.mp3", "audio/mpeg"), context)).toBeNull();
+	});
+});
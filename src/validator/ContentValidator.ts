@@ -0,0 +1,224 @@
+import type { IFileSignature, IFileValidator } from "@/Interfaces";
+import { readAsArrayBuffer } from "@/utils/ReadFile";
+import { matchesFormat, validateFile } from "@/validator/Validator";
+
+/**
+ * Metni byte dizisine dönüştürür (imza tablosundaki ASCII imzalar için).
+ *
+ * @param {string} value - ASCII metin
+ * @returns {number[]} - Byte dizisi
+ */
+const ascii = (value: string) => Array.from(value, (char) => char.charCodeAt(0));
+
+/**
+ * ISO-BMFF tabanlı formatlar için "ftyp" kutusundaki ana markaya (major brand) göre imza kayıtları üretir.
+ *
+ * @param {string[]} brands - Formatın ana markaları (4 karakter)
+ * @param {Omit<IFileSignature, "magic">} signature - Markalar için ortak imza bilgileri
+ * @returns {IFileSignature[]} - Her marka için bir imza kaydı
+ */
+const isoBrands = (brands: string[], signature: Omit<IFileSignature, "magic">): IFileSignature[] =>
+	brands.map((brand) => ({
+		...signature,
+		magic: [
+			[4, ascii("ftyp")],
+			[8, ascii(brand)],
+		],
+	}));
+
+// Bilinen dosya formatlarının imza (magic byte) tablosu. Bir kaydın tüm imza parçaları eşleşmelidir.
+export const FILE_SIGNATURES: IFileSignature[] = [
+	{ type: "image/png", extensions: [".png"], magic: [[0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]] },
+	{ type: "image/jpeg", extensions: [".jpg", ".jpeg", ".jfif"], magic: [[0, [0xff, 0xd8, 0xff]]] },
+	{ type: "image/gif", extensions: [".gif"], magic: [[0, ascii("GIF8")]] },
+	{
+		type: "image/webp",
+		extensions: [".webp"],
+		magic: [
+			[0, ascii("RIFF")],
+			[8, ascii("WEBP")],
+		],
+	},
+	{ type: "image/tiff", extensions: [".tif", ".tiff"], magic: [[0, [0x49, 0x49, 0x2a, 0x00]]] },
+	{ type: "image/tiff", extensions: [".tif", ".tiff"], magic: [[0, [0x4d, 0x4d, 0x00, 0x2a]]] },
+	{ type: "application/pdf", extensions: [".pdf"], magic: [[0, ascii("%PDF-")]] },
+	{
+		type: "application/zip",
+		extensions: [".zip", ".docx", ".xlsx", ".pptx", ".odt", ".ods", ".odp", ".epub", ".jar"],
+		compatibleTypes: [
+			"application/x-zip-compressed",
+			"application/vnd.openxmlformats-officedocument",
+			"application/vnd.oasis.opendocument",
+			"application/epub+zip",
+			"application/java-archive",
+		],
+		magic: [[0, [0x50, 0x4b, 0x03, 0x04]]],
+	},
+	...isoBrands(["heic", "heix", "heim", "heis", "hevc", "hevx"], {
+		type: "image/heic",
+		extensions: [".heic"],
+		compatibleTypes: ["image/heif", "image/heic-sequence"],
+	}),
+	...isoBrands(["mif1", "msf1"], {
+		type: "image/heif",
+		extensions: [".heif", ".heic"],
+		compatibleTypes: ["image/heic", "image/heif-sequence"],
+	}),
+	...isoBrands(["avif", "avis"], { type: "image/avif", extensions: [".avif"] }),
+	// Görsel markaları dışındaki tüm ISO-BMFF dosyaları MP4 ailesinden sayılır
+	{
+		type: "video/mp4",
+		extensions: [".mp4", ".m4v", ".m4a", ".mov"],
+		compatibleTypes: ["audio/mp4", "audio/x-m4a", "video/quicktime", "video/x-m4v"],
+		magic: [[4, ascii("ftyp")]],
+	},
+	// ftyp kutusu olmadan doğrudan atomlarla başlayan eski QuickTime dosyaları
+	...["moov", "mdat", "wide", "free"].map(
+		(atom): IFileSignature => ({
+			type: "video/quicktime",
+			extensions: [".mov"],
+			compatibleTypes: ["video/mp4"],
+			magic: [[4, ascii(atom)]],
+		}),
+	),
+	{
+		type: "video/webm",
+		extensions: [".webm", ".mkv"],
+		compatibleTypes: ["audio/webm", "video/x-matroska"],
+		magic: [[0, [0x1a, 0x45, 0xdf, 0xa3]]],
+	},
+	{ type: "audio/mpeg", extensions: [".mp3"], magic: [[0, ascii("ID3")]] },
+	// ID3 etiketi olmayan MP3 dosyaları doğrudan bir MPEG çerçeve başlığıyla başlar
+	...[0xfb, 0xfa, 0xf3, 0xf2].map(
+		(byte): IFileSignature => ({ type: "audio/mpeg", extensions: [".mp3"], magic: [[0, [0xff, byte]]] }),
+	),
+	{
+		type: "audio/wav",
+		extensions: [".wav"],
+		compatibleTypes: ["audio/x-wav", "audio/wave"],
+		magic: [
+			[0, ascii("RIFF")],
+			[8, ascii("WAVE")],
+		],
+	},
+	{
+		type: "audio/ogg",
+		extensions: [".ogg", ".oga", ".ogv", ".opus"],
+		compatibleTypes: ["video/ogg", "application/ogg"],
+		magic: [[0, ascii("OggS")]],
+	},
+	{ type: "application/gzip", extensions: [".gz", ".tgz"], compatibleTypes: ["application/x-gzip"], magic: [[0, [0x1f, 0x8b]]] },
+	{ type: "application/x-7z-compressed", extensions: [".7z"], magic: [[0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]]] },
+	{
+		type: "application/vnd.rar",
+		extensions: [".rar"],
+		compatibleTypes: ["application/x-rar-compressed"],
+		magic: [[0, ascii("Rar!")]],
+	},
+	{
+		type: "application/x-msdownload",
+		extensions: [".exe", ".dll"],
+		compatibleTypes: ["application/x-msdos-program", "application/vnd.microsoft.portable-executable"],
+		magic: [[0, ascii("MZ")]],
+	},
+	{ type: "application/x-executable", extensions: [".elf", ".so"], magic: [[0, [0x7f, ...ascii("ELF")]]] },
+];
+
+// İmza kontrolü için okunan byte sayısı
+const SIGNATURE_LENGTH = 32;
+
+/**
+ * Dosya adının uzantısını küçük harfle döner.
+ *
+ * @param {string} name - Dosya adı
+ * @returns {string | null} - Uzantı (örneğin ".png") veya null
+ */
+const getExtension = (name: string) => {
+	const index = name.lastIndexOf(".");
+	return index > 0 ? name.slice(index).toLowerCase() : null;
+};
+
+/**
+ * Verilen formatın (MIME tipi veya uzantı) tespit edilen imzayla uyumlu olup olmadığını kontrol eder.
+ *
+ * @param {IFileSignature} signature - Tespit edilen imza
+ * @param {string} format - Kabul edilen format veya bildirilen tür
+ * @returns {boolean} - Uyumluysa true
+ */
+const isCompatible = (signature: IFileSignature, format: string) => {
+	if (format.startsWith(".")) return signature.extensions.includes(format.toLowerCase());
+	return [signature.type, ...(signature.compatibleTypes ?? [])].some(
+		(type) => type.startsWith(format) || format.startsWith(type),
+	);
+};
+
+/**
+ * Formatın (MIME tipi veya uzantı) imza tablosunda bilinen bir imzası olup olmadığını kontrol eder.
+ * "image/" gibi önekler birden fazla formatı kapsadığı için (SVG gibi imzasız formatlar dahil) bilinen sayılmaz.
+ *
+ * @param {string} format - MIME tipi veya uzantı
+ * @returns {boolean} - Format imza tablosunda varsa true
+ */
+const hasSignature = (format: string) =>
+	FILE_SIGNATURES.some((signature) =>
+		format.startsWith(".")
+			? signature.extensions.includes(format.toLowerCase())
+			: [signature.type, ...(signature.compatibleTypes ?? [])].some((type) => format.startsWith(type)),
+	);
+
+/**
+ * Dosyanın ilk byte'larını okuyarak gerçek formatını imza tablosundan tespit eder.
+ *
+ * @param {File} file - İncelenecek dosya
+ * @param {IFileSignature[]} [signatures=FILE_SIGNATURES] - Kullanılacak imza tablosu
+ * @returns {Promise<IFileSignature | null>} - Eşleşen imza veya format tanınmazsa null
+ */
+export const detectFileType = async (file: File, signatures: IFileSignature[] = FILE_SIGNATURES) => {
+	const bytes = new Uint8Array(await readAsArrayBuffer(file.slice(0, SIGNATURE_LENGTH)));
+
+	return (
+		signatures.find((signature) =>
+			signature.magic.every(([offset, magic]) => magic.every((byte, index) => bytes[offset + index] === byte)),
+		) ?? null
+	);
+};
+
+/**
+ * Dosya içeriğini imza tablosuyla doğrulayan doğrulayıcıyı oluşturur.
+ * Kabul edilen formatlar verilmişse tespit edilen format bu listeyle, verilmemişse bildirilen türle karşılaştırılır.
+ * İçeriği hiçbir imzayla eşleşmeyen dosyalar, bildirilen türün (yoksa uzantının) veya eşleştiği kabul edilen formatın bilinen bir imzası varsa reddedilir.
+ * İmzası olmayan formatlar (örneğin düz metin) ve bildirilen türü zaten geçersiz olan dosyalar bu doğrulayıcı tarafından reddedilmez.
+ *
+ * @param {Object} params - Parametreler
+ * @param {string[] | undefined} params.acceptedFormats - Kabul edilen dosya formatları
+ * @returns {IFileValidator} - İçerik doğrulayıcısı
+ */
+export const createContentValidator =
+	({ acceptedFormats }: { acceptedFormats?: string[] }): IFileValidator =>
+	async (file, { messages }) => {
+		const extension = getExtension(file.name);
+		const declaredType = file.type && file.type !== "application/octet-stream" ? file.type : null;
+
+		// Bildirilen türü kabul edilmeyen dosyalar zaten "file-invalid-type" ile reddedilir
+		const matchedFormats = acceptedFormats?.filter((format) => matchesFormat(file, format));
+		if (matchedFormats && !matchedFormats.length) return null;
+
+		const signature = await detectFileType(file);
+		const declared = declaredType ?? extension;
+
+		const condition = !signature
+			? ![...(declared ? [declared] : []), ...(matchedFormats ?? [])].some(hasSignature)
+			: acceptedFormats
+				? acceptedFormats.some((format) => isCompatible(signature, format))
+				: declaredType
+					? isCompatible(signature, declaredType)
+					: !extension || isCompatible(signature, extension);
+
+		const detected = signature?.type ?? "?";
+		return validateFile({
+			validationCode: "file-content-mismatch",
+			condition,
+			messages,
+			params: { name: file.name, declared: declared ?? "?", detected, actual: detected, acceptedFormats },
+		});
+	};
@@ -0,0 +1,72 @@
+// @vitest-environment node
+import { Readable } from "node:stream";
+import type { IValidationSchema } from "@/Interfaces";
+import { createMessages } from "@/locale/Locale";
+import { validateFiles, validator } from "@/validator";
+
+/**
+ * Sunucu tarafı doğrulama testleri, DOM olmadan node ortamında çalışır.
+ */
+describe("validateFiles", () => {
+	const schema: IValidationSchema = JSON.parse(
+		JSON.stringify({ acceptedFormats: ["image/", ".pdf"], maxSize: 8, maxFiles: 4, rules: { ".pdf": { maxSize: 4 } } }),
+	);
+
+	/**
+	 * Buffer, Blob ve akış içeren dosya tanımları istemciyle aynı kodlar ve mesajlarla doğrulanır.
+	 */
+	it("should reject exactly what the client validator rejects", async () => {
+		const { files, rejections } = await validateFiles(
+			[
+				{ name: "a.png", type: "image/png", data: Buffer.from("1234") },
+				{ name: "b.png", data: new Blob(["123456789"], { type: "image/png" }) },
+				{ name: "c.pdf", type: "application/pdf", data: Readable.from([Buffer.from("12"), Buffer.from("345")]) },
+				{ name: "d.txt", type: "text/plain", size: 2 },
+			],
+			schema,
+			{ locale: "en" },
+		);
+
+		expect(files.map((file) => file.name)).toEqual(["a.png"]);
+		expect(rejections.map(({ file, index, error }) => [file.name, index, error.map((item) => item.code)])).toEqual([
+			["b.png", 1, ["file-too-large"]],
+			["c.pdf", 2, ["file-too-large"]],
+			["d.txt", 3, ["file-invalid-type"]],
+		]);
+
+		const client = validator({
+			...schema,
+			files: [
+				{ name: "b.png", type: "image/png", size: 9 },
+				{ name: "c.pdf", type: "application/pdf", size: 5 },
+			],
+			messages: createMessages("en"),
+		});
+		expect(rejections.slice(0, 2).map(({ error }) => error)).toEqual(client.map(({ error }) => error));
+	});
+
+	/**
+	 * Akışlar yalnızca boyut sınırına kadar okunur, boyut kontrolü yoksa hiç okunmaz.
+	 */
+	it("should read streams only as far as the size limits require", async () => {
+		let pulled = 0;
+		const stream = () =>
+			new ReadableStream<Uint8Array>({
+				pull: (controller) => {
+					pulled += 1;
+					controller.enqueue(new Uint8Array(4));
+				},
+			});
+
+		const { rejections } = await validateFiles([{ name: "big.png", type: "image/png", data: stream() }], { maxSize: 10 });
+		expect(rejections[0].error[0]).toMatchObject({ code: "file-too-large", details: { limit: 10, actual: 12 } });
+		expect(pulled).toBeLessThanOrEqual(4);
+
+		pulled = 0;
+		const { files } = await validateFiles([{ name: "big.png", type: "image/png", data: stream() }], {
+			acceptedFormats: ["image/"],
+		});
+		expect(files).toHaveLength(1);
+		expect(pulled).toBeLessThanOrEqual(1);
+	});
+});
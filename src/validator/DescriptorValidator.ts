@@ -0,0 +1,99 @@
+import type { IFileDescriptor, IFileErrorMessage, IFileInfo, IFileRejection, IFileSource, IValidationSchema } from "@/Interfaces";
+import { createMessages } from "@/locale/Locale";
+import { validator } from "@/validator/Validator";
+
+/**
+ * Web akışını parça parça okuyan async iterator, okuma yarıda bırakılırsa akış iptal edilir.
+ *
+ * @param {ReadableStream<Uint8Array>} stream - Web akışı
+ * @returns {AsyncGenerator<Uint8Array>} - Akışın parçaları
+ */
+async function* readStream(stream: ReadableStream<Uint8Array>) {
+	const reader = stream.getReader();
+	let done = false;
+	try {
+		while (true) {
+			const result = await reader.read();
+			done = result.done;
+			if (result.done) return;
+			yield result.value;
+		}
+	} finally {
+		if (!done) await reader.cancel();
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Şemanın boyut kontrolleri için içeriğin en fazla kaç byte'ının okunması gerektiğini döner.
+ * Alt sınır varsa içeriğin tamamı okunur, yalnızca üst sınırlar varsa en büyük sınırın bir byte fazlası yeterlidir.
+ *
+ * @param {IValidationSchema} schema - Kural şeması
+ * @returns {number} - Okunacak byte sayısı, boyut kontrolü yoksa 0
+ */
+const getReadLimit = ({ maxSize, minSize, maxTotalSize, rules = {} }: IValidationSchema) => {
+	const ruleList = Object.values(rules);
+	if (minSize || ruleList.some((rule) => rule.minSize)) return Number.POSITIVE_INFINITY;
+
+	const limits = [maxSize, maxTotalSize, ...ruleList.map((rule) => rule.maxSize)].filter((limit) => limit !== undefined);
+	return limits.length > 0 ? Math.max(...limits) + 1 : 0;
+};
+
+/**
+ * İçeriğin boyutunu döner. Akışlar sınıra ulaşılana kadar okunur, sınırı aşan akışların okunması durdurulur.
+ *
+ * @param {IFileSource} data - Dosya içeriği
+ * @param {number} limit - Okunacak en fazla byte sayısı
+ * @returns {Promise<number>} - Boyut (byte cinsinden), akışlarda en fazla okunan byte sayısı kadar
+ */
+const measureSize = async (data: IFileSource, limit: number) => {
+	if (data instanceof Uint8Array) return data.byteLength;
+	if (data instanceof Blob) return data.size;
+
+	let size = 0;
+	const chunks = "getReader" in data ? readStream(data) : data;
+	for await (const chunk of chunks) {
+		size += typeof chunk === "string" ? new TextEncoder().encode(chunk).byteLength : chunk.byteLength;
+		if (size >= limit) break;
+	}
+	return size;
+};
+
+/**
+ * Sunucuya yüklenen dosyaları (Buffer, Blob veya akış içeren dosya tanımları) tarayıcıdaki Dropzone ile aynı kural motoru,
+ * hata kodları ve mesajlarla doğrular. DOM'a bağlı değildir, Node.js, Express ve Fastify gibi ortamlarda çalışır.
+ * Boyutu verilmeyen dosyaların boyutu içerikten okunur, akışlar en büyük boyut sınırına kadar okunur ve tüketilmiş olur.
+ *
+ * @param {TFile[]} descriptors - Dosya tanımları
+ * @param {IValidationSchema} schema - İstemciyle paylaşılan kural şeması
+ * @param {Object} [options] - Seçenekler
+ * @param {string} [options.locale="tr"] - Hata mesajlarının dili
+ * @param {IFileErrorMessage[]} [options.validationMessages] - Dil kataloğundaki mesajların yerine geçen mesajlar
+ * @returns {Promise<{ files: TFile[]; rejections: IFileRejection<TFile>[] }>} - Kabul edilen dosyalar ve reddetmeler
+ */
+export const validateFiles = async <TFile extends IFileDescriptor>(
+	descriptors: TFile[],
+	schema: IValidationSchema,
+	{ locale = "tr", validationMessages }: { locale?: string; validationMessages?: IFileErrorMessage[] } = {},
+) => {
+	const limit = getReadLimit(schema);
+	const files = await Promise.all(
+		descriptors.map(
+			async ({ name, type, size, data }): Promise<IFileInfo> => ({
+				name,
+				type: type ?? (data instanceof Blob ? data.type : ""),
+				size: size ?? (data && limit > 0 ? await measureSize(data, limit) : 0),
+			}),
+		),
+	);
+
+	const rejections = validator({ ...schema, files, messages: createMessages(locale, validationMessages) }).map(
+		({ file, error }): IFileRejection<TFile> => {
+			const index = files.indexOf(file);
+			return { file: descriptors[index], error, index };
+		},
+	);
+
+	const rejectedFiles = new Set(rejections.map((rejection) => rejection.file));
+	return { files: descriptors.filter((descriptor) => !rejectedFiles.has(descriptor)), rejections };
+};
@@ -0,0 +1,127 @@
+import type { IFileError } from "@/Interfaces";
+import { createMediaValidator } from "@/validator/MediaValidator";
+import { runValidators } from "@/validator/Validator";
+import { vi } from "vitest";
+
+/**
+ * Görsel boyutu ve medya süresi doğrulayıcısı testleri
+ */
+describe("createMediaValidator", () => {
+	/**
+	 * Testler için hata mesajlarını tanımlayan dizi
+	 */
+	const messages: IFileError[] = [
+		{ code: "image-width-too-small", message: "Image is too narrow" },
+		{ code: "image-width-too-large", message: "Image is too wide" },
+		{ code: "image-height-too-small", message: "Image is too short" },
+		{ code: "image-height-too-large", message: "Image is too tall" },
+		{ code: "image-invalid-aspect-ratio", message: "Invalid aspect ratio" },
+		{ code: "media-too-short", message: "Media is too short" },
+		{ code: "media-too-long", message: "Media is too long" },
+	];
+
+	const context = { files: [], messages, signal: new AbortController().signal };
+
+	/**
+	 * Belirtilen ad ve türde boş bir dosya oluşturur
+	 * @param name - Dosya adı
+	 * @param type - Dosya türü (MIME tipi)
+	 * @returns Oluşturulan File nesnesi
+	 */
+	const createFile = (name: string, type: string) => new File(["a"], name, { type });
+
+	/**
+	 * Hiçbir kısıtlama tanımlı değilse doğrulayıcı oluşturulmaz.
+	 */
+	it("should not create a validator without constraints", () => {
+		expect(createMediaValidator({})).toBeNull();
+	});
+
+	/**
+	 * Minimum boyutların altındaki görselleri reddeder.
+	 */
+	it("should reject images below the minimum dimensions", async () => {
+		const validate = createMediaValidator({
+			minWidth: 256,
+			minHeight: 256,
+			decoders: { image: async () => ({ width: 128, height: 300 }) },
+		});
+
+		const result = await validate?.(createFile("avatar.png", "image/png"), context);
+
+		expect(result).toEqual([{ ...messages[0], details: { limit: 256, actual: 128, unit: "pixels" } }]);
+	});
+
+	/**
+	 * Maksimum boyutları aşan ve en-boy oranı tutmayan görselleri reddeder.
+	 */
+	it("should reject images above the maximum dimensions and with a wrong aspect ratio", async () => {
+		const validate = createMediaValidator({
+			maxWidth: 4000,
+			maxHeight: 1000,
+			aspectRatio: 16 / 9,
+			decoders: { image: async () => ({ width: 5000, height: 2000 }) },
+		});
+
+		const result = await validate?.(createFile("banner.jpg", "image/jpeg"), context);
+
+		expect(result).toEqual([
+			{ ...messages[1], details: { limit: 4000, actual: 5000, unit: "pixels" } },
+			{ ...messages[3], details: { limit: 1000, actual: 2000, unit: "pixels" } },
+			{ ...messages[4], details: { limit: 16 / 9, actual: 2.5 } },
+		]);
+	});
+
+	/**
+	 * Kısıtlamalara uyan görselleri kabul eder.
+	 */
+	it("should accept images that satisfy the constraints", async () => {
+		const validate = createMediaValidator({
+			minWidth: 100,
+			aspectRatio: 16 / 9,
+			decoders: { image: async () => ({ width: 1920, height: 1080 }) },
+		});
+
+		const result = await validate?.(createFile("banner.jpg", "image/jpeg"), context);
+
+		expect(result).toEqual([]);
+	});
+
+	/**
+	 * Süre sınırlarının dışındaki video ve ses dosyalarını reddeder.
+	 */
+	it("should reject media outside the duration limits", async () => {
+		const validate = createMediaValidator({
+			minDuration: 5,
+			maxDuration: 60,
+			decoders: { media: async (file) => ({ duration: file.type.startsWith("video/") ? 90 : 2 }) },
+		});
+
+		expect(await validate?.(createFile("clip.mp4", "video/mp4"), context)).toEqual([
+			{ ...messages[6], details: { limit: 60, actual: 90, unit: "seconds" } },
+		]);
+		expect(await validate?.(createFile("voice.mp3", "audio/mpeg"), context)).toEqual([
+			{ ...messages[5], details: { limit: 5, actual: 2, unit: "seconds" } },
+		]);
+	});
+
+	/**
+	 * İlgisiz türdeki dosyaları çözmez, çözülemeyen dosyalar file-validation-failed koduyla reddedilir.
+	 */
+	it("should skip unrelated files and reject undecodable files", async () => {
+		const image = vi.fn(async () => {
+			throw new Error("decode failed");
+		});
+		const validate = createMediaValidator({ minWidth: 100, maxDuration: 60, decoders: { image } });
+		if (!validate) throw new Error("validator expected");
+
+		expect(await validate(createFile("notes.txt", "text/plain"), context)).toBeNull();
+		await expect(validate(createFile("broken.png", "image/png"), context)).rejects.toThrow("decode failed");
+		expect(image).toHaveBeenCalledTimes(1);
+
+		const broken = createFile("broken.png", "image/png");
+		expect(await runValidators({ files: [broken], validators: [validate], signal: context.signal })).toEqual([
+			{ file: broken, error: [{ code: "file-validation-failed", message: "decode failed" }] },
+		]);
+	});
+});
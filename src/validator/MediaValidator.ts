@@ -0,0 +1,134 @@
+import type { IFileError, IFileValidator, IMediaConstraints, IMediaDecoders } from "@/Interfaces";
+import { validateFile } from "@/validator/Validator";
+
+/**
+ * Görselin piksel boyutlarını tarayıcıda çözer.
+ *
+ * @param {File} file - Çözülecek görsel dosyası
+ * @returns {Promise<{ width: number; height: number }>} - Görselin genişliği ve yüksekliği
+ */
+export const decodeImage = (file: File) =>
+	new Promise<{ width: number; height: number }>((resolve, reject) => {
+		const url = URL.createObjectURL(file);
+		const image = new Image();
+
+		image.onload = () => {
+			URL.revokeObjectURL(url);
+			resolve({ width: image.naturalWidth, height: image.naturalHeight });
+		};
+		image.onerror = () => {
+			URL.revokeObjectURL(url);
+			reject(new Error(`${file.name} görsel olarak çözülemedi.`));
+		};
+		image.src = url;
+	});
+
+/**
+ * Video veya ses dosyasının süresini yalnızca metadata yükleyerek çözer.
+ *
+ * @param {File} file - Çözülecek medya dosyası
+ * @returns {Promise<{ duration: number }>} - Medyanın saniye cinsinden süresi
+ */
+export const decodeMedia = (file: File) =>
+	new Promise<{ duration: number }>((resolve, reject) => {
+		const url = URL.createObjectURL(file);
+		const media = document.createElement(file.type.startsWith("audio/") ? "audio" : "video");
+
+		media.preload = "metadata";
+		media.onloadedmetadata = () => {
+			URL.revokeObjectURL(url);
+			resolve({ duration: media.duration });
+		};
+		media.onerror = () => {
+			URL.revokeObjectURL(url);
+			reject(new Error(`${file.name} medya olarak çözülemedi.`));
+		};
+		media.src = url;
+	});
+
+/**
+ * Görsel boyutu ve medya süresi kısıtlamalarını kontrol eden doğrulayıcıyı oluşturur.
+ * Dosyalar yalnızca ilgili kısıtlama tanımlıysa çözülür.
+ * Çözülemeyen dosyalar kısıtlamaları atlayamasın diye çözme hatası fırlatılır, runValidators dosyayı file-validation-failed koduyla reddeder.
+ *
+ * @param {IMediaConstraints & { decoders?: IMediaDecoders }} params - Kısıtlamalar ve isteğe bağlı çözücüler
+ * @returns {IFileValidator | null} - Doğrulayıcı veya hiçbir kısıtlama yoksa null
+ */
+export const createMediaValidator = ({
+	minWidth,
+	maxWidth,
+	minHeight,
+	maxHeight,
+	aspectRatio,
+	aspectRatioTolerance = 0.01,
+	minDuration,
+	maxDuration,
+	decoders,
+}: IMediaConstraints & { decoders?: IMediaDecoders }): IFileValidator | null => {
+	const hasImageConstraints = [minWidth, maxWidth, minHeight, maxHeight, aspectRatio].some((value) => value !== undefined);
+	const hasMediaConstraints = [minDuration, maxDuration].some((value) => value !== undefined);
+	if (!hasImageConstraints && !hasMediaConstraints) return null;
+
+	const decodeImageFile = decoders?.image ?? decodeImage;
+	const decodeMediaFile = decoders?.media ?? decodeMedia;
+
+	return async (file, { messages }) => {
+		if (hasImageConstraints && file.type.startsWith("image/")) {
+			const { width, height } = await decodeImageFile(file);
+			const pixels = { name: file.name, unit: "pixels" } as const;
+			return [
+				validateFile({
+					validationCode: "image-width-too-small",
+					condition: !minWidth || width >= minWidth,
+					messages,
+					params: { ...pixels, limit: minWidth, actual: width },
+				}),
+				validateFile({
+					validationCode: "image-width-too-large",
+					condition: !maxWidth || width <= maxWidth,
+					messages,
+					params: { ...pixels, limit: maxWidth, actual: width },
+				}),
+				validateFile({
+					validationCode: "image-height-too-small",
+					condition: !minHeight || height >= minHeight,
+					messages,
+					params: { ...pixels, limit: minHeight, actual: height },
+				}),
+				validateFile({
+					validationCode: "image-height-too-large",
+					condition: !maxHeight || height <= maxHeight,
+					messages,
+					params: { ...pixels, limit: maxHeight, actual: height },
+				}),
+				validateFile({
+					validationCode: "image-invalid-aspect-ratio",
+					condition: !aspectRatio || Math.abs(width / height - aspectRatio) <= aspectRatioTolerance,
+					messages,
+					params: { name: file.name, limit: aspectRatio, actual: width / height },
+				}),
+			].filter((error): error is IFileError => error !== null);
+		}
+
+		if (hasMediaConstraints && (file.type.startsWith("video/") || file.type.startsWith("audio/"))) {
+			const { duration } = await decodeMediaFile(file);
+			const seconds = { name: file.name, unit: "seconds" } as const;
+			return [
+				validateFile({
+					validationCode: "media-too-short",
+					condition: !minDuration || duration >= minDuration,
+					messages,
+					params: { ...seconds, limit: minDuration, actual: duration },
+				}),
+				validateFile({
+					validationCode: "media-too-long",
+					condition: !maxDuration || duration <= maxDuration,
+					messages,
+					params: { ...seconds, limit: maxDuration, actual: duration },
+				}),
+			].filter((error): error is IFileError => error !== null);
+		}
+
+		return null;
+	};
+};
@@ -1,5 +1,6 @@
 import type { IFileError } from "@/Interfaces";
-import { validator } from "@/validator/Validator";
+import { applyMaxFilesPolicy, mergeRejections, runValidators, validator } from "@/validator/Validator";
+import { vi } from "vitest";
 
 /**
  * Dosya doğrulayıcı testleri
@@ -13,6 +14,8 @@ describe("validator", () => {
 		{ code: "file-invalid-type", message: "Invalid file type" },
 		{ code: "file-too-large", message: "File is too large" },
 		{ code: "file-too-small", message: "File is too small" },
+		{ code: "too-many-files-of-type", message: "Too many files of this type" },
+		{ code: "total-size-too-large", message: "Total size is too large" },
 	];
 
 	/**
@@ -44,7 +47,10 @@ describe("validator", () => {
 		const result = validator({ files, messages, maxFiles: 1 });
 
 		expect(result).toHaveLength(2);
-		expect(result[0].error[0]).toEqual(messages.find((m) => m.code === "too-many-files"));
+		expect(result[0].error[0]).toEqual({
+			...messages.find((m) => m.code === "too-many-files"),
+			details: { limit: 1, actual: 2, unit: "files" },
+		});
 	});
 
 	/**
@@ -57,7 +63,10 @@ describe("validator", () => {
 
 		expect(result).toHaveLength(1);
 		expect(result[0].file.name).toBe("file1.exe");
-		expect(result[0].error[0]).toEqual(messages.find((m) => m.code === "file-invalid-type"));
+		expect(result[0].error[0]).toEqual({
+			...messages.find((m) => m.code === "file-invalid-type"),
+			details: { actual: "application/octet-stream", acceptedFormats: ["text/plain"] },
+		});
 	});
 
 	/**
@@ -69,7 +78,10 @@ describe("validator", () => {
 		const result = validator({ files, messages, maxSize: 2000 });
 
 		expect(result).toHaveLength(1);
-		expect(result[0].error[0]).toEqual(messages.find((m) => m.code === "file-too-large"));
+		expect(result[0].error[0]).toEqual({
+			...messages.find((m) => m.code === "file-too-large"),
+			details: { limit: 2000, actual: 3000, unit: "bytes" },
+		});
 	});
 
 	/**
@@ -81,7 +93,10 @@ describe("validator", () => {
 		const result = validator({ files, messages, minSize: 1000 });
 
 		expect(result).toHaveLength(1);
-		expect(result[0].error[0]).toEqual(messages.find((m) => m.code === "file-too-small"));
+		expect(result[0].error[0]).toEqual({
+			...messages.find((m) => m.code === "file-too-small"),
+			details: { limit: 1000, actual: 500, unit: "bytes" },
+		});
 	});
 
 	/**
@@ -99,8 +114,164 @@ describe("validator", () => {
 
 		expect(result).toHaveLength(1);
 		expect(result[0].error).toEqual([
-			messages.find((m) => m.code === "file-invalid-type"),
-			messages.find((m) => m.code === "file-too-large"),
+			{
+				...messages.find((m) => m.code === "file-invalid-type"),
+				details: { actual: "application/octet-stream", acceptedFormats: ["text/plain"] },
+			},
+			{ ...messages.find((m) => m.code === "file-too-large"), details: { limit: 2000, actual: 3000, unit: "bytes" } },
+		]);
+	});
+
+	/**
+	 * Dosyaya eşleşen türe özel kuralın boyut ve sayı sınırlarını genel sınırların yerine uygular, sayı sınırını yalnızca aşan dosyalar reddedilir.
+	 */
+	it("should apply per-type rules", () => {
+		const files = [
+			createFile("a.png", 400, "image/png"),
+			createFile("b.pdf", 900, "application/pdf"),
+			createFile("c.mp4", 100, "video/mp4"),
+			createFile("d.mp4", 100, "video/mp4"),
+			createFile("e.txt", 900, "text/plain"),
+		];
+
+		const result = validator({
+			files,
+			messages,
+			maxSize: 500,
+			rules: { "image/": { maxSize: 300 }, ".pdf": { maxSize: 1000 }, "video/": { maxFiles: 1 } },
+		});
+
+		expect(result.map(({ file, error }) => [file.name, error[0].code])).toEqual([
+			["a.png", "file-too-large"],
+			["e.txt", "file-too-large"],
+			["d.mp4", "too-many-files-of-type"],
+		]);
+		expect(result[0].error[0].details).toEqual({ limit: 300, actual: 400, unit: "bytes", rule: "image/" });
+		expect(result[1].error[0].details).toEqual({ limit: 500, actual: 900, unit: "bytes" });
+		expect(result[2].error[0].details).toEqual({ limit: 1, actual: 2, unit: "files", rule: "video/" });
+	});
+
+	/**
+	 * Toplam boyutu sırayla hesaplar, yalnızca sınırı aşan ve diğer kontrollerden geçen dosyaları reddeder.
+	 */
+	it("should reject files exceeding the total size", () => {
+		const files = [
+			createFile("accepted.txt", 600, "text/plain"),
+			createFile("large.txt", 500, "text/plain"),
+			createFile("invalid.txt", 5000, "text/plain"),
+			createFile("small.txt", 300, "text/plain"),
+		];
+
+		const result = validator({ files, messages, maxSize: 1000, maxTotalSize: 1000 });
+
+		expect(result.map(({ file, error }) => [file.name, error.map((item) => item.code)])).toEqual([
+			["invalid.txt", ["file-too-large"]],
+			["large.txt", ["total-size-too-large"]],
+		]);
+		expect(result[1].error[0].details).toEqual({ limit: 1000, actual: 1100, unit: "bytes" });
+	});
+
+	/**
+	 * Dosya sayısı politikaları yalnızca sınırı aşan yeni dosyaları reddeder, kabul edilmiş dosyalar reddedilmez.
+	 */
+	it("should apply the max files policy", () => {
+		const accepted = [createFile("a.txt", 1, "text/plain"), createFile("b.txt", 1, "text/plain")];
+		const added = [createFile("c.txt", 1, "text/plain"), createFile("d.txt", 1, "text/plain")];
+		const files = [...accepted, ...added];
+
+		const acceptFirst = applyMaxFilesPolicy({ files, acceptedFiles: accepted, maxFiles: 3, policy: "accept-first", messages });
+		expect(acceptFirst.files).toEqual([...accepted, added[0]]);
+		expect(acceptFirst.rejections).toEqual([
+			{
+				file: added[1],
+				error: [{ code: "too-many-files", message: "Too many files", details: { limit: 3, actual: 4, unit: "files" } }],
+			},
+		]);
+		expect(acceptFirst.replaced).toEqual([]);
+
+		const replaceOldest = applyMaxFilesPolicy({
+			files,
+			acceptedFiles: accepted,
+			maxFiles: 3,
+			policy: "replace-oldest",
+			messages,
+		});
+		expect(replaceOldest.files).toEqual([accepted[1], ...added]);
+		expect(replaceOldest.rejections).toEqual([]);
+		expect(replaceOldest.replaced).toEqual([accepted[0]]);
+
+		const rejectAll = applyMaxFilesPolicy({ files, acceptedFiles: accepted, maxFiles: 3, policy: "reject-all", messages });
+		expect(rejectAll.files).toBe(files);
+	});
+
+	/**
+	 * Aynı dosyaya ait reddetmeleri tek kayıtta birleştirir.
+	 */
+	it("should merge rejections of the same file", () => {
+		const file = createFile("file1.exe", 3000, "application/octet-stream");
+
+		const result = mergeRejections(
+			[{ file, error: [messages[1]] }],
+			[{ file, error: [{ code: "sku-mismatch", message: "SKU" }] }],
+		);
+
+		expect(result).toEqual([{ file, error: [messages[1], { code: "sku-mismatch", message: "SKU" }] }]);
+	});
+
+	/**
+	 * Senkron özel doğrulayıcıların sonucu senkron olarak döner, tekli ve çoklu hatalar düzleştirilir.
+	 */
+	it("should run sync custom validators synchronously", () => {
+		const files = [createFile("ABC-123.txt", 10, "text/plain"), createFile("invalid.txt", 10, "text/plain")];
+		const skuError = { code: "sku-mismatch", message: "Dosya adı SKU formatında olmalı" };
+
+		const result = runValidators({
+			files,
+			validators: [(file) => (/^[A-Z]{3}-\d{3}/.test(file.name) ? null : skuError), () => null],
+			signal: new AbortController().signal,
+		});
+
+		expect(result).toEqual([{ file: files[1], error: [skuError] }]);
+	});
+
+	/**
+	 * Asenkron özel doğrulayıcılar beklenir ve doğrulayıcıya bağlam iletilir.
+	 */
+	it("should await async custom validators and pass the context", async () => {
+		const files = [createFile("file1.txt", 10, "text/plain")];
+		const duplicateErrors = [
+			{ code: "already-uploaded", message: "Dosya daha önce yüklendi" },
+			{ code: "file-too-large", message: "File is too large" },
+		];
+		const asyncValidator = vi.fn(async () => duplicateErrors);
+
+		const result = runValidators({ files, messages, validators: [asyncValidator], signal: new AbortController().signal });
+
+		expect(result).toBeInstanceOf(Promise);
+		expect(await result).toEqual([{ file: files[0], error: duplicateErrors }]);
+		expect(asyncValidator).toHaveBeenCalledWith(files[0], expect.objectContaining({ files, messages }));
+	});
+
+	/**
+	 * Hata fırlatan veya reddedilen doğrulayıcılar dosyayı file-validation-failed koduyla reddeder.
+	 */
+	it("should reject files whose validator throws or rejects", async () => {
+		const files = [createFile("sync.txt", 10, "text/plain"), createFile("async.txt", 10, "text/plain")];
+
+		const result = runValidators({
+			files,
+			validators: [
+				(file) => {
+					if (file.name === "sync.txt") throw new Error("broken");
+					return file.name === "async.txt" ? Promise.reject(new Error("offline")) : null;
+				},
+			],
+			signal: new AbortController().signal,
+		});
+
+		expect(await result).toEqual([
+			{ file: files[0], error: [{ code: "file-validation-failed", message: "broken" }] },
+			{ file: files[1], error: [{ code: "file-validation-failed", message: "offline" }] },
 		]);
 	});
 });
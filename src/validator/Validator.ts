@@ -1,66 +1,150 @@
-import type { IFileError, IFileErrorTypes, IFileRejection } from "@/Interfaces";
+import type {
+	IFileError,
+	IFileErrorDetails,
+	IFileErrorMessage,
+	IFileErrorTypes,
+	IFileInfo,
+	IFileRejection,
+	IFileTypeRules,
+	IFileValidator,
+	IFileValidatorResult,
+	IMaxFilesPolicy,
+	IMessageParams,
+	IValidationSchema,
+} from "@/Interfaces";
+import { renderMessage } from "@/locale/Locale";
 
 /**
  * Dosya doğrulama işlevi.
- * Belirli bir doğrulama kodu için dosyanın koşulunu kontrol eder ve geçerli bir hata mesajı döner.
+ * Belirli bir doğrulama kodu için dosyanın koşulunu kontrol eder ve mesaj şablonunu parametrelerle doldurarak hata döner.
  *
  * @param {Object} params - Parametreler
  * @param {IFileErrorTypes} params.validationCode - Doğrulama kodu (örneğin, "file-invalid-type")
  * @param {boolean} params.condition - Doğrulama koşulu (koşul doğruysa hata mesajı döner)
- * @param {IFileError[] | undefined} params.messages - Geçerli hata mesajları dizisi
+ * @param {IFileErrorMessage[] | undefined} params.messages - Geçerli hata mesajları dizisi
+ * @param {IMessageParams} [params.params] - Mesaj şablonunun parametreleri
  * @returns {IFileError | null} - Geçerli hata mesajı veya null
  */
-const validateFile = ({
+export const validateFile = ({
 	validationCode,
 	condition,
 	messages,
-}: { validationCode: IFileErrorTypes; condition: boolean; messages?: IFileError[] }) => {
+	params = {},
+}: {
+	validationCode: IFileErrorTypes | (string & {});
+	condition: boolean;
+	messages?: IFileErrorMessage[];
+	params?: IMessageParams;
+}): IFileError | null => {
 	const validation = messages?.find((validation) => validation.code === validationCode);
-	return validation && !condition ? validation : null;
+	if (!validation || condition) return null;
+
+	// Dosya adı ve biçimlendirilmiş değerler dışındaki tanımlı parametreler hatanın ayrıntıları olarak eklenir
+	const { name: _name, formattedLimit: _formattedLimit, formattedActual: _formattedActual, ...rest } = params;
+	const details: IFileErrorDetails = Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined));
+	const error: IFileError = { code: validation.code, message: renderMessage(validation.message, params, validation.locale) };
+	return Object.keys(details).length > 0 ? { ...error, details } : error;
 };
 
+/**
+ * Dosyanın verilen formata uyup uymadığını kontrol eder.
+ * "." ile başlayan formatlar dosya adının uzantısıyla, diğerleri MIME tipinin başlangıcıyla karşılaştırılır.
+ *
+ * @param {IFileInfo} file - Dosya
+ * @param {string} format - MIME kalıbı (örneğin "image/") veya uzantı (örneğin ".pdf")
+ * @returns {boolean} - Dosya formata uyuyorsa true
+ */
+export const matchesFormat = (file: IFileInfo, format: string) =>
+	format.startsWith(".") ? file.name.endsWith(format) : file.type.startsWith(format);
+
+/**
+ * Dosyaya eşleşen ilk dosya türü kuralını anahtarıyla birlikte döner.
+ *
+ * @param {IFileInfo} file - Dosya
+ * @param {IFileTypeRules} [rules] - Dosya türü kuralları
+ * @returns {[string, IFileTypeRule] | undefined} - Kuralın anahtarı ve kendisi, eşleşen kural yoksa undefined
+ */
+export const findRule = (file: IFileInfo, rules?: IFileTypeRules) =>
+	Object.entries(rules ?? {}).find(([format]) => matchesFormat(file, format));
+
 /**
  * Dosyaları doğrulayan ana doğrulama işlevi.
  * Her dosya için, verilen dosya doğrulama koşullarına göre hata mesajları döndürür.
+ * Dosyaya eşleşen türe özel kuralın boyut sınırları genel sınırların yerine geçer.
+ * Türe özel dosya sayısı ve toplam boyut, diğer kontrollerden geçen dosyaların sırayla sayılmasıyla hesaplanır ve yalnızca sınırı aşan dosyalar reddedilir.
+ * Kurallar IValidationSchema ile aynıdır, dosyalar yalnızca ad, tür ve boyutlarıyla okunduğu için sunucuda da çalışır.
  *
  * @param {Object} params - Parametreler
- * @param {File[]} params.files - Doğrulanacak dosyalar
- * @param {IFileError[] | undefined} params.messages - Hata mesajları dizisi
+ * @param {TFile[]} params.files - Doğrulanacak dosyalar
+ * @param {IFileErrorMessage[] | undefined} params.messages - Hata mesajları dizisi
  * @param {number} [params.maxFiles] - Maksimum dosya sayısı (isteğe bağlı)
  * @param {number} [params.maxSize] - Maksimum dosya boyutu (isteğe bağlı)
  * @param {number} [params.minSize] - Minimum dosya boyutu (isteğe bağlı)
  * @param {string[] | undefined} params.acceptedFormats - Kabul edilen dosya formatları
- * @returns {IFileRejection[]} - Reddedilen dosyalar ve hata mesajları dizisi
+ * @param {IFileTypeRules} [params.rules] - Dosya türüne özel boyut ve sayı sınırları (isteğe bağlı)
+ * @param {number} [params.maxTotalSize] - Dosyaların toplam boyutu üst sınırı (isteğe bağlı)
+ * @returns {IFileRejection<TFile>[]} - Reddedilen dosyalar ve hata mesajları dizisi
  */
-export const validator = ({
+export const validator = <TFile extends IFileInfo = File>({
 	files,
 	messages,
 	maxFiles,
 	maxSize,
 	minSize,
 	acceptedFormats,
-}: {
-	files: File[];
-	messages?: IFileError[];
-	maxSize?: number;
-	minSize?: number;
-	maxFiles?: number;
-	acceptedFormats?: string[];
-}): IFileRejection[] =>
+	rules,
+	maxTotalSize,
+}: IValidationSchema & {
+	files: TFile[];
+	messages?: IFileErrorMessage[];
+}): IFileRejection<TFile>[] => {
+	// Dosyalara eşleşen kurallar
+	const fileRules = files.map((file) => findRule(file, rules));
+
 	// Dosyalar üzerinde iterasyon yaparak her dosya için doğrulama işlemi yapıyoruz
-	files.reduce((rejections, file) => {
+	const rejections = files.reduce((rejections, file, index) => {
+		const [ruleKey, rule] = fileRules[index] ?? [];
+		const fileMaxSize = rule?.maxSize ?? maxSize;
+		const fileMinSize = rule?.minSize ?? minSize;
+
 		const fileRejections: IFileError[] = [
 			// Her dosya için ilgili doğrulama koşullarını kontrol ediyoruz
-			validateFile({ validationCode: "too-many-files", condition: !maxFiles || files.length <= maxFiles, messages }),
+			validateFile({
+				validationCode: "too-many-files",
+				condition: !maxFiles || files.length <= maxFiles,
+				messages,
+				params: { name: file.name, limit: maxFiles, actual: files.length, unit: "files" },
+			}),
 			validateFile({
 				validationCode: "file-invalid-type",
-				condition: acceptedFormats
-					? acceptedFormats.some((format) => (format.startsWith(".") ? file.name.endsWith(format) : file.type.startsWith(format)))
-					: true,
+				condition: acceptedFormats ? acceptedFormats.some((format) => matchesFormat(file, format)) : true,
+				messages,
+				params: { name: file.name, actual: file.type, acceptedFormats },
+			}),
+			validateFile({
+				validationCode: "file-too-large",
+				condition: !fileMaxSize || file.size <= fileMaxSize,
+				messages,
+				params: {
+					name: file.name,
+					limit: fileMaxSize,
+					actual: file.size,
+					unit: "bytes",
+					rule: rule?.maxSize ? ruleKey : undefined,
+				},
+			}),
+			validateFile({
+				validationCode: "file-too-small",
+				condition: !fileMinSize || file.size >= fileMinSize,
 				messages,
+				params: {
+					name: file.name,
+					limit: fileMinSize,
+					actual: file.size,
+					unit: "bytes",
+					rule: rule?.minSize ? ruleKey : undefined,
+				},
 			}),
-			validateFile({ validationCode: "file-too-large", condition: !maxSize || file.size <= maxSize, messages }),
-			validateFile({ validationCode: "file-too-small", condition: !minSize || file.size >= minSize, messages }),
 		].filter((rejection) => rejection !== null); // Null olmayan hataları filtrele
 
 		// Eğer dosyada herhangi bir hata mesajı varsa, reddedilen dosyalar listesine ekle
@@ -68,4 +152,256 @@ export const validator = ({
 
 		rejections.push({ file, error: fileRejections });
 		return rejections;
-	}, [] as IFileRejection[]); // Sonuç olarak reddedilen dosyalar ve hata mesajlarını döner
+	}, [] as IFileRejection<TFile>[]);
+
+	// Kabul edilmiş dosyalar listenin başında olduğu için türe özel sayı sınırını aşan dosyalar yeni eklenen dosyalardır
+	if (rules) {
+		const rejectedFiles = new Set(rejections.map((rejection) => rejection.file));
+		const ruleCounts = new Map<string, number>();
+		for (const [index, file] of files.entries()) {
+			const [ruleKey, rule] = fileRules[index] ?? [];
+			if (!ruleKey || !rule?.maxFiles || rejectedFiles.has(file)) continue;
+
+			const ruleCount = (ruleCounts.get(ruleKey) ?? 0) + 1;
+			const ruleCountError = validateFile({
+				validationCode: "too-many-files-of-type",
+				condition: ruleCount <= rule.maxFiles,
+				messages,
+				params: { name: file.name, limit: rule.maxFiles, actual: ruleCount, unit: "files", rule: ruleKey },
+			});
+			if (ruleCountError) rejections.push({ file, error: [ruleCountError] });
+			else ruleCounts.set(ruleKey, ruleCount);
+		}
+	}
+
+	if (!maxTotalSize) return rejections; // Sonuç olarak reddedilen dosyalar ve hata mesajlarını döner
+
+	// Kabul edilmiş dosyalar listenin başında olduğu için toplam boyutu aşan dosyalar yeni eklenen dosyalardır
+	const rejectedFiles = new Set(rejections.map((rejection) => rejection.file));
+	let totalSize = 0;
+	for (const file of files) {
+		if (rejectedFiles.has(file)) continue;
+
+		const totalSizeError = validateFile({
+			validationCode: "total-size-too-large",
+			condition: totalSize + file.size <= maxTotalSize,
+			messages,
+			params: { name: file.name, limit: maxTotalSize, actual: totalSize + file.size, unit: "bytes" },
+		});
+		if (totalSizeError) rejections.push({ file, error: [totalSizeError] });
+		else totalSize += file.size;
+	}
+
+	return rejections;
+};
+
+/**
+ * Dosya sayısı sınırını politikaya göre uygular, yalnızca sınırı aşan yeni dosyalar için too-many-files hatası üretir.
+ * "accept-first" listenin başındaki (daha önce kabul edilmiş) dosyaları korur, "replace-oldest" en eski dosyaları çıkarır.
+ * Sınırı aşan ve daha önce kabul edilmiş dosyalar reddedilmez, listeden çıkarılan dosyalar olarak döner.
+ * "reject-all" politikası validator içinde uygulanır ve burada dosyalara dokunulmaz.
+ *
+ * @param {Object} params - Parametreler
+ * @param {File[]} params.files - Diğer kontrollerden geçen dosyalar, daha önce kabul edilmiş dosyalar başta olacak şekilde sıralı
+ * @param {File[]} params.acceptedFiles - Daha önce kabul edilmiş dosyalar
+ * @param {number} [params.maxFiles] - Maksimum dosya sayısı
+ * @param {IMaxFilesPolicy} params.policy - Dosya sayısı politikası
+ * @param {IFileErrorMessage[] | undefined} params.messages - Hata mesajları dizisi
+ * @returns {{ files: File[]; rejections: IFileRejection[]; replaced: File[] }} - Kalan dosyalar, sınırı aşan yeni dosyalar ve listeden çıkarılan dosyalar
+ */
+export const applyMaxFilesPolicy = ({
+	files,
+	acceptedFiles,
+	maxFiles,
+	policy,
+	messages,
+}: {
+	files: File[];
+	acceptedFiles: File[];
+	maxFiles?: number;
+	policy: IMaxFilesPolicy;
+	messages?: IFileErrorMessage[];
+}) => {
+	if (!maxFiles || policy === "reject-all" || files.length <= maxFiles) {
+		return { files, rejections: [] as IFileRejection[], replaced: [] as File[] };
+	}
+
+	const keptFiles = new Set(policy === "accept-first" ? files.slice(0, maxFiles) : files.slice(-maxFiles));
+	const previousFiles = new Set(acceptedFiles);
+	const overflowFiles = files.filter((file) => !keptFiles.has(file));
+
+	const rejections = overflowFiles
+		.filter((file) => !previousFiles.has(file))
+		.reduce((rejections, file) => {
+			const error = validateFile({
+				validationCode: "too-many-files",
+				condition: false,
+				messages,
+				params: { name: file.name, limit: maxFiles, actual: files.length, unit: "files" },
+			});
+			if (error) rejections.push({ file, error: [error] });
+			return rejections;
+		}, [] as IFileRejection[]);
+
+	return {
+		files: files.filter((file) => keptFiles.has(file)),
+		rejections,
+		replaced: overflowFiles.filter((file) => previousFiles.has(file)),
+	};
+};
+
+/**
+ * DropzoneGroup'un dosya sayısı ve toplam boyut sınırlarını bölgenin dosyalarına diğer bölgelerin dosyalarıyla birlikte uygular.
+ * Daha önce kabul edilmiş dosyalar her zaman sayılır, yeni dosyalar sırayla eklenir ve yalnızca sınırı aşanlar reddedilir.
+ *
+ * @param {Object} params - Parametreler
+ * @param {File[]} params.files - Bölgenin diğer kontrollerden geçen dosyaları
+ * @param {File[]} params.acceptedFiles - Bölgenin daha önce kabul edilmiş dosyaları
+ * @param {File[]} params.otherFiles - Gruptaki diğer bölgelerin dosyaları
+ * @param {number} [params.maxFiles] - Grubun maksimum dosya sayısı
+ * @param {number} [params.maxTotalSize] - Grubun toplam boyut üst sınırı
+ * @param {IFileErrorMessage[] | undefined} params.messages - Hata mesajları dizisi
+ * @returns {IFileRejection[]} - Grup sınırlarını aşan yeni dosyalar
+ */
+export const validateGroupLimits = ({
+	files,
+	acceptedFiles,
+	otherFiles,
+	maxFiles,
+	maxTotalSize,
+	messages,
+}: {
+	files: File[];
+	acceptedFiles: File[];
+	otherFiles: File[];
+	maxFiles?: number;
+	maxTotalSize?: number;
+	messages?: IFileErrorMessage[];
+}) => {
+	if (!maxFiles && !maxTotalSize) return [];
+
+	const previousFiles = new Set(acceptedFiles);
+	const countedFiles = [...otherFiles, ...files.filter((file) => previousFiles.has(file))];
+	let count = countedFiles.length;
+	let totalSize = countedFiles.reduce((total, file) => total + file.size, 0);
+
+	return files.reduce((rejections, file) => {
+		if (previousFiles.has(file)) return rejections;
+
+		const error =
+			validateFile({
+				validationCode: "too-many-files",
+				condition: !maxFiles || count < maxFiles,
+				messages,
+				params: { name: file.name, limit: maxFiles, actual: otherFiles.length + files.length, unit: "files" },
+			}) ??
+			validateFile({
+				validationCode: "total-size-too-large",
+				condition: !maxTotalSize || totalSize + file.size <= maxTotalSize,
+				messages,
+				params: { name: file.name, limit: maxTotalSize, actual: totalSize + file.size, unit: "bytes" },
+			});
+		if (error) {
+			rejections.push({ file, error: [error] });
+			return rejections;
+		}
+
+		count += 1;
+		totalSize += file.size;
+		return rejections;
+	}, [] as IFileRejection[]);
+};
+
+/**
+ * Aynı dosyaya ait reddetmeleri tek bir kayıtta birleştirir.
+ *
+ * @param {...IFileRejection[][]} groups - Birleştirilecek reddetme listeleri
+ * @returns {IFileRejection[]} - Dosya başına tek kayıt içeren reddetme listesi
+ */
+export const mergeRejections = (...groups: IFileRejection[][]): IFileRejection[] =>
+	groups.flat().reduce((merged, rejection) => {
+		const existing = merged.find((item) => item.file === rejection.file);
+		if (existing) {
+			existing.error.push(...rejection.error);
+			return merged;
+		}
+
+		merged.push({ file: rejection.file, error: [...rejection.error] });
+		return merged;
+	}, [] as IFileRejection[]);
+
+/**
+ * Yalnızca uyarı içeren kayıtları reddetmelerden ayırır, uyarı içeren dosyalar kabul edilir.
+ * Hem hata hem uyarı içeren dosyalar reddedilir ve uyarılar reddetme kaydında kalır.
+ *
+ * @param {IFileRejection[]} entries - Doğrulama sonucu kayıtlar
+ * @returns {{ rejections: IFileRejection[]; warnings: IFileRejection[] }} - Reddedilen dosyalar ve uyarı alan dosyalar
+ */
+export const splitWarnings = (entries: IFileRejection[]) =>
+	entries.reduce(
+		(result, entry) => {
+			const rejected = entry.error.some((error) => error.severity !== "warning");
+			(rejected ? result.rejections : result.warnings).push(entry);
+			return result;
+		},
+		{ rejections: [] as IFileRejection[], warnings: [] as IFileRejection[] },
+	);
+
+/**
+ * Özel doğrulayıcıları her dosya için çalıştırır ve sonuçları reddetme listesine dönüştürür.
+ * Hiçbir doğrulayıcı Promise dönmezse sonuç senkron olarak döner, aksi halde tüm sonuçlar beklenir.
+ * Hata fırlatan veya reddedilen doğrulayıcılar (örneğin başarısız bir API isteği) dosyayı file-validation-failed koduyla reddeder.
+ *
+ * @param {Object} params - Parametreler
+ * @param {File[]} params.files - Doğrulanacak dosyalar
+ * @param {IFileValidator[]} params.validators - Özel doğrulayıcılar
+ * @param {IFileErrorMessage[] | undefined} params.messages - Hata mesajları dizisi
+ * @param {AbortSignal} params.signal - Dosya listesi değiştiğinde bayat sonuçları iptal eden sinyal
+ * @returns {IFileRejection[] | Promise<IFileRejection[]>} - Reddedilen dosyalar ve hata mesajları dizisi
+ */
+export const runValidators = ({
+	files,
+	validators,
+	messages,
+	signal,
+}: {
+	files: File[];
+	validators: IFileValidator[];
+	messages?: IFileErrorMessage[];
+	signal: AbortSignal;
+}): IFileRejection[] | Promise<IFileRejection[]> => {
+	/**
+	 * Doğrulayıcıyı çalıştırır, doğrulayıcının hatası dosyanın reddetme hatasına dönüştürülür.
+	 * @param {IFileValidator} validate - Özel doğrulayıcı
+	 * @param {File} file - Doğrulanacak dosya
+	 * @returns {IFileValidatorResult | Promise<IFileValidatorResult>} - Doğrulayıcının sonucu
+	 */
+	const run = (validate: IFileValidator, file: File) => {
+		const fail = (error: unknown): IFileError =>
+			validateFile({ validationCode: "file-validation-failed", condition: false, messages, params: { name: file.name } }) ?? {
+				code: "file-validation-failed",
+				message: error instanceof Error ? error.message : String(error),
+			};
+
+		try {
+			const result = validate(file, { files, messages, signal });
+			return result instanceof Promise ? result.catch(fail) : result;
+		} catch (error) {
+			return fail(error);
+		}
+	};
+
+	const results = files.map((file) => validators.map((validate) => run(validate, file)));
+
+	// Her dosyanın doğrulayıcı sonuçlarını düzleştirip hata içerenleri reddetme listesine ekliyoruz
+	const toRejections = (settled: IFileValidatorResult[][]) =>
+		settled.reduce((rejections, fileResults, index) => {
+			const errors = fileResults.flat().filter((error) => error !== null);
+			if (errors.length > 0) rejections.push({ file: files[index], error: errors });
+			return rejections;
+		}, [] as IFileRejection[]);
+
+	if (!results.flat().some((result) => result instanceof Promise)) return toRejections(results as IFileValidatorResult[][]);
+
+	return Promise.all(results.map((fileResults) => Promise.all(fileResults))).then(toRejections);
+};
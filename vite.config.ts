@@ -8,9 +8,10 @@ import { peerDependencies } from "./package.json";
 export default defineConfig({
 	build: {
 		lib: {
-			entry: "./src/index.ts", // Kütüphanenin giriş noktası.
+			entry: { index: "./src/index.ts", validator: "./src/validator.ts" }, // Kütüphanenin ve sunucu tarafı doğrulayıcının giriş noktaları.
 			name: "react-dropzone-kit", // Kütüphanenin adı.
-			fileName: (format) => `index.${format}.js`, // Çıktı dosyasının adı.
+			// Paket "type": "module" olduğu için CommonJS çıktıları .cjs uzantısıyla üretilir, aksi halde Node bunları ES modülü olarak okur.
+			fileName: (format, entryName) => (format === "cjs" ? `${entryName}.cjs` : `${entryName}.es.js`),
 			formats: ["cjs", "es"], // Çıktı formatları (CommonJS ve ES modülleri).
 		},
 		rollupOptions: {
@@ -7,12 +7,31 @@ afterAll(() => {
 });
 
 beforeAll(() => {
-	global.DataTransfer = vi.fn().mockImplementation(() => ({
-		items: {
-			add: vi.fn(),
+	// Sunucu tarafı testleri DOM olmadan node ortamında çalışır
+	if (typeof window === "undefined") return;
+
+	global.DataTransfer = vi.fn().mockImplementation(() => {
+		const files: File[] = [];
+		return {
+			items: {
+				add: vi.fn((file: File) => files.push(file)),
+			},
+			files,
+			setData: vi.fn(),
+			getData: vi.fn(),
+		};
+	});
+
+	// jsdom input.files'a yalnızca gerçek FileList atanmasına izin verir, mock DataTransfer ile atanabilmesi için setter'ı genişletiyoruz.
+	const filesDescriptor = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "files");
+	const inputFiles = new WeakMap<HTMLInputElement, FileList>();
+	Object.defineProperty(HTMLInputElement.prototype, "files", {
+		configurable: true,
+		get() {
+			return inputFiles.get(this) ?? filesDescriptor?.get?.call(this);
+		},
+		set(value: FileList) {
+			inputFiles.set(this, value);
 		},
-		files: [],
-		setData: vi.fn(),
-		getData: vi.fn(),
-	}));
+	});
 });